@@ -1,30 +1,59 @@
 
-import React, { useState, useEffect, lazy, Suspense } from 'react';
+import React, { useState, useEffect, useRef, lazy, Suspense } from 'react';
 import { Layout } from './components/Layout';
 import { MatchList } from './components/MatchList';
 import { Filters } from './components/Filters';
 import { DashboardSummary } from './components/dashboard/DashboardSummary';
-import { Match, PredictionResult, ViewState, DetailedForecastResult, ExtendedFilters, AISnapshot } from './types';
-import { geminiService } from './services/geminiService';
+import { Match, PredictionResult, ViewState, DetailedForecastResult, BasketballForecastResult, ExtendedFilters, AISnapshot, DateSelection, PredictionType, PredictionDescriptor } from './types';
+import { predictionProvider, providerRegistry } from './services/providers';
+import { fixtureStore } from './services/recordReplay';
+import { appLogger } from './utils/logger';
+import { requestExecutor, RetryState } from './services/requestExecutor';
+import { isAbortError } from './services/errors';
+import { RetryNotice } from './components/ui';
 import { historyService } from './services/historyService';
-import { PLACEHOLDER_MATCHES } from './constants';
+import { predictionCache } from './services/predictionCache';
+import { runEnsemblePrediction } from './services/ensemble';
+import { usageLedger, formatUsd } from './services/usageLedger';
+import { loadEloBaseline, BaselinePrediction } from './services/eloBaseline';
+import { buildAISnapshot } from './services/metrics';
+import { loadFixtures } from './services/fixtureCache';
+import { advanceByClock, refreshLiveStatus } from './services/liveStatus';
+import { usesBasketballForecast } from './services/sportRegistry';
+import { leagueRegistry, rekeyMatch, teamRegistry } from './services/teamRegistry';
+import { dateRange, formatRelativeDate, todayKey } from './utils/dates';
+import { DateNavigator, describeSelection } from './components/DateNavigator';
+import { PLACEHOLDER_MATCHES, LIVE_CLOCK_TICK_MS, LIVE_POLL_INTERVAL_MS, ENSEMBLE_DEFAULTS } from './constants';
 
 const PredictionView = lazy(() => import('./components/PredictionView').then(m => ({ default: m.PredictionView })));
 const DetailedForecastView = lazy(() => import('./components/DetailedForecastView').then(m => ({ default: m.DetailedForecastView })));
+const BasketballForecastView = lazy(() => import('./components/BasketballForecastView').then(m => ({ default: m.BasketballForecastView })));
 const HistoryView = lazy(() => import('./components/HistoryView').then(m => ({ default: m.HistoryView })));
 const BacktestView = lazy(() => import('./components/BacktestView').then(m => ({ default: m.BacktestView })));
+const CalibrationView = lazy(() => import('./components/CalibrationView').then(m => ({ default: m.CalibrationView })));
+const UsageView = lazy(() => import('./components/UsageView').then(m => ({ default: m.UsageView })));
+const TeamRegistryView = lazy(() => import('./components/TeamRegistryView').then(m => ({ default: m.TeamRegistryView })));
+const SettingsView = lazy(() => import('./components/SettingsView').then(m => ({ default: m.SettingsView })));
 
-// Cache key for matches
-const MATCHES_CACHE_KEY = 'probable_play_matches_cache_v2';
+// The provider is chosen once at startup, so its record/replay mode is fixed too
+const providerMode = providerRegistry.modeOf(predictionProvider);
 
 export const App: React.FC = () => {
   const [view, setView] = useState<ViewState>(ViewState.DASHBOARD);
   const [matches, setMatches] = useState<Match[]>([]);
+  // Demo fixtures stand in when live fixtures cannot be loaded
+  const [usingPlaceholders, setUsingPlaceholders] = useState(false);
+  const [dateSelection, setDateSelection] = useState<DateSelection>(() => ({ start: todayKey(), end: todayKey() }));
   const [selectedMatch, setSelectedMatch] = useState<Match | null>(null);
   
   // Data State
   const [prediction, setPrediction] = useState<PredictionResult | null>(null);
+  const [baseline, setBaseline] = useState<BaselinePrediction | null>(null);
   const [detailedForecast, setDetailedForecast] = useState<DetailedForecastResult | null>(null);
+  const [basketballForecast, setBasketballForecast] = useState<BasketballForecastResult | null>(null);
+  // Set when the shown result came from the prediction cache rather than a fresh call
+  const [resultCachedAt, setResultCachedAt] = useState<number | null>(null);
+  const [ensembleProgress, setEnsembleProgress] = useState<{ completed: number; total: number } | null>(null);
   
   // UI State
   const [searchQuery, setSearchQuery] = useState('');
@@ -38,186 +67,283 @@ export const App: React.FC = () => {
   const [isLoadingMatches, setIsLoadingMatches] = useState(false);
   const [isPredicting, setIsPredicting] = useState(false);
   const [predictionError, setPredictionError] = useState<string | null>(null);
+  const [matchesError, setMatchesError] = useState<string | null>(null);
+  const [retryState, setRetryState] = useState<RetryState | null>(null);
+  const [spendCap, setSpendCap] = useState<{ spent: number; cap: number } | null>(null);
+  const [fixtureCount, setFixtureCount] = useState(() => fixtureStore.size);
   const [hasApiKey, setHasApiKey] = useState(true);
-  const [aiSnapshot, setAiSnapshot] = useState<AISnapshot>({
-    latestPrediction: null,
-    accuracy: 0,
-    totalPredictions: 0,
-    trendData: []
-  });
+  const [aiSnapshot, setAiSnapshot] = useState<AISnapshot>(() => buildAISnapshot([]));
+
+  // In-flight prediction request. Each request gets an id so a late response
+  // for a match the user has already left is discarded rather than rendered.
+  const activeRequestRef = useRef<{ id: number; controller: AbortController } | null>(null);
+  const requestCounterRef = useRef(0);
+  // Fixture load for the current date selection; replaced when the selection changes
+  const fixtureRequestRef = useRef<AbortController | null>(null);
+  // Latest matches for the live poller, which runs outside React's render cycle
+  const matchesRef = useRef<Match[]>([]);
+  matchesRef.current = matches;
+
+  useEffect(() => requestExecutor.subscribe(setRetryState), []);
 
+  // Keeps the record/replay banner's fixture count live while calls are captured
+  useEffect(() => fixtureStore.subscribe(() => setFixtureCount(fixtureStore.size)), []);
+
+  // Tracks whether today's spend has hit the cap so the banner updates live
   useEffect(() => {
-    if (!geminiService.isConfigured) {
+    const refresh = () => {
+      const cap = usageLedger.getDailyCap();
+      const spent = usageLedger.today().costUsd;
+      setSpendCap(cap !== null && spent >= cap ? { spent, cap } : null);
+    };
+    refresh();
+    return usageLedger.subscribe(refresh);
+  }, []);
+
+  useEffect(() => {
+    if (!predictionProvider.isConfigured) {
       setHasApiKey(false);
       setMatches(PLACEHOLDER_MATCHES);
+      setUsingPlaceholders(true);
       setIsLoadingMatches(false);
     } else {
-      initializeMatches();
+      loadMatches(dateSelection);
     }
+  }, [dateSelection]);
+
+  // Scheduled -> Live -> Finished transitions that need no network call
+  useEffect(() => {
+    const tick = setInterval(() => setMatches((current) => advanceByClock(current)), LIVE_CLOCK_TICK_MS);
+    return () => clearInterval(tick);
   }, []);
 
-  const generateAISnapshot = (): AISnapshot => {
-    const history = historyService.getHistory();
-    
-    if (history.length === 0) {
-      return {
-        latestPrediction: null,
-        accuracy: 0,
-        totalPredictions: 0,
-        trendData: []
-      };
-    }
+  // Merges and alias removals can move a team to another registry entry, which changes the ids built from its key
+  useEffect(() => {
+    const rekey = () => {
+      setMatches((current) => current.map(rekeyMatch));
+      setSelectedMatch((current) => current && rekeyMatch(current));
+    };
+    const unsubscribeTeams = teamRegistry.subscribe(rekey);
+    const unsubscribeLeagues = leagueRegistry.subscribe(rekey);
+    return () => {
+      unsubscribeTeams();
+      unsubscribeLeagues();
+    };
+  }, []);
 
-    // Get latest standard prediction
-    const latestStandard = history.find(item => item.type === 'STANDARD' && item.standardPrediction);
-    const latestPrediction = latestStandard?.standardPrediction || null;
+  // Polls scores for matches in progress once fixtures are loaded, then on an interval
+  useEffect(() => {
+    if (!predictionProvider.isConfigured || isLoadingMatches || usingPlaceholders) return;
+    const controller = new AbortController();
 
-    // Calculate accuracy
-    const finishedItems = history.filter(item => item.result?.isFinished);
-    const correctItems = finishedItems.filter(item => {
-      if (!item.standardPrediction) return false;
-      
-      const pred = item.standardPrediction.probabilities;
-      const predictedWinner = pred.homeWin > pred.awayWin && pred.homeWin > pred.draw ? 'Home' :
-                              pred.awayWin > pred.homeWin && pred.awayWin > pred.draw ? 'Away' : 'Draw';
-      
-      return predictedWinner === item.result?.winner;
-    });
-    
-    const accuracy = finishedItems.length > 0 ? Math.round((correctItems.length / finishedItems.length) * 100) : 0;
-
-    // Calculate trend data (last 10 predictions)
-    const recentHistory = history.slice(0, 10).reverse();
-    const trendData = recentHistory.map((item, index) => {
-      const predictionsSoFar = recentHistory.slice(0, index + 1);
-      const finishedSoFar = predictionsSoFar.filter(p => p.result?.isFinished);
-      const correctSoFar = finishedSoFar.filter(p => {
-        if (!p.standardPrediction) return false;
-        
-        const pred = p.standardPrediction.probabilities;
-        const predictedWinner = pred.homeWin > pred.awayWin && pred.homeWin > pred.draw ? 'Home' :
-                                pred.awayWin > pred.homeWin && pred.awayWin > pred.draw ? 'Away' : 'Draw';
-        
-        return predictedWinner === p.result?.winner;
-      });
-      
-      return {
-        name: `P${index + 1}`,
-        value: finishedSoFar.length > 0 ? Math.round((correctSoFar.length / finishedSoFar.length) * 100) : 0,
-        label: `Prediction ${index + 1}`
-      };
-    });
-
-    return {
-      latestPrediction,
-      accuracy,
-      totalPredictions: history.length,
-      trendData
+    const poll = async () => {
+      try {
+        const { matches: updated } = await refreshLiveStatus(predictionProvider, matchesRef.current, { signal: controller.signal });
+        const byId = new Map(updated.map((m) => [m.id, m]));
+        setMatches((current) => current.map((m) => byId.get(m.id) ?? m));
+      } catch (err) {
+        if (!isAbortError(err)) console.error('Live status refresh failed', err);
+      }
     };
-  };
+
+    poll();
+    const interval = setInterval(poll, LIVE_POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [dateSelection, isLoadingMatches, usingPlaceholders]);
 
   useEffect(() => {
-    // Generate AI snapshot on mount
-    setAiSnapshot(generateAISnapshot());
+    // Generate AI snapshot on mount, and again whenever history changes (saves, settled results)
+    const refresh = () => historyService.getHistory().then((history) => setAiSnapshot(buildAISnapshot(history)));
+    refresh();
+    return historyService.subscribe(refresh);
   }, []);
 
-  const initializeMatches = () => {
-    const cachedData = localStorage.getItem(MATCHES_CACHE_KEY);
-    if (cachedData) {
-      try {
-        const { timestamp, data } = JSON.parse(cachedData);
-        const cacheDate = new Date(timestamp);
-        const now = new Date();
-        const isSameDay = cacheDate.toDateString() === now.toDateString();
-        
-        if (isSameDay && Array.isArray(data) && data.length > 0) {
-          setMatches(data);
-          return;
-        }
-      } catch (e) {
-        localStorage.removeItem(MATCHES_CACHE_KEY);
-      }
-    }
-    fetchMatches();
-  };
+  const loadMatches = async (selection: DateSelection, forceRefresh = false) => {
+    if (!predictionProvider.isConfigured) return;
+    fixtureRequestRef.current?.abort();
+    const controller = new AbortController();
+    fixtureRequestRef.current = controller;
 
-  const fetchMatches = async () => {
-    if (!geminiService.isConfigured) return;
     setIsLoadingMatches(true);
+    setMatchesError(null);
     try {
-      const data = await geminiService.fetchTodaysMatches();
-      if (data.length > 0) {
-        setMatches(data);
-        localStorage.setItem(MATCHES_CACHE_KEY, JSON.stringify({
-          timestamp: Date.now(),
-          data: data
-        }));
-      } else {
+      const dates = dateRange(selection.start, selection.end);
+      const { matches: loaded, failures } = await loadFixtures(predictionProvider, dates, { forceRefresh, signal: controller.signal });
+      if (fixtureRequestRef.current !== controller) return;
+
+      failures.forEach(({ date, error }) => console.error(`Failed to load fixtures for ${date}`, error));
+      if (failures.length === dates.length) {
+        // Keep the UI usable, but say plainly that these are demo fixtures
         setMatches(PLACEHOLDER_MATCHES);
+        setUsingPlaceholders(true);
+        setMatchesError((failures[0].error as Error)?.message || "Failed to load fixtures.");
+        return;
+      }
+      setMatches(advanceByClock(loaded));
+      setUsingPlaceholders(false);
+      if (failures.length > 0) {
+        setMatchesError(`Fixtures for ${failures.map((f) => formatRelativeDate(f.date)).join(', ')} could not be loaded.`);
       }
-    } catch (err) {
+    } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setMatches(PLACEHOLDER_MATCHES); 
+      setMatches(PLACEHOLDER_MATCHES);
+      setUsingPlaceholders(true);
+      setMatchesError(err.message || "Failed to load fixtures.");
     } finally {
-      setIsLoadingMatches(false);
+      if (fixtureRequestRef.current === controller) {
+        fixtureRequestRef.current = null;
+        setIsLoadingMatches(false);
+      }
     }
   };
 
+  const fetchMatches = () => loadMatches(dateSelection, true);
+
+  const beginPredictionRequest = () => {
+    activeRequestRef.current?.controller.abort();
+    const request = { id: ++requestCounterRef.current, controller: new AbortController() };
+    activeRequestRef.current = request;
+    return request;
+  };
+
+  const isCurrentRequest = (id: number) => activeRequestRef.current?.id === id;
+
+  // Not awaited: a failed history write should not hide a prediction that already arrived
+  const saveToHistory = (
+    match: Match,
+    result: PredictionResult | DetailedForecastResult | BasketballForecastResult,
+    type: PredictionType,
+    descriptor: PredictionDescriptor
+  ) => {
+    historyService.savePrediction(match, result, type, descriptor).catch((err) => console.error('Failed to save prediction to history', err));
+  };
+
+  const cancelPredictionRequest = () => {
+    activeRequestRef.current?.controller.abort();
+    activeRequestRef.current = null;
+    setIsPredicting(false);
+  };
+
   // Flow 1: Standard Prediction (Dashboard Tab)
-  const handleSelectMatch = async (match: Match) => {
+  const handleSelectMatch = async (match: Match, forceRefresh = false, useEnsemble = false) => {
+    const request = beginPredictionRequest();
     setSelectedMatch(match);
     setView(ViewState.DETAIL);
     setPrediction(null);
+    setResultCachedAt(null);
+    setEnsembleProgress(null);
     setPredictionError(null);
     setIsPredicting(true);
+    setBaseline(null);
+    loadEloBaseline()
+      .then((engine) => {
+        if (isCurrentRequest(request.id)) setBaseline(engine.predict(match));
+      })
+      .catch((err) => appLogger.warn('Failed to build Elo baseline', err));
 
     try {
-      if (!geminiService.isConfigured) throw new Error("API Key missing");
-      
-      const result = await geminiService.predictMatch(match);
-      setPrediction(result);
-      // Save as Standard type
-      historyService.savePrediction(match, result, 'STANDARD');
+      if (!predictionProvider.isConfigured) throw new Error("API Key missing");
 
-      // Update AI snapshot
-      setAiSnapshot(generateAISnapshot());
+      // Ensemble and single-sample results are cached separately
+      const samples = useEnsemble ? ENSEMBLE_DEFAULTS.samples : undefined;
+      const descriptor: PredictionDescriptor = { ...predictionProvider.describePrediction('STANDARD'), ensembleSamples: samples };
+      const cached = forceRefresh ? null : predictionCache.get<PredictionResult>(match, 'STANDARD', descriptor);
+      if (cached) {
+        setPrediction(cached.data);
+        setResultCachedAt(cached.cachedAt);
+        return;
+      }
       
+      const signal = request.controller.signal;
+      const result = useEnsemble
+        ? await runEnsemblePrediction(predictionProvider, match, {
+            signal,
+            samples,
+            onProgress: (completed, total) => {
+              if (isCurrentRequest(request.id)) setEnsembleProgress({ completed, total });
+            }
+          })
+        : await predictionProvider.predictMatch(match, { signal });
+      if (!isCurrentRequest(request.id)) return;
+      predictionCache.set(match, 'STANDARD', descriptor, result);
+      setPrediction(result);
+      // Save as Standard type; the AI snapshot refreshes from the history subscription
+      saveToHistory(match, result, 'STANDARD', descriptor);
     } catch (err: any) {
+      if (!isCurrentRequest(request.id) || isAbortError(err)) return;
       console.error(err);
       setPredictionError(err.message || "Failed to generate prediction.");
     } finally {
-      setIsPredicting(false);
+      if (isCurrentRequest(request.id)) {
+        activeRequestRef.current = null;
+        setIsPredicting(false);
+        setEnsembleProgress(null);
+      }
     }
   };
 
   // Flow 2: Detailed Forecast (Detailed Forecast Tab)
-  const handleSelectDetailedMatch = async (match: Match) => {
+  const handleSelectDetailedMatch = async (match: Match, forceRefresh = false) => {
+    const request = beginPredictionRequest();
     setSelectedMatch(match);
     // Stay in DETAILED_FORECAST view, but now we have a selected match to show
     setDetailedForecast(null);
+    setBasketballForecast(null);
+    setResultCachedAt(null);
     setPredictionError(null);
     setIsPredicting(true);
 
     try {
-      if (!geminiService.isConfigured) throw new Error("API Key missing");
-      
-      const result = await geminiService.getDetailedForecast(match);
-      setDetailedForecast(result);
-      // Save as Detailed type
-      historyService.savePrediction(match, result, 'DETAILED');
+      if (!predictionProvider.isConfigured) throw new Error("API Key missing");
 
-      // Update AI snapshot
-      setAiSnapshot(generateAISnapshot());
-      
+      const descriptor = predictionProvider.describePrediction('DETAILED', match.sport);
+
+      // Basketball has its own forecast shape; both are saved as Detailed type
+      if (usesBasketballForecast(match.sport)) {
+        const cached = forceRefresh ? null : predictionCache.get<BasketballForecastResult>(match, 'DETAILED', descriptor);
+        if (cached) {
+          setBasketballForecast(cached.data);
+          setResultCachedAt(cached.cachedAt);
+          return;
+        }
+
+        const result = await predictionProvider.getBasketballForecast(match, { signal: request.controller.signal });
+        if (!isCurrentRequest(request.id)) return;
+        predictionCache.set(match, 'DETAILED', descriptor, result);
+        setBasketballForecast(result);
+        saveToHistory(match, result, 'DETAILED', descriptor);
+      } else {
+        const cached = forceRefresh ? null : predictionCache.get<DetailedForecastResult>(match, 'DETAILED', descriptor);
+        if (cached) {
+          setDetailedForecast(cached.data);
+          setResultCachedAt(cached.cachedAt);
+          return;
+        }
+
+        const result = await predictionProvider.getDetailedForecast(match, { signal: request.controller.signal });
+        if (!isCurrentRequest(request.id)) return;
+        predictionCache.set(match, 'DETAILED', descriptor, result);
+        setDetailedForecast(result);
+        saveToHistory(match, result, 'DETAILED', descriptor);
+      }
     } catch (err: any) {
+      if (!isCurrentRequest(request.id) || isAbortError(err)) return;
       console.error(err);
       setPredictionError(err.message || "Failed to generate detailed forecast.");
     } finally {
-      setIsPredicting(false);
+      if (isCurrentRequest(request.id)) {
+        activeRequestRef.current = null;
+        setIsPredicting(false);
+      }
     }
   };
 
   const handleBack = () => {
+    cancelPredictionRequest();
     if (view === ViewState.DETAIL) {
         setView(ViewState.DASHBOARD);
     } else if (view === ViewState.DETAILED_FORECAST) {
@@ -226,13 +352,16 @@ export const App: React.FC = () => {
     }
     setPrediction(null);
     setDetailedForecast(null);
+    setBasketballForecast(null);
   };
   
   const handleNavigate = (newView: ViewState) => {
+    cancelPredictionRequest();
     setView(newView);
     setSelectedMatch(null);
     setPrediction(null);
     setDetailedForecast(null);
+    setBasketballForecast(null);
   };
 
   return (
@@ -246,6 +375,47 @@ export const App: React.FC = () => {
         </div>
       )}
 
+      <RetryNotice state={retryState} />
+
+      {spendCap && (
+        <div className="mb-6 bg-red-500/10 border border-red-400/30 p-4 rounded-xl text-red-200 text-sm flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <span>
+            Daily spend cap reached: {formatUsd(spendCap.spent)} of {formatUsd(spendCap.cap)}. New predictions are paused until tomorrow.
+          </span>
+          <button
+            onClick={() => handleNavigate(ViewState.USAGE)}
+            className="px-3 py-1.5 rounded-md bg-red-600/80 hover:bg-red-500 text-white text-xs font-medium transition-colors"
+          >
+            Review usage
+          </button>
+        </div>
+      )}
+
+      {matchesError && (view === ViewState.DASHBOARD || view === ViewState.DETAILED_FORECAST) && (
+        <div className="mb-6 bg-red-500/10 border border-red-400/30 p-4 rounded-xl text-red-200 text-sm">
+          {usingPlaceholders && <>Live fixtures could not be loaded, so the list below shows <span className="font-semibold">demo fixtures</span>. </>}
+          {matchesError}
+        </div>
+      )}
+
+      {providerMode !== 'live' && (
+        <div className="mb-6 bg-blue-500/10 border border-blue-400/30 p-4 rounded-xl text-blue-200 text-sm flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <span>
+            {providerMode === 'record'
+              ? <>Recording {predictionProvider.label} calls: <span className="font-mono text-blue-100">{fixtureCount}</span> fixtures captured.</>
+              : <>Replay mode: serving <span className="font-mono text-blue-100">{fixtureCount}</span> recorded {predictionProvider.label} responses, no network calls.</>}
+          </span>
+          {providerMode === 'record' && (
+            <button
+              onClick={() => fixtureStore.download()}
+              className="px-3 py-1.5 rounded-md bg-blue-600/80 hover:bg-blue-500 text-white text-xs font-medium transition-colors"
+            >
+              Download fixture file
+            </button>
+          )}
+        </div>
+      )}
+
       {/* 1. DASHBOARD VIEW */}
       {view === ViewState.DASHBOARD && (
         <>
@@ -255,6 +425,8 @@ export const App: React.FC = () => {
           </div>
           
           <DashboardSummary matches={matches} />
+
+          <DateNavigator selection={dateSelection} onChange={setDateSelection} disabled={!hasApiKey} />
           
           <Filters 
             filters={filters}
@@ -272,6 +444,7 @@ export const App: React.FC = () => {
               filters={filters}
               searchQuery={searchQuery}
               onRefresh={fetchMatches}
+              title={`Fixtures: ${describeSelection(dateSelection)}`}
               aiSnapshot={aiSnapshot}
               selectionDisabledReason={!hasApiKey ? 'Set GEMINI_API_KEY to generate live predictions.' : undefined}
             />
@@ -285,9 +458,14 @@ export const App: React.FC = () => {
           <PredictionView 
             match={selectedMatch}
             prediction={prediction}
+            cachedAt={resultCachedAt}
             isLoading={isPredicting}
             error={predictionError}
             onBack={handleBack}
+            onRegenerate={() => handleSelectMatch(selectedMatch, true)}
+            onRunEnsemble={() => handleSelectMatch(selectedMatch, true, true)}
+            baseline={baseline}
+            ensembleProgress={ensembleProgress}
           />
         </Suspense>
       )}
@@ -302,6 +480,8 @@ export const App: React.FC = () => {
                         <h2 className="text-3xl font-bold text-white mb-2">Detailed AI Forecast</h2>
                         <p className="text-slate-400">Select a match to generate a granular deep-dive report (Scorers, Cards, Halves).</p>
                     </div>
+
+                    <DateNavigator selection={dateSelection} onChange={setDateSelection} disabled={!hasApiKey} />
                     
                     <Filters 
                         filters={filters}
@@ -318,19 +498,34 @@ export const App: React.FC = () => {
                         filters={filters}
                         searchQuery={searchQuery}
                         onRefresh={fetchMatches}
+                        title={`Fixtures: ${describeSelection(dateSelection)}`}
                         selectionDisabledReason={!hasApiKey ? 'Set GEMINI_API_KEY to generate detailed forecasts.' : undefined}
                     />
                 </>
             ) : (
                 // Show the specific detailed forecast view
                 <Suspense fallback={<div className="text-slate-400">Loading detailed forecast...</div>}>
-                  <DetailedForecastView 
-                      match={selectedMatch}
-                      forecast={detailedForecast}
-                      isLoading={isPredicting}
-                      error={predictionError}
-                      onBack={handleBack}
-                  />
+                  {usesBasketballForecast(selectedMatch.sport) ? (
+                    <BasketballForecastView
+                        match={selectedMatch}
+                        forecast={basketballForecast}
+                        cachedAt={resultCachedAt}
+                        isLoading={isPredicting}
+                        error={predictionError}
+                        onBack={handleBack}
+                        onRegenerate={() => handleSelectDetailedMatch(selectedMatch, true)}
+                    />
+                  ) : (
+                    <DetailedForecastView 
+                        match={selectedMatch}
+                        forecast={detailedForecast}
+                        cachedAt={resultCachedAt}
+                        isLoading={isPredicting}
+                        error={predictionError}
+                        onBack={handleBack}
+                        onRegenerate={() => handleSelectDetailedMatch(selectedMatch, true)}
+                    />
+                  )}
                 </Suspense>
             )}
         </>
@@ -349,6 +544,34 @@ export const App: React.FC = () => {
           <BacktestView />
         </Suspense>
       )}
+
+      {/* 6. CALIBRATION VIEW */}
+      {view === ViewState.CALIBRATION && (
+        <Suspense fallback={<div className="text-slate-400">Loading calibration...</div>}>
+          <CalibrationView />
+        </Suspense>
+      )}
+
+      {/* 7. USAGE VIEW */}
+      {view === ViewState.USAGE && (
+        <Suspense fallback={<div className="text-slate-400">Loading usage...</div>}>
+          <UsageView />
+        </Suspense>
+      )}
+
+      {/* 8. TEAMS VIEW */}
+      {view === ViewState.TEAMS && (
+        <Suspense fallback={<div className="text-slate-400">Loading teams...</div>}>
+          <TeamRegistryView />
+        </Suspense>
+      )}
+
+      {/* 9. SETTINGS VIEW */}
+      {view === ViewState.SETTINGS && (
+        <Suspense fallback={<div className="text-slate-400">Loading settings...</div>}>
+          <SettingsView />
+        </Suspense>
+      )}
     </Layout>
   );
 };
@@ -1,9 +1,16 @@
 
-import React, { useState } from 'react';
-import { geminiService } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { predictionProvider } from '../services/providers';
+import { isAbortError } from '../services/errors';
+import { formatPromptRef } from '../services/promptRegistry';
+import { backtestHistory, isUsableBacktest } from '../services/backtestHistory';
+import { EloRatingEngine, loadEloBaseline, compareBacktestWithBaseline } from '../services/eloBaseline';
+import { allowsDraw, sportRegistry } from '../services/sportRegistry';
+import { accuracyTrend, backtestForecasts, backtestMetrics } from '../services/metrics';
 import { BacktestResultItem } from '../types';
-import { EmptyState, LoadingState, SkeletonCard, MiniTrendChart } from './ui';
-import { AlertCircle, PlayCircle, Plus, Trash2, CheckCircle, XCircle, TrendingUp, Users, Database } from 'lucide-react';
+import { appLogger } from '../utils/logger';
+import { EmptyState, LoadingState, SkeletonCard, MiniTrendChart, BaselineLift, ForecastMetricsGrid } from './ui';
+import { AlertCircle, PlayCircle, Plus, Trash2, CheckCircle, XCircle, TrendingUp, Users, Database, StopCircle } from 'lucide-react';
 
 export const BacktestView: React.FC = () => {
   // Form State
@@ -18,6 +25,19 @@ export const BacktestView: React.FC = () => {
   const [progress, setProgress] = useState('');
   const [results, setResults] = useState<BacktestResultItem[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [stoppedMessage, setStoppedMessage] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort any running backtest when leaving the view
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Rebuilt as results come in, since they are saved to the backtest history the ratings read
+  const [baselineEngine, setBaselineEngine] = useState<EloRatingEngine | null>(null);
+  useEffect(() => {
+    loadEloBaseline()
+      .then(setBaselineEngine)
+      .catch((err) => appLogger.warn('Failed to build Elo baseline', err));
+  }, [results]);
 
   const handleAddTeam = () => {
     if (teamInput.trim() && !selectedTeams.includes(teamInput.trim())) {
@@ -31,7 +51,7 @@ export const BacktestView: React.FC = () => {
   };
 
   const handleRunBacktest = async () => {
-    if (!geminiService.isConfigured) {
+    if (!predictionProvider.isConfigured) {
       setError("API key is missing. Add GEMINI_API_KEY to run backtesting.");
       return;
     }
@@ -45,14 +65,24 @@ export const BacktestView: React.FC = () => {
         return;
     }
     
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     setIsLoading(true);
     setError(null);
+    setStoppedMessage(null);
     setResults([]);
     setProgress('Fetching past match data...');
 
+    // Hoisted so a Stop can report how far the run got
+    const resultsBuffer: BacktestResultItem[] = [];
+    let candidateCount = 0;
+
     try {
       // 1. Fetch Candidates
-      const candidates = await geminiService.fetchBacktestCandidates(sport, league, selectedTeams, matchCount);
+      const candidates = await predictionProvider.fetchBacktestCandidates(sport, league, selectedTeams, matchCount, { signal });
+      candidateCount = candidates.length;
       
       if (candidates.length === 0) {
         throw new Error("No past matches found for these criteria. Try checking spelling or using a more popular league.");
@@ -61,14 +91,14 @@ export const BacktestView: React.FC = () => {
       setProgress(`Found ${candidates.length} matches. Analyzing...`);
 
       // 2. Run Predictions Sequentially (to avoid rate limits and state issues)
-      const resultsBuffer: BacktestResultItem[] = [];
-      
       for (let i = 0; i < candidates.length; i++) {
         const match = candidates[i];
         setProgress(`Analyzing match ${i + 1} of ${candidates.length}: ${match.homeTeam} vs ${match.awayTeam}...`);
         
-        const result = await geminiService.runBacktestPrediction(match);
+        const result = { ...await predictionProvider.runBacktestPrediction({ ...match, sport }, { signal }), sport, league };
         resultsBuffer.push(result);
+        // Saved as they arrive so a stopped run still seeds the Elo baseline
+        backtestHistory.append([result]);
         // Update intermediate results for better UX
         setResults([...resultsBuffer]);
       }
@@ -76,45 +106,42 @@ export const BacktestView: React.FC = () => {
       setProgress('Complete!');
       
     } catch (e: any) {
+      if (isAbortError(e)) {
+        // Partial results stay on screen; only the in-flight match is dropped
+        setStoppedMessage(resultsBuffer.length > 0
+          ? `Stopped after ${resultsBuffer.length} of ${candidateCount} matches. Partial results are shown below.`
+          : 'Stopped before any matches were analyzed.');
+        return;
+      }
       console.error(e);
       setError(e.message || "An unexpected error occurred during backtesting.");
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStopBacktest = () => {
+    abortRef.current?.abort();
+  };
+
   const calculateStats = () => {
     if (results.length === 0) return null;
-    const correct = results.filter(r => r.isCorrect).length;
+    const prompts = Array.from(new Set(results.flatMap(r => r.generatedBy ? [formatPromptRef(r.generatedBy)] : [])));
+    // Failed calls leave placeholder rows that are shown but not scored
+    const scored = results.filter(isUsableBacktest);
     return {
-      total: results.length,
-      correct,
-      accuracy: Math.round((correct / results.length) * 100)
+      total: scored.length,
+      correct: scored.filter(r => r.isCorrect).length,
+      prompts,
+      metrics: backtestMetrics(results),
+      // Ratings use every saved game, but each row only sees games played before it
+      baseline: baselineEngine ? compareBacktestWithBaseline(scored, baselineEngine) : null
     };
   };
 
-  const calculateTrendData = () => {
-    if (results.length === 0) return [];
-
-    const trendPoints = [];
-    let correctCount = 0;
-
-    for (let i = 0; i < results.length; i++) {
-      if (results[i].isCorrect) correctCount++;
-      const accuracy = Math.round((correctCount / (i + 1)) * 100);
-      
-      trendPoints.push({
-        name: `${i + 1}`,
-        value: accuracy,
-        label: `${correctCount}/${i + 1}`
-      });
-    }
-
-    return trendPoints;
-  };
-
   const stats = calculateStats();
-  const trendData = calculateTrendData();
+  const trendData = accuracyTrend(backtestForecasts(results));
 
   return (
     <div className="animate-fade-in space-y-8 max-w-4xl mx-auto">
@@ -133,8 +160,7 @@ export const BacktestView: React.FC = () => {
                 onChange={(e) => setSport(e.target.value)}
                 className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 focus:ring-2 focus:ring-emerald-500"
               >
-                <option value="Football">Football</option>
-                <option value="NBA">NBA</option>
+                {sportRegistry.list().map((d) => <option key={d.id} value={d.id}>{d.id}</option>)}
               </select>
             </div>
             <div>
@@ -238,6 +264,21 @@ export const BacktestView: React.FC = () => {
             </>
           )}
         </button>
+
+        {isLoading && (
+          <button
+            onClick={handleStopBacktest}
+            className="w-full mt-3 py-2.5 rounded-xl font-medium text-sm flex items-center justify-center gap-2 bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/20 transition-colors"
+          >
+            <StopCircle size={18} /> Stop
+          </button>
+        )}
+
+        {!isLoading && stoppedMessage && (
+          <div className="mt-4 bg-slate-900/60 border border-slate-700 p-3 rounded-lg text-slate-300 text-sm">
+            {stoppedMessage}
+          </div>
+        )}
       </div>
 
       {/* Results Section */}
@@ -264,7 +305,7 @@ export const BacktestView: React.FC = () => {
       {stats && (
         <div className="space-y-6">
            {/* Summary Cards */}
-           <div className="grid grid-cols-3 gap-4">
+           <div className="grid grid-cols-2 gap-4">
               <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 text-center">
                  <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">Matches Analyzed</div>
                  <div className="text-2xl font-bold text-white">{stats.total}</div>
@@ -273,11 +314,14 @@ export const BacktestView: React.FC = () => {
                  <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">Correct Picks</div>
                  <div className="text-2xl font-bold text-emerald-400">{stats.correct}</div>
               </div>
-              <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 text-center">
-                 <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">Model Accuracy</div>
-                 <div className="text-2xl font-bold text-blue-400">{stats.accuracy}%</div>
-              </div>
            </div>
+           <ForecastMetricsGrid metrics={stats.metrics} />
+           {stats.prompts.length > 0 && (
+             <div className="text-xs text-slate-500 font-mono">
+               Prompt: {stats.prompts.join(', ')}
+             </div>
+           )}
+           <BaselineLift comparison={stats.baseline} />
 
            {/* Accuracy Trend Chart */}
            {trendData.length > 0 && (
@@ -330,7 +374,9 @@ export const BacktestView: React.FC = () => {
                              </div>
                              <div className="flex items-center gap-2 text-[10px] text-slate-400 font-mono mt-0.5">
                                 <span title="Home Win Probability" className="text-emerald-500/80">H: {(item.predictedProbabilities.homeWin * 100).toFixed(0)}%</span>
-                                <span title="Draw Probability">D: {(item.predictedProbabilities.draw * 100).toFixed(0)}%</span>
+                                {allowsDraw(item.sport ?? sport) && (
+                                  <span title="Draw Probability">D: {(item.predictedProbabilities.draw * 100).toFixed(0)}%</span>
+                                )}
                                 <span title="Away Win Probability" className="text-blue-500/80">A: {(item.predictedProbabilities.awayWin * 100).toFixed(0)}%</span>
                              </div>
                              <span className="text-xs text-slate-500 truncate max-w-[200px]" title={item.explanation}>{item.explanation}</span>
@@ -0,0 +1,191 @@
+import React from 'react';
+import { Match, BasketballForecastResult, Outcome } from '../types';
+import { LoadingState, ResultFreshnessBar } from './ui';
+import { ConfidenceMeter } from './ui/ConfidenceMeter';
+import { periodLabel } from '../services/sportRegistry';
+import { ArrowLeft, Target, AlertTriangle, Shield, Clock, Users, Zap, Timer } from 'lucide-react';
+
+interface BasketballForecastViewProps {
+  match: Match;
+  forecast: BasketballForecastResult | null;
+  cachedAt?: number | null;
+  isLoading: boolean;
+  error: string | null;
+  onBack: () => void;
+  onRegenerate?: () => void;
+}
+
+// "Celtics -6.5" style, quoting the favourite
+const describeSpread = (match: Match, spread: number) => {
+  if (spread === 0) return "Pick'em";
+  return spread < 0 ? `${match.homeTeam} ${spread}` : `${match.awayTeam} -${spread}`;
+};
+
+const winnerName = (match: Match, outcome: Outcome) =>
+  outcome === 'Home' ? match.homeTeam : outcome === 'Away' ? match.awayTeam : 'Level';
+
+const confidenceLevel = (score: string) => (score === 'High' || score === 'Medium' ? score : 'Low');
+
+export const BasketballForecastView: React.FC<BasketballForecastViewProps> = ({
+  match,
+  forecast,
+  cachedAt = null,
+  isLoading,
+  error,
+  onBack,
+  onRegenerate
+}) => {
+  return (
+    <div className="animate-fade-in max-w-6xl mx-auto">
+      {/* Navigation */}
+      <button
+        onClick={onBack}
+        className="flex items-center text-slate-400 hover:text-white mb-6 transition-colors"
+      >
+        <ArrowLeft size={20} className="mr-2" /> Back to Match List
+      </button>
+
+      {/* Match Header */}
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-white">Detailed AI Forecast</h2>
+        <div className="flex items-center gap-2 text-slate-400 mt-2">
+          <span className="text-lg">{match.homeTeam}</span>
+          <span className="text-slate-600 text-xs font-bold">VS</span>
+          <span className="text-lg">{match.awayTeam}</span>
+        </div>
+      </div>
+
+      {isLoading && (
+        <LoadingState
+          icon={Target}
+          title="Projecting Possessions..."
+          message="Estimating pace and efficiency, setting the spread and total, and projecting player stat lines."
+          size="lg"
+        />
+      )}
+
+      {!isLoading && error && (
+        <div className="bg-red-900/20 border border-red-800 rounded-2xl p-8 text-center">
+          <AlertTriangle className="mx-auto text-red-500 mb-4" size={48} />
+          <h3 className="text-xl font-semibold text-red-400 mb-2">Forecast Failed</h3>
+          <p className="text-slate-400">{error}</p>
+        </div>
+      )}
+
+      {!isLoading && !error && forecast && (
+        <div className="space-y-6">
+          <ResultFreshnessBar cachedAt={cachedAt} onRegenerate={onRegenerate} />
+
+          {/* Hero Scoreboard Panel */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700 flex flex-col items-center justify-center text-center">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Predicted Score</span>
+              <div className="text-5xl font-black text-white tracking-tight">{forecast.predictedScore}</div>
+              <span className="text-xs text-slate-400 mt-2">Final Result</span>
+            </div>
+
+            <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700 flex flex-col items-center justify-center text-center">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Point Spread</span>
+              <div className="text-2xl font-bold text-emerald-300">{describeSpread(match, forecast.pointSpread)}</div>
+              <span className="text-xs text-slate-400 mt-2">Home Line {forecast.pointSpread > 0 ? '+' : ''}{forecast.pointSpread}</span>
+            </div>
+
+            <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700 flex flex-col items-center justify-center text-center">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Total Points</span>
+              <div className="text-4xl font-black text-blue-400 tracking-tight">
+                {forecast.totalPoints.pick} {forecast.totalPoints.line}
+              </div>
+              <span className="text-xs text-slate-400 mt-2">Over/Under Line</span>
+            </div>
+          </div>
+
+          {/* Confidence, Overtime & Quarters */}
+          <div className="bg-gradient-to-r from-slate-800 to-slate-900 rounded-2xl p-6 border border-slate-700">
+            <h3 className="text-lg font-semibold text-white mb-6 flex items-center gap-2">
+              <Shield size={20} className="text-emerald-400" />
+              Confidence & Game Flow
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <div className="flex justify-center items-start">
+                <ConfidenceMeter
+                  level={confidenceLevel(forecast.confidenceScore)}
+                  variant="radial"
+                  size="md"
+                  showLabel={true}
+                  showIcon={true}
+                />
+              </div>
+
+              <div className="md:col-span-3 grid grid-cols-2 md:grid-cols-3 gap-4">
+                {forecast.quarterWinners.map((winner, i) => (
+                  <div key={i} className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
+                    <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+                      <Clock size={14} className="text-purple-500" />
+                      {periodLabel(match.sport, i)}
+                    </div>
+                    <div className="text-lg font-bold text-white truncate">{winnerName(match, winner)}</div>
+                  </div>
+                ))}
+
+                <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
+                  <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+                    <Timer size={14} className="text-amber-500" />
+                    Overtime
+                  </div>
+                  <div className="text-lg font-bold text-white">{forecast.overtimeLikelihood}</div>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Top Scorers Panel */}
+          <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+            <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-2">
+              <Users className="text-emerald-400" size={20} />
+              <h3 className="text-lg font-bold text-white">Projected Top Scorers</h3>
+            </div>
+            {forecast.topScorers.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs uppercase tracking-wider text-slate-500 border-b border-slate-700">
+                    <th className="text-left font-semibold px-4 py-2">Player</th>
+                    <th className="text-right font-semibold px-4 py-2">Pts</th>
+                    <th className="text-right font-semibold px-4 py-2">Reb</th>
+                    <th className="text-right font-semibold px-4 py-2">Ast</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {forecast.topScorers.map((p, i) => (
+                    <tr key={i}>
+                      <td className="px-4 py-3">
+                        <div className="font-bold text-white">{p.player}</div>
+                        <div className="text-[10px] text-slate-500 uppercase">{p.team}</div>
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono font-bold text-emerald-400">{p.points.toFixed(1)}</td>
+                      <td className="px-4 py-3 text-right font-mono text-slate-300">{p.rebounds.toFixed(1)}</td>
+                      <td className="px-4 py-3 text-right font-mono text-slate-300">{p.assists.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="p-6 text-center text-slate-500 italic">
+                No player projections available for this game.
+              </div>
+            )}
+          </div>
+
+          {/* Reasoning */}
+          <div className="bg-slate-800/80 rounded-xl p-6 border border-slate-700">
+            <h3 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
+              <Zap size={18} className="text-amber-500" />
+              AI Reasoning
+            </h3>
+            <p className="text-slate-300 text-sm leading-relaxed">{forecast.reasoning}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
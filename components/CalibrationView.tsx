@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  ReferenceLine,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip
+} from 'recharts';
+import { HistoryItem } from '../types';
+import { historyService } from '../services/historyService';
+import { backtestHistory } from '../services/backtestHistory';
+import { promptKeyLabel } from '../services/promptRegistry';
+import {
+  CalibrationCurve,
+  CalibrationOutcome,
+  CalibrationSource,
+  backtestSamples,
+  buildCalibration,
+  filterSamples,
+  historySamples
+} from '../services/calibration';
+import { EmptyState, LoadingState } from './ui';
+import { Target, Filter } from 'lucide-react';
+
+const ALL = 'all';
+const OUTCOMES: CalibrationOutcome[] = ['All', 'Home', 'Draw', 'Away'];
+const OUTCOME_LABELS: Record<CalibrationOutcome, string> = { All: 'All outcomes', Home: 'Home win', Draw: 'Draw', Away: 'Away win' };
+const SOURCE_OPTIONS: Array<{ value: CalibrationSource | typeof ALL; label: string }> = [
+  { value: ALL, label: 'History + backtests' },
+  { value: 'history', label: 'History' },
+  { value: 'backtest', label: 'Backtests' }
+];
+
+const selectClass = 'bg-slate-900 border border-slate-700 text-white rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500';
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const distinct = (values: Array<string | null>) =>
+  Array.from(new Set(values.filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+
+const ReliabilityChart: React.FC<{ curve: CalibrationCurve }> = ({ curve }) => {
+  const points = curve.bins
+    .filter((bin) => bin.count > 0)
+    .map((bin) => ({
+      predicted: Math.round(bin.meanPredicted! * 1000) / 10,
+      observed: Math.round(bin.observed! * 1000) / 10,
+      count: bin.count
+    }));
+
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <ComposedChart data={points} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+        <XAxis
+          type="number"
+          dataKey="predicted"
+          domain={[0, 100]}
+          ticks={[0, 20, 40, 60, 80, 100]}
+          unit="%"
+          stroke="#94a3b8"
+          style={{ fontSize: '11px' }}
+          tick={{ fill: '#94a3b8' }}
+        />
+        <YAxis
+          type="number"
+          domain={[0, 100]}
+          ticks={[0, 20, 40, 60, 80, 100]}
+          unit="%"
+          stroke="#94a3b8"
+          style={{ fontSize: '11px' }}
+          tick={{ fill: '#94a3b8' }}
+        />
+        {/* Perfect calibration: stated probability equals observed frequency */}
+        <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]} stroke="#64748b" strokeDasharray="4 4" />
+        <Tooltip
+          cursor={false}
+          content={({ active, payload }: any) => {
+            const point = active && payload?.[0]?.payload;
+            if (!point) return null;
+            return (
+              <div className="bg-slate-800 rounded-md px-3 py-2 text-xs text-slate-100 shadow">
+                <div className="text-slate-400">Stated {point.predicted}%</div>
+                <div>Observed {point.observed}%</div>
+                <div className="text-slate-400">{point.count} predictions</div>
+              </div>
+            );
+          }}
+        />
+        <Line type="linear" dataKey="observed" stroke="#10b981" strokeWidth={2} dot={false} activeDot={false} isAnimationActive={false} />
+        <Scatter dataKey="observed" fill="#10b981" />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
+
+export const CalibrationView: React.FC = () => {
+  const [history, setHistory] = useState<HistoryItem[] | null>(null);
+  const [source, setSource] = useState<CalibrationSource | typeof ALL>(ALL);
+  const [sport, setSport] = useState(ALL);
+  const [league, setLeague] = useState(ALL);
+  const [promptKey, setPromptKey] = useState(ALL);
+  const [outcome, setOutcome] = useState<CalibrationOutcome>('All');
+
+  useEffect(() => {
+    const load = () => historyService.getHistory().then(setHistory);
+    load();
+    return historyService.subscribe(load);
+  }, []);
+
+  const samples = useMemo(
+    () => (history ? [...historySamples(history), ...backtestSamples(backtestHistory.getAll())] : []),
+    [history]
+  );
+
+  // Each dropdown lists what the filters before it leave; a selection the
+  // narrower filters no longer offer falls back to "all"
+  const bySource = source === ALL ? samples : filterSamples(samples, { sources: [source] });
+  const sports = distinct(bySource.map((s) => s.sport));
+  const activeSport = sports.includes(sport) ? sport : ALL;
+  const bySport = activeSport === ALL ? bySource : filterSamples(bySource, { sport: activeSport });
+  const leagues = distinct(bySport.map((s) => s.league));
+  const activeLeague = leagues.includes(league) ? league : ALL;
+  const byLeague = activeLeague === ALL ? bySport : filterSamples(bySport, { league: activeLeague });
+  const prompts = distinct(byLeague.map((s) => s.promptKey));
+  const activePrompt = prompts.includes(promptKey) ? promptKey : ALL;
+  const filtered = activePrompt === ALL ? byLeague : filterSamples(byLeague, { promptKey: activePrompt });
+
+  const curves = buildCalibration(filtered);
+  const curve = curves[outcome];
+
+  if (history === null) {
+    return <LoadingState title="Loading settled predictions..." />;
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <div className="flex items-center gap-3 mb-2">
+          <Target className="text-emerald-400" size={24} />
+          <h2 className="text-xl font-bold text-white">Calibration</h2>
+        </div>
+        <p className="text-sm text-slate-400 mb-4">
+          Settled predictions grouped by stated probability. A well-calibrated model's 70% calls come true about 70% of the
+          time, so its points sit on the dashed diagonal. Detailed forecasts state no probabilities and are left out.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Filter size={16} className="text-slate-500" />
+          <select value={source} onChange={(e) => setSource(e.target.value as CalibrationSource | typeof ALL)} className={selectClass}>
+            {SOURCE_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select value={activeSport} onChange={(e) => setSport(e.target.value)} className={selectClass}>
+            <option value={ALL}>All sports</option>
+            {sports.map((s) => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select value={activeLeague} onChange={(e) => setLeague(e.target.value)} className={selectClass}>
+            <option value={ALL}>All leagues</option>
+            {leagues.map((l) => <option key={l} value={l}>{l}</option>)}
+          </select>
+          <select value={activePrompt} onChange={(e) => setPromptKey(e.target.value)} className={selectClass}>
+            <option value={ALL}>All prompt versions</option>
+            {prompts.map((key) => <option key={key} value={key}>{promptKeyLabel(key)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <EmptyState
+          icon={Target}
+          title="Nothing to calibrate yet"
+          message="Calibration needs settled standard predictions or backtest results. Update results in History or run a backtest."
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {OUTCOMES.map((o) => (
+              <button
+                key={o}
+                onClick={() => setOutcome(o)}
+                disabled={curves[o].points === 0}
+                className={`text-left rounded-lg p-3 border transition-colors disabled:opacity-40 ${
+                  outcome === o ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-slate-800 border-slate-700 hover:bg-slate-700/50'
+                }`}
+              >
+                <div className="text-[10px] uppercase font-bold text-slate-500">{OUTCOME_LABELS[o]} ECE</div>
+                <div className={`text-xl font-bold ${outcome === o ? 'text-emerald-400' : 'text-white'}`}>{percent(curves[o].ece)}</div>
+                <div className="text-[10px] text-slate-500">{curves[o].points} predictions</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                Reliability: {OUTCOME_LABELS[outcome]}
+              </span>
+              <span className="text-xs text-slate-500">{filtered.length} settled forecasts</span>
+            </div>
+            <ReliabilityChart curve={curve} />
+            <p className="text-xs text-slate-500 mt-2">
+              Expected calibration error (ECE) is the gap between stated and observed frequency, averaged over bins
+              weighted by how many predictions each holds. Bins with few predictions are noisy.
+            </p>
+          </div>
+
+          <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+            <h3 className="text-lg font-semibold text-white mb-4">Bins</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[10px] uppercase text-slate-500">
+                    <th className="py-1 pr-4 font-bold">Stated</th>
+                    <th className="py-1 pr-4 font-bold text-right">Predictions</th>
+                    <th className="py-1 pr-4 font-bold text-right">Mean stated</th>
+                    <th className="py-1 pr-4 font-bold text-right">Observed</th>
+                    <th className="py-1 font-bold text-right">Gap</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {curve.bins.map((bin) => (
+                    <tr key={bin.lower} className={`border-t border-slate-700/50 ${bin.count > 0 ? 'text-slate-300' : 'text-slate-600'}`}>
+                      <td className="py-1.5 pr-4 font-mono text-xs">{percent(bin.lower)}–{percent(bin.upper)}</td>
+                      <td className="py-1.5 pr-4 text-right">{bin.count}</td>
+                      <td className="py-1.5 pr-4 text-right">{percent(bin.meanPredicted)}</td>
+                      <td className="py-1.5 pr-4 text-right font-bold">{percent(bin.observed)}</td>
+                      <td className="py-1.5 text-right">
+                        {bin.count > 0 ? `${bin.observed! >= bin.meanPredicted! ? '+' : '−'}${percent(Math.abs(bin.observed! - bin.meanPredicted!))}` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { DateSelection } from '../types';
+import { addDays, dateRange, formatRelativeDate, todayKey, upcomingWeekend } from '../utils/dates';
+import { ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
+
+interface DateNavigatorProps {
+  selection: DateSelection;
+  onChange: (selection: DateSelection) => void;
+  disabled?: boolean;
+}
+
+export const describeSelection = (selection: DateSelection) =>
+  selection.start === selection.end
+    ? formatRelativeDate(selection.start)
+    : `${formatRelativeDate(selection.start)} – ${formatRelativeDate(selection.end)}`;
+
+export const DateNavigator: React.FC<DateNavigatorProps> = ({ selection, onChange, disabled = false }) => {
+  const today = todayKey();
+  const tomorrow = addDays(today, 1);
+  const weekend = upcomingWeekend(today);
+  const span = dateRange(selection.start, selection.end).length;
+
+  // Arrows move the whole range, so a weekend steps to the next weekend
+  const shift = (direction: 1 | -1) => onChange({
+    start: addDays(selection.start, direction * span),
+    end: addDays(selection.end, direction * span)
+  });
+
+  const presets = [
+    { label: 'Today', value: { start: today, end: today } },
+    { label: 'Tomorrow', value: { start: tomorrow, end: tomorrow } },
+    { label: 'Weekend', value: weekend }
+  ];
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => shift(-1)}
+          disabled={disabled}
+          className="p-1.5 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-300 disabled:opacity-50 transition-colors"
+          title="Previous"
+        >
+          <ChevronLeft size={16} />
+        </button>
+        <div className="flex items-center gap-2 min-w-[10rem] justify-center text-white font-semibold">
+          <CalendarDays size={16} className="text-emerald-400" />
+          {describeSelection(selection)}
+        </div>
+        <button
+          onClick={() => shift(1)}
+          disabled={disabled}
+          className="p-1.5 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-300 disabled:opacity-50 transition-colors"
+          title="Next"
+        >
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {presets.map(({ label, value }) => {
+          const active = value.start === selection.start && value.end === selection.end;
+          return (
+            <button
+              key={label}
+              onClick={() => onChange(value)}
+              disabled={disabled}
+              className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors disabled:opacity-50 ${
+                active ? 'bg-emerald-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+        <input
+          type="date"
+          value={selection.start === selection.end ? selection.start : ''}
+          onChange={(e) => e.target.value && onChange({ start: e.target.value, end: e.target.value })}
+          disabled={disabled}
+          className="bg-slate-900 border border-slate-700 text-slate-300 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-emerald-500"
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,25 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Match, DetailedForecastResult } from '../types';
-import { LoadingState } from './ui';
+import { buildScorelineMatrix, deriveMarkets, checkStatedScore } from '../services/scorelineModel';
+import { ScorelineHeatmap } from './ScorelineHeatmap';
+import { LoadingState, ResultFreshnessBar } from './ui';
 import { ConfidenceMeter } from './ui/ConfidenceMeter';
 import { EventLikelihoodCard } from './primitives/EventLikelihoodCard';
+import { DetailedField, describeSport, periodLabel } from '../services/sportRegistry';
 import { 
   ArrowLeft, Target, Clock, AlertTriangle, Shield, Goal, ChevronDown, ChevronUp, 
-  Zap, Users, TrendingUp
+  Zap, Users, TrendingUp, Grid3x3, RefreshCw
 } from 'lucide-react';
 
 interface DetailedForecastViewProps {
   match: Match;
   forecast: DetailedForecastResult | null;
+  cachedAt?: number | null;
   isLoading: boolean;
   error: string | null;
   onBack: () => void;
+  onRegenerate?: () => void;
 }
 
 // Football emoji set for event rows
@@ -38,9 +43,11 @@ const parseReasoningSteps = (reasoning: string): string[] => {
 export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({ 
   match, 
   forecast, 
+  cachedAt = null,
   isLoading, 
   error,
-  onBack 
+  onBack,
+  onRegenerate
 }) => {
   const [expandedReasoning, setExpandedReasoning] = useState(false);
 
@@ -73,6 +80,19 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
 
   const reasoningSteps = forecast ? parseReasoningSteps(forecast.reasoning) : [];
 
+  const sport = describeSport(match.sport);
+  const shows = (field: DetailedField) => sport.detailedFields.includes(field);
+  const units = sport.scoring.units.charAt(0).toUpperCase() + sport.scoring.units.slice(1);
+
+  // Goal-based sports only; points totals are far outside a Poisson scoreline grid
+  const scoreline = useMemo(() => {
+    if (!forecast?.expectedGoals || !describeSport(match.sport).detailedFields.includes('expectedScore')) return null;
+    const matrix = buildScorelineMatrix(forecast.expectedGoals.home, forecast.expectedGoals.away);
+    return { matrix, markets: deriveMarkets(matrix), check: checkStatedScore(forecast) };
+  }, [forecast, match.sport]);
+  const disagreements = scoreline?.check?.disagreements ?? [];
+  const consistency = forecast?.consistency;
+
   return (
     <div className="animate-fade-in max-w-6xl mx-auto">
       {/* Navigation */}
@@ -112,6 +132,32 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
 
       {!isLoading && !error && forecast && (
         <div className="space-y-6">
+          <ResultFreshnessBar cachedAt={cachedAt} onRegenerate={onRegenerate} />
+
+          {/* Consistency Warnings */}
+          {consistency && consistency.violations.length > 0 && (
+            <div className="bg-amber-900/20 border border-amber-700/50 rounded-xl px-5 py-4 text-sm text-amber-300">
+              <div className="flex items-center gap-2 font-semibold mb-2">
+                <AlertTriangle size={16} />
+                This forecast contradicts itself in {consistency.violations.length} place{consistency.violations.length === 1 ? '' : 's'}
+                {consistency.reasked && <span className="text-xs font-normal text-amber-200/70">(still after one re-ask)</span>}
+              </div>
+              <ul className="space-y-1 text-xs text-amber-200/80">
+                {consistency.violations.map((v, i) => (
+                  <li key={i} title={v.rule}>
+                    <span className="font-mono text-amber-400/80 mr-2">{v.ruleId}</span>{v.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {consistency?.reasked && consistency.violations.length === 0 && (
+            <div className="bg-slate-800/60 border border-slate-700 rounded-xl px-5 py-3 text-xs text-slate-400 flex items-center gap-2">
+              <RefreshCw size={14} className="text-emerald-400" />
+              The first answer broke {consistency.initialViolations?.length ?? 0} consistency rule(s); this corrected forecast came from a re-ask.
+            </div>
+          )}
+
           {/* Hero Scoreboard Panel */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {/* Predicted Score */}
@@ -122,21 +168,28 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
               <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Predicted Score</span>
               <div className="text-5xl font-black text-white tracking-tight">{forecast.predictedScore}</div>
               <span className="text-xs text-slate-400 mt-2">Final Result</span>
+              {scoreline?.check && (
+                <span className={`text-[11px] mt-1 ${disagreements.length > 0 ? 'text-amber-400' : 'text-slate-500'}`}>
+                  #{scoreline.check.rank} most likely ({(scoreline.check.probability * 100).toFixed(1)}%)
+                </span>
+              )}
             </div>
 
             {/* Total Goals */}
             <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700 flex flex-col items-center justify-center text-center">
-              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Total Goals</span>
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Total {units}</span>
               <div className="text-5xl font-black text-blue-400 tracking-tight">{forecast.totalGoals}</div>
-              <span className="text-xs text-slate-400 mt-2">Expected Goals</span>
+              <span className="text-xs text-slate-400 mt-2">Over/Under Line</span>
             </div>
 
             {/* First Team to Score */}
+            {shows('firstToScore') && forecast.firstTeamToScore !== undefined && (
             <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700 flex flex-col items-center justify-center text-center">
               <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">First to Score</span>
               <div className="text-2xl font-bold text-emerald-300">{forecast.firstTeamToScore}</div>
-              <span className="text-xs text-slate-400 mt-2">Opening Goal</span>
+              <span className="text-xs text-slate-400 mt-2">Opening {sport.scoring.unit}</span>
             </div>
+            )}
           </div>
 
           {/* Confidence & Key Metrics Band */}
@@ -160,32 +213,27 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
 
               {/* Match Insights Grid */}
               <div className="md:col-span-3 grid grid-cols-2 gap-4">
-                {/* Half-Time Winner */}
-                <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
-                  <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
-                    <Clock size={14} className="text-purple-500" />
-                    1st Half
-                  </div>
-                  <div className="text-lg font-bold text-white">{forecast.halfTimeWinner}</div>
-                </div>
-
-                {/* Second Half Winner */}
-                <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
-                  <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
-                    <Clock size={14} className="text-purple-500" />
-                    2nd Half
+                {/* Period Winners */}
+                {shows('periodWinners') && [forecast.halfTimeWinner, forecast.secondHalfWinner].map((winner, i) => (
+                  <div key={i} className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
+                    <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+                      <Clock size={14} className="text-purple-500" />
+                      {periodLabel(match.sport, i)}
+                    </div>
+                    <div className="text-lg font-bold text-white">{winner}</div>
                   </div>
-                  <div className="text-lg font-bold text-white">{forecast.secondHalfWinner}</div>
-                </div>
+                ))}
 
                 {/* Red Cards */}
-                <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
-                  <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
-                    <AlertTriangle size={14} className="text-red-500" />
-                    Red Cards
+                {shows('discipline') && (
+                  <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
+                    <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+                      <AlertTriangle size={14} className="text-red-500" />
+                      Red Cards
+                    </div>
+                    <div className="text-lg font-bold text-white">{forecast.redCards}</div>
                   </div>
-                  <div className="text-lg font-bold text-white">{forecast.redCards}</div>
-                </div>
+                )}
 
                 {/* Confidence Badge */}
                 <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
@@ -201,6 +249,33 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
             </div>
           </div>
 
+          {/* Scoreline Distribution Panel */}
+          {scoreline && (
+            <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+              <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                <Grid3x3 size={18} className="text-emerald-400" />
+                Scoreline Distribution
+              </h3>
+              {disagreements.length > 0 && (
+                <div className="mb-4 bg-amber-900/20 border border-amber-700/50 rounded-lg px-4 py-3 text-sm text-amber-300 space-y-1">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <AlertTriangle size={16} /> The stated forecast disagrees with its own expected goals
+                  </div>
+                  <ul className="list-disc list-inside text-amber-200/80 text-xs space-y-0.5">
+                    {disagreements.map((d, i) => <li key={i}>{d}</li>)}
+                  </ul>
+                </div>
+              )}
+              <ScorelineHeatmap
+                matrix={scoreline.matrix}
+                markets={scoreline.markets}
+                homeTeam={match.homeTeam}
+                awayTeam={match.awayTeam}
+                statedScore={scoreline.check?.stated}
+              />
+            </div>
+          )}
+
           {/* AI Reasoning Timeline Panel */}
           <div className="bg-slate-800/80 rounded-xl border border-slate-700 overflow-hidden">
             <button
@@ -245,10 +320,11 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
           </div>
 
           {/* Projected Goalscorers Panel */}
+          {shows('scorers') && forecast.likelyScorers && (
           <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
             <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex items-center gap-2">
               <Goal className="text-emerald-400" size={20} />
-              <h3 className="text-lg font-bold text-white">Projected Goalscorers</h3>
+              <h3 className="text-lg font-bold text-white">Projected {sport.scoring.unit === 'goal' ? 'Goalscorers' : 'Scorers'}</h3>
             </div>
             {forecast.likelyScorers.length > 0 ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 p-4">
@@ -288,14 +364,16 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
               </div>
             ) : (
               <div className="p-6 text-center text-slate-500 italic">
-                No high-probability goalscorers identified for this match.
+                No high-probability scorers identified for this match.
               </div>
             )}
           </div>
+          )}
 
           {/* Event Probabilities Grid */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Scoring Methods */}
+            {shows('scoringMethods') && forecast.scoringMethodProbabilities && (
             <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
               <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
                 <Target size={18} className="text-blue-500" />
@@ -319,10 +397,12 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
                 })}
               </div>
             </div>
+            )}
 
             {/* Halves & Match Flow */}
             <div className="space-y-4">
               {/* Half-Time Flow */}
+              {shows('periodWinners') && (
               <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
                 <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
                   <Clock size={18} className="text-purple-500" />
@@ -331,7 +411,7 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
                 <div className="space-y-4">
                   <div className="relative">
                     <div className="flex items-center justify-between mb-2">
-                      <span className="text-sm font-semibold text-slate-400">1st Half</span>
+                      <span className="text-sm font-semibold text-slate-400">{periodLabel(match.sport, 0)}</span>
                       <span className="text-base font-bold text-white">{forecast.halfTimeWinner}</span>
                     </div>
                     <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
@@ -340,7 +420,7 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
                   </div>
                   <div className="relative">
                     <div className="flex items-center justify-between mb-2">
-                      <span className="text-sm font-semibold text-slate-400">2nd Half</span>
+                      <span className="text-sm font-semibold text-slate-400">{periodLabel(match.sport, 1)}</span>
                       <span className="text-base font-bold text-white">{forecast.secondHalfWinner}</span>
                     </div>
                     <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
@@ -349,8 +429,10 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
                   </div>
                 </div>
               </div>
+              )}
 
               {/* Discipline Card */}
+              {shows('discipline') && (
               <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
                 <div className="flex items-center justify-between">
                   <div>
@@ -365,6 +447,7 @@ export const DetailedForecastView: React.FC<DetailedForecastViewProps> = ({
                   </div>
                 </div>
               </div>
+              )}
             </div>
           </div>
         </div>
@@ -1,7 +1,9 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { ExtendedFilters, MatchStatus, SportFilter, Match } from '../types';
-import { SPORTS_TABS, SUPPORTED_LEAGUES, SPORT_ICONS } from '../constants';
-import { Search, X, Settings, Globe, Zap, Clock, Sliders, Target, Activity } from 'lucide-react';
+import { describeSport, matchesSportFilter, sportTabs } from '../services/sportRegistry';
+import { displaySettings } from '../services/displaySettings';
+import { timeZoneLabel } from '../utils/timeDisplay';
+import { Search, X, Settings, Globe, Zap, Clock, Sliders } from 'lucide-react';
 
 interface FiltersProps {
   filters: ExtendedFilters;
@@ -44,7 +46,7 @@ export const Filters: React.FC<FiltersProps> = ({
   // Calculate results count for aria-live
   useEffect(() => {
     const count = allMatches.filter(match => {
-      const matchesSport = filters.sport === 'All' || match.sport.toLowerCase().includes(filters.sport.toLowerCase());
+      const matchesSport = matchesSportFilter(match.sport, filters.sport);
       const matchesStatus = filters.status === 'All' || match.status === filters.status;
       const query = debouncedSearch.toLowerCase();
       const matchesSearch = !query || 
@@ -114,9 +116,8 @@ export const Filters: React.FC<FiltersProps> = ({
   };
 
   const getSportIcon = (sport: SportFilter) => {
-    if (sport === 'Football') return <Target size={16} />;
-    if (sport === 'NBA') return <Activity size={16} />;
-    return <Globe size={16} />;
+    if (sport === 'All') return <Globe size={16} />;
+    return <span className="text-base leading-none" aria-hidden="true">{describeSport(sport).emoji}</span>;
   };
 
   return (
@@ -125,7 +126,7 @@ export const Filters: React.FC<FiltersProps> = ({
       <div className="flex flex-col lg:flex-row gap-3 items-start lg:items-center justify-between">
         {/* Sport Pills */}
         <div className="flex gap-2 overflow-x-auto pb-2 lg:pb-0 w-full lg:w-auto">
-          {SPORTS_TABS.map((sport) => (
+          {sportTabs().map((sport) => (
             <button
               key={sport}
               onClick={() => handleSportChange(sport)}
@@ -144,7 +145,7 @@ export const Filters: React.FC<FiltersProps> = ({
 
         {/* Quick Status Toggles */}
         <div className="flex gap-2 flex-wrap lg:flex-nowrap">
-          {['Live', 'Scheduled'].map((status) => (
+          {['Live', 'Scheduled', 'Finished'].map((status) => (
             <button
               key={status}
               onClick={() => handleStatusChange(status as MatchStatus)}
@@ -313,7 +314,9 @@ export const Filters: React.FC<FiltersProps> = ({
                 aria-label="Kickoff end hour"
               />
             </div>
-            <div className="text-xs text-slate-500 mt-1">Filter matches by kickoff time window</div>
+            <div className="text-xs text-slate-500 mt-1">
+              Hours in {timeZoneLabel(displaySettings.get())}. A start after the end wraps past midnight (e.g. 22 to 2).
+            </div>
           </div>
 
           {/* Reset Button */}
@@ -1,35 +1,78 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { HistoryItem } from '../types';
 import { historyService } from '../services/historyService';
-import { geminiService } from '../services/geminiService';
-import { EmptyState, SkeletonCard, MiniTrendChart } from './ui';
+import { predictionProvider } from '../services/providers';
+import { isAbortError } from '../services/errors';
+import { canonicalMatchKey } from '../services/teamRegistry';
+import { displaySettings } from '../services/displaySettings';
+import { allowsDraw, describeSport, periodLabel } from '../services/sportRegistry';
+import { formatDateTime } from '../utils/timeDisplay';
+import { summarizeModelSettings } from '../services/modelSettings';
+import { promptKeyLabel, promptKeyOf } from '../services/promptRegistry';
+import { formatUsd, formatTokens } from '../services/usageLedger';
+import { buildEloBaseline, compareHistoryWithBaseline } from '../services/eloBaseline';
+import { accuracyTrend, computeMetrics, formatInterval, formatPercentEstimate, formatScoreEstimate, historyForecasts, historyMetrics } from '../services/metrics';
+import { exportHistoryCsv, exportHistoryJson, importHistory, ConflictPolicy, ImportReport } from '../services/historyTransfer';
+import { detailedScoreOf, predictedOutcome } from '../utils/outcomes';
+import { downloadFile } from '../utils/download';
+import { todayKey } from '../utils/dates';
+import { EmptyState, SkeletonCard, MiniTrendChart, BaselineLift, ForecastMetricsGrid } from './ui';
 import { 
   RefreshCw, CheckCircle, XCircle, MinusCircle, Clock, 
   ChevronDown, ChevronUp, Trophy, FileText, User, Goal,
-  GitCompare, ArrowRight, Trash2, BarChart3, TrendingUp
+  GitCompare, ArrowRight, Trash2, BarChart3, TrendingUp, Cpu, Tag,
+  Download, Upload, AlertTriangle, X
 } from 'lucide-react';
 
+const ALL_PROMPTS = 'All';
+
+// Whether the predicted winner matched the result, or null while pending
+const isPredictionCorrect = (item: HistoryItem): boolean | null => {
+  if (!item.result) return null;
+  const pick = predictedOutcome(item);
+  return pick !== null && pick === item.result.winner;
+};
+
 export const HistoryView: React.FC = () => {
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [updateError, setUpdateError] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [promptFilter, setPromptFilter] = useState<string>(ALL_PROMPTS);
+  const [display, setDisplay] = useState(displaySettings.get);
+  useEffect(() => displaySettings.subscribe(setDisplay), []);
   
   // Comparison State
   const [isCompareMode, setIsCompareMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [showComparisonModal, setShowComparisonModal] = useState(false);
 
+  // Import/Export State; the file text is kept so conflicts can be re-applied from it
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importTextRef = useRef<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Rebuilt when results arrive, since every settled game moves the ratings
+  const baseline = useMemo(() => buildEloBaseline(history), [history]);
+
+  // Reloads after any write, including results settled by live polling elsewhere in the app
   useEffect(() => {
+    const loadHistory = () => historyService.getHistory().then(setHistory);
     loadHistory();
+    const unsubscribe = historyService.subscribe(loadHistory);
+    return () => {
+      unsubscribe();
+      abortRef.current?.abort();
+    };
   }, []);
 
-  const loadHistory = () => {
-    setHistory(historyService.getHistory());
-  };
-
   const handleUpdateResults = async () => {
     setIsUpdating(true);
+    setUpdateError(null);
     try {
       const pendingItems = history.filter(h => !h.result);
       
@@ -38,29 +81,54 @@ export const HistoryView: React.FC = () => {
         return;
       }
 
-      const uniqueMatches = Array.from(new Set(pendingItems.map(h => h.match.id)))
-        .map(id => pendingItems.find(h => h.match.id === id))
-        .filter(Boolean) as HistoryItem[];
-
-      const resultsMap = await geminiService.fetchMatchResults(uniqueMatches);
-      
-      let updatedCount = 0;
-      resultsMap.forEach((result, matchId) => {
-        if (historyService.updateResult(matchId, result)) {
-          updatedCount++;
-        }
+      // One lookup per fixture, however its snapshots spelled the teams
+      const byFixture = new Map<string, HistoryItem>();
+      pendingItems.forEach(h => {
+        const key = canonicalMatchKey(h.match);
+        if (!byFixture.has(key)) byFixture.set(key, h);
       });
+      const uniqueMatches = Array.from(byFixture.values());
 
-      if (updatedCount > 0) {
-        loadHistory();
+      abortRef.current = new AbortController();
+      const resultsMap = await predictionProvider.fetchMatchResults(uniqueMatches, { signal: abortRef.current.signal });
+      
+      for (const [matchId, result] of resultsMap) {
+        const item = uniqueMatches.find(h => h.match.id === matchId);
+        if (item) await historyService.updateResult(item.match, result);
       }
-    } catch (error) {
+    } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error("Failed to update history", error);
+      setUpdateError(error.message || "Failed to check results.");
     } finally {
       setIsUpdating(false);
     }
   };
 
+  const handleExport = (format: 'json' | 'csv') => {
+    const filename = `probable-play-history-${todayKey()}.${format}`;
+    if (format === 'json') downloadFile(filename, exportHistoryJson(history), 'application/json');
+    else downloadFile(filename, exportHistoryCsv(history), 'text/csv');
+  };
+
+  const runImport = async (text: string, policy: ConflictPolicy) => {
+    setImportError(null);
+    try {
+      setImportReport(await importHistory(text, policy));
+    } catch (error: any) {
+      setImportReport(null);
+      setImportError(error.message || 'Failed to import history.');
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow choosing the same file again
+    if (!file) return;
+    importTextRef.current = await file.text();
+    await runImport(importTextRef.current, 'keep-local');
+  };
+
   const toggleExpand = (id: string) => {
     if (isCompareMode) return; // Disable expand in compare mode to prevent confusion
     setExpandedId(expandedId === id ? null : id);
@@ -76,9 +144,8 @@ export const HistoryView: React.FC = () => {
     }
   };
   
-  const handleDeleteSelected = () => {
-      const newHistory = historyService.deleteItems(selectedIds);
-      setHistory(newHistory);
+  const handleDeleteSelected = async () => {
+      await historyService.deleteItems(selectedIds);
       setSelectedIds([]);
       setIsCompareMode(false);
   };
@@ -90,34 +157,10 @@ export const HistoryView: React.FC = () => {
       </div>
     );
 
-    let isCorrect = false;
-    let text = "Incorrect";
-    
-    if (item.type === 'STANDARD' && item.standardPrediction) {
-      const { homeWin, awayWin, draw } = item.standardPrediction.probabilities;
-      const { winner } = item.result;
-      
-      let pick = 'Draw';
-      let maxProb = draw;
-      if (homeWin > maxProb) { pick = 'Home'; maxProb = homeWin; }
-      if (awayWin > maxProb) { pick = 'Away'; maxProb = awayWin; }
-      
-      isCorrect = pick === winner;
-      text = isCorrect ? 'Correct Pick' : 'Incorrect Pick';
-    }
-    else if (item.type === 'DETAILED' && item.detailedForecast) {
-       const { predictedScore } = item.detailedForecast;
-       const [pHome, pAway] = predictedScore.split('-').map(Number);
-       
-       let predictedWinner = 'Draw';
-       if (!isNaN(pHome) && !isNaN(pAway)) {
-           if (pHome > pAway) predictedWinner = 'Home';
-           if (pAway > pHome) predictedWinner = 'Away';
-       }
-
-       isCorrect = predictedWinner === item.result.winner;
-       text = isCorrect ? 'Trend Correct' : 'Trend Incorrect';
-    }
+    const isCorrect = isPredictionCorrect(item) === true;
+    const text = item.type === 'DETAILED'
+      ? (isCorrect ? 'Trend Correct' : 'Trend Incorrect')
+      : (isCorrect ? 'Correct Pick' : 'Incorrect Pick');
 
     return (
       <div className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold ${isCorrect ? 'bg-emerald-500/10 text-emerald-400 border border-emerald-500/20' : 'bg-red-500/10 text-red-400 border border-red-500/20'}`}>
@@ -127,49 +170,28 @@ export const HistoryView: React.FC = () => {
     );
   };
 
-  const calculateTrendData = () => {
-    if (history.length === 0) return [];
-    
-    const resultsWithOutcome = history.filter(h => h.result);
-    if (resultsWithOutcome.length === 0) return [];
-
-    const trendPoints = [];
-    let correctCount = 0;
-
-    for (let i = 0; i < resultsWithOutcome.length; i++) {
-      const item = resultsWithOutcome[i];
-      let isCorrect = false;
-      
-      if (item.type === 'STANDARD' && item.standardPrediction) {
-        const { homeWin, awayWin, draw } = item.standardPrediction.probabilities;
-        const { winner } = item.result!;
-        let pick = 'Draw';
-        let maxProb = draw;
-        if (homeWin > maxProb) { pick = 'Home'; maxProb = homeWin; }
-        if (awayWin > maxProb) { pick = 'Away'; maxProb = awayWin; }
-        isCorrect = pick === winner;
-      } else if (item.type === 'DETAILED' && item.detailedForecast) {
-        const { predictedScore } = item.detailedForecast;
-        const [pHome, pAway] = predictedScore.split('-').map(Number);
-        let predictedWinner = 'Draw';
-        if (!isNaN(pHome) && !isNaN(pAway)) {
-          if (pHome > pAway) predictedWinner = 'Home';
-          if (pAway > pHome) predictedWinner = 'Away';
-        }
-        isCorrect = predictedWinner === item.result!.winner;
-      }
-
-      if (isCorrect) correctCount++;
-      const accuracy = Math.round((correctCount / (i + 1)) * 100);
-      
-      trendPoints.push({
-        name: `#${i + 1}`,
-        value: accuracy,
-        label: `${correctCount}/${i + 1}`
-      });
-    }
+  const describeGeneration = (item: HistoryItem) => {
+    if (!item.generatedBy) return 'Unknown configuration';
+    const { providerId, settings, model } = item.generatedBy;
+    const modelSummary = settings ? summarizeModelSettings(settings) : `${providerId} · ${model}`;
+    return `${promptKeyOf(item.generatedBy)} · ${modelSummary}`;
+  };
 
-    return trendPoints;
+  // Scores per prompt version, across the whole history
+  const calculatePromptStats = () => {
+    const byPrompt = new Map<string, HistoryItem[]>();
+    history.forEach((item) => {
+      const key = promptKeyOf(item.generatedBy);
+      byPrompt.set(key, [...(byPrompt.get(key) ?? []), item]);
+    });
+    return Array.from(byPrompt.entries())
+      .map(([key, items]) => ({
+        key,
+        total: items.length,
+        metrics: historyMetrics(items),
+        baseline: compareHistoryWithBaseline(items, baseline)
+      }))
+      .sort((a, b) => a.key.localeCompare(b.key));
   };
 
   // --- Comparison Logic ---
@@ -186,11 +208,16 @@ export const HistoryView: React.FC = () => {
               if (field === 'confidence') return "N/A";
               if (field === 'reasoning') return item.standardPrediction?.summary || "N/A";
               if (field === 'scorers') return "No scorer data";
+          } else if (item.basketballForecast) {
+              if (field === 'score') return item.basketballForecast.predictedScore;
+              if (field === 'confidence') return item.basketballForecast.confidenceScore;
+              if (field === 'reasoning') return item.basketballForecast.reasoning;
+              if (field === 'scorers') return item.basketballForecast.topScorers.map(p => `${p.player} (${p.points.toFixed(0)} pts)`).join(", ");
           } else {
               if (field === 'score') return item.detailedForecast?.predictedScore;
               if (field === 'confidence') return item.detailedForecast?.confidenceScore;
               if (field === 'reasoning') return item.detailedForecast?.reasoning;
-              if (field === 'scorers') return item.detailedForecast?.likelyScorers.map(s => s.player).join(", ");
+              if (field === 'scorers') return item.detailedForecast?.likelyScorers?.map(s => s.player).join(", ") ?? "No scorer data";
           }
       };
 
@@ -213,7 +240,11 @@ export const HistoryView: React.FC = () => {
                       {/* Column 1 */}
                       <div className="p-6 space-y-6">
                           <div className="font-bold text-lg text-white mb-2">{item1.match.homeTeam} vs {item1.match.awayTeam}</div>
-                          <div className="text-xs text-slate-500 mb-4">{new Date(item1.timestamp).toLocaleString()} • {item1.type}</div>
+                          <div className="text-xs text-slate-500 mb-4">{formatDateTime(item1.timestamp, display)} • {item1.type}</div>
+                          <div>
+                              <div className="text-xs uppercase text-slate-500 font-bold mb-1">Configuration</div>
+                              <div className="text-xs font-mono text-slate-300">{describeGeneration(item1)}</div>
+                          </div>
                           
                           <div>
                               <div className="text-xs uppercase text-slate-500 font-bold mb-1">Predicted Score</div>
@@ -238,7 +269,11 @@ export const HistoryView: React.FC = () => {
                       {/* Column 2 */}
                       <div className="p-6 space-y-6 bg-slate-800/50">
                           <div className="font-bold text-lg text-white mb-2">{item2.match.homeTeam} vs {item2.match.awayTeam}</div>
-                          <div className="text-xs text-slate-500 mb-4">{new Date(item2.timestamp).toLocaleString()} • {item2.type}</div>
+                          <div className="text-xs text-slate-500 mb-4">{formatDateTime(item2.timestamp, display)} • {item2.type}</div>
+                          <div>
+                              <div className="text-xs uppercase text-slate-500 font-bold mb-1">Configuration</div>
+                              <div className="text-xs font-mono text-slate-300">{describeGeneration(item2)}</div>
+                          </div>
 
                           <div>
                               <div className="text-xs uppercase text-slate-500 font-bold mb-1">Predicted Score</div>
@@ -265,7 +300,15 @@ export const HistoryView: React.FC = () => {
       );
   };
 
-  const trendData = calculateTrendData();
+  const visibleHistory = promptFilter === ALL_PROMPTS
+    ? history
+    : history.filter(item => promptKeyOf(item.generatedBy) === promptFilter);
+  // Oldest first, so the running accuracy reads left to right
+  const visibleForecasts = historyForecasts(visibleHistory).reverse();
+  const visibleMetrics = computeMetrics(visibleForecasts);
+  const trendData = accuracyTrend(visibleForecasts);
+  const promptStats = calculatePromptStats();
+  const baselineComparison = compareHistoryWithBaseline(visibleHistory, baseline);
 
   return (
     <div className="space-y-6 animate-fade-in max-w-5xl mx-auto">
@@ -281,6 +324,30 @@ export const HistoryView: React.FC = () => {
           <div className="flex gap-2">
             {!isCompareMode ? (
                 <>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm font-medium"
+                        title="Merge a JSON export into this history"
+                    >
+                        <Upload size={16} /> Import
+                    </button>
+                    <button
+                        onClick={() => handleExport('json')}
+                        disabled={history.length === 0}
+                        className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                        title="Full history, can be imported again"
+                    >
+                        <Download size={16} /> JSON
+                    </button>
+                    <button
+                        onClick={() => handleExport('csv')}
+                        disabled={history.length === 0}
+                        className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                        title="One row per prediction, for spreadsheets and notebooks"
+                    >
+                        <Download size={16} /> CSV
+                    </button>
                     <button
                         onClick={() => { setIsCompareMode(true); setExpandedId(null); }}
                         className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm font-medium"
@@ -337,12 +404,130 @@ export const HistoryView: React.FC = () => {
                 color="#10b981"
                 label="Accuracy"
               />
+              <div className="mt-3">
+                <ForecastMetricsGrid metrics={visibleMetrics} />
+              </div>
+              <div className="mt-3">
+                <BaselineLift comparison={baselineComparison} />
+              </div>
+            </div>
+          )}
+
+          {/* Accuracy by Prompt Version */}
+          {promptStats.length > 0 && (
+            <div className="pt-4 border-t border-slate-700">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-2">
+                  <Tag size={16} className="text-purple-400" />
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Accuracy by Prompt Version</span>
+                </div>
+                <select
+                  value={promptFilter}
+                  onChange={(e) => setPromptFilter(e.target.value)}
+                  className="bg-slate-900 border border-slate-700 text-white rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500"
+                >
+                  <option value={ALL_PROMPTS}>All prompt versions</option>
+                  {promptStats.map(({ key }) => (
+                    <option key={key} value={key}>{promptKeyLabel(key)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-[10px] uppercase text-slate-500">
+                      <th className="py-1 pr-4 font-bold">Prompt</th>
+                      <th className="py-1 pr-4 font-bold text-right">Predictions</th>
+                      <th className="py-1 pr-4 font-bold text-right">Settled</th>
+                      <th className="py-1 pr-4 font-bold text-right">Accuracy</th>
+                      <th className="py-1 pr-4 font-bold text-right">Brier</th>
+                      <th className="py-1 font-bold text-right">Lift vs Elo</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {promptStats.map((row) => (
+                      <tr
+                        key={row.key}
+                        onClick={() => setPromptFilter(promptFilter === row.key ? ALL_PROMPTS : row.key)}
+                        className={`border-t border-slate-700/50 cursor-pointer hover:bg-slate-700/30 ${promptFilter === row.key ? 'text-emerald-400' : 'text-slate-300'}`}
+                      >
+                        <td className="py-1.5 pr-4 font-mono text-xs">{promptKeyLabel(row.key)}</td>
+                        <td className="py-1.5 pr-4 text-right">{row.total}</td>
+                        <td className="py-1.5 pr-4 text-right">{row.metrics.settled}</td>
+                        <td className="py-1.5 pr-4 text-right font-bold" title={formatInterval(row.metrics.accuracy, true)}>{formatPercentEstimate(row.metrics.accuracy)}</td>
+                        <td className="py-1.5 pr-4 text-right font-mono text-xs" title={formatInterval(row.metrics.brier)}>{formatScoreEstimate(row.metrics.brier)}</td>
+                        <td className="py-1.5 text-right">{row.baseline ? <BaselineLift comparison={row.baseline} compact /> : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             </div>
           )}
           </div>
           </div>
 
-          {history.length === 0 ? (
+          {updateError && (
+            <div className="bg-red-500/10 border border-red-500/20 p-4 rounded-lg text-red-400 text-sm">
+              {updateError}
+            </div>
+          )}
+
+          {importError && (
+            <div className="bg-red-500/10 border border-red-500/20 p-4 rounded-lg text-red-400 text-sm flex items-start justify-between gap-2">
+              {importError}
+              <button onClick={() => setImportError(null)} className="text-red-400/70 hover:text-red-300"><X size={14} /></button>
+            </div>
+          )}
+
+          {importReport && (
+            <div className="bg-slate-900/50 border border-slate-700 p-4 rounded-lg text-sm space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-slate-300">
+                  <span className="text-emerald-400 font-medium">Imported {importReport.added} new item(s).</span>{' '}
+                  {importReport.duplicates} already present.
+                  {importReport.overwritten > 0 && ` ${importReport.overwritten} replaced with the imported version.`}
+                  {importReport.invalid.length > 0 && ` ${importReport.invalid.length} could not be read.`}
+                </p>
+                <button onClick={() => setImportReport(null)} className="text-slate-500 hover:text-white"><X size={14} /></button>
+              </div>
+              {importReport.conflicts.length > 0 && (
+                <div className="border-t border-slate-700 pt-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                    <span className="text-amber-400 flex items-center gap-1">
+                      <AlertTriangle size={14} />
+                      {importReport.conflicts.length} item(s) differ from the stored copy
+                      {importReport.overwritten === 0 ? '; kept the stored version' : ''}
+                    </span>
+                    {importReport.overwritten === 0 && importTextRef.current && (
+                      <button
+                        onClick={() => runImport(importTextRef.current!, 'use-imported')}
+                        className="px-2 py-1 rounded-md text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 transition-colors"
+                      >
+                        Use imported versions
+                      </button>
+                    )}
+                  </div>
+                  <ul className="text-xs text-slate-400 space-y-0.5 max-h-32 overflow-y-auto">
+                    {importReport.conflicts.map((conflict) => (
+                      <li key={conflict.id}>
+                        {conflict.label}: <span className="font-mono text-slate-500">{conflict.fields.join(', ')}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {importReport.invalid.length > 0 && (
+                <ul className="border-t border-slate-700 pt-2 text-xs text-red-400/80 space-y-0.5 max-h-32 overflow-y-auto">
+                  {importReport.invalid.map((entry, i) => (
+                    <li key={i}>{entry.id ?? 'Item without id'}: {entry.reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {visibleHistory.length === 0 ? (
         <EmptyState 
           icon={BarChart3}
           title="No prediction history yet"
@@ -351,7 +536,7 @@ export const HistoryView: React.FC = () => {
         />
       ) : (
         <div className="space-y-4">
-          {history.map((item) => {
+          {visibleHistory.map((item) => {
              const isExpanded = expandedId === item.id;
              const isDetailed = item.type === 'DETAILED';
              const isStandard = item.type === 'STANDARD';
@@ -381,11 +566,14 @@ export const HistoryView: React.FC = () => {
                               <span className="font-bold text-white text-lg">{item.match.homeTeam} vs {item.match.awayTeam}</span>
                            </div>
                            <div className="flex items-center gap-3 text-xs text-slate-400 mt-1">
-                              <span>{new Date(item.timestamp).toLocaleDateString()} {new Date(item.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                              <span>{formatDateTime(item.timestamp, display)}</span>
                               <span>•</span>
                               <span className={`px-1.5 py-0.5 rounded border ${isDetailed ? 'border-blue-500/30 text-blue-400' : 'border-emerald-500/30 text-emerald-400'}`}>
                                  {isDetailed ? 'DETAILED' : 'STANDARD'}
                               </span>
+                              <span className="hidden md:inline-flex items-center gap-1 font-mono text-slate-500" title={item.generatedBy?.settings?.systemInstruction || undefined}>
+                                 <Cpu size={12} /> {describeGeneration(item)}
+                              </span>
                            </div>
                         </div>
                      </div>
@@ -398,18 +586,22 @@ export const HistoryView: React.FC = () => {
                                  <div className="text-xs text-slate-500 uppercase font-bold mb-1">Win Probability</div>
                                  <div className="flex items-center gap-1 text-sm text-slate-300">
                                     <span className="text-emerald-400 font-bold">{(item.standardPrediction.probabilities.homeWin * 100).toFixed(0)}%</span>
-                                    <span>/</span>
-                                    <span className="text-slate-400">{(item.standardPrediction.probabilities.draw * 100).toFixed(0)}%</span>
+                                    {allowsDraw(item.match.sport) && (
+                                       <>
+                                          <span>/</span>
+                                          <span className="text-slate-400">{(item.standardPrediction.probabilities.draw * 100).toFixed(0)}%</span>
+                                       </>
+                                    )}
                                     <span>/</span>
                                     <span className="text-blue-400 font-bold">{(item.standardPrediction.probabilities.awayWin * 100).toFixed(0)}%</span>
                                  </div>
                               </div>
                            )}
-                           {isDetailed && item.detailedForecast && (
+                           {isDetailed && detailedScoreOf(item) && (
                               <div className="flex flex-col items-end">
                                  <div className="text-xs text-slate-500 uppercase font-bold mb-1">Predicted Score</div>
                                  <div className="text-xl font-bold text-white tracking-tight">
-                                    {item.detailedForecast.predictedScore}
+                                    {detailedScoreOf(item)}
                                  </div>
                               </div>
                            )}
@@ -439,6 +631,15 @@ export const HistoryView: React.FC = () => {
                   {/* Expanded Content */}
                   {isExpanded && !isCompareMode && (
                      <div className="border-t border-slate-700 bg-slate-900/30 p-6 animate-fade-in">
+                        {item.usage && (
+                           <div className="mb-4 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500 font-mono">
+                              <span>{formatTokens(item.usage.promptTokens)} prompt</span>
+                              <span>{formatTokens(item.usage.candidateTokens)} output</span>
+                              <span>{formatTokens(item.usage.thinkingTokens)} thinking</span>
+                              <span>{item.usage.groundingQueries} searches</span>
+                              <span className="text-slate-300">{formatUsd(item.usage.costUsd)}</span>
+                           </div>
+                        )}
                         {isStandard && item.standardPrediction && (
                            <div className="space-y-4">
                               <div>
@@ -456,14 +657,19 @@ export const HistoryView: React.FC = () => {
                                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Total Goals</div>
                                     <div className="text-lg font-bold text-white">{item.detailedForecast.totalGoals}</div>
                                  </div>
+                                 {/* Only present for sports whose forecast asks for them */}
+                                 {item.detailedForecast.firstTeamToScore !== undefined && (
                                  <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
                                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">First Scorer</div>
                                     <div className="text-lg font-bold text-emerald-400">{item.detailedForecast.firstTeamToScore}</div>
                                  </div>
+                                 )}
+                                 {item.detailedForecast.redCards !== undefined && (
                                  <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
                                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Red Cards</div>
                                     <div className="text-lg font-bold text-red-400">{item.detailedForecast.redCards}</div>
                                  </div>
+                                 )}
                                  <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
                                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Confidence</div>
                                     <div className="text-lg font-bold text-blue-400">{item.detailedForecast.confidenceScore}</div>
@@ -471,6 +677,7 @@ export const HistoryView: React.FC = () => {
                               </div>
 
                               {/* NEW: Half-Time Analysis */}
+                              {describeSport(item.match.sport).detailedFields.includes('periodWinners') && (
                               <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
                                 <h4 className="text-xs font-bold text-purple-400 uppercase tracking-wider mb-3 flex items-center gap-2">
                                     <Clock size={14} /> Half-Time Analysis
@@ -486,8 +693,10 @@ export const HistoryView: React.FC = () => {
                                     </div>
                                 </div>
                               </div>
+                              )}
 
                               {/* Scorers Grid with NUMBERS */}
+                              {item.detailedForecast.likelyScorers && (
                               <div>
                                  <h4 className="text-sm font-bold text-blue-400 uppercase tracking-wider mb-3 flex items-center gap-2">
                                     <Goal size={16} /> Predicted Scorers
@@ -516,12 +725,74 @@ export const HistoryView: React.FC = () => {
                                     )}
                                  </div>
                               </div>
+                              )}
                               
                               <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 italic text-sm text-slate-400">
                                  AI Reasoning: "{item.detailedForecast.reasoning}"
                               </div>
                            </div>
                         )}
+
+                        {isDetailed && item.basketballForecast && (
+                           <div className="space-y-6">
+                              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                 <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
+                                    <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Home Spread</div>
+                                    <div className="text-lg font-bold text-white">{item.basketballForecast.pointSpread > 0 ? '+' : ''}{item.basketballForecast.pointSpread}</div>
+                                 </div>
+                                 <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
+                                    <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Total Points</div>
+                                    <div className="text-lg font-bold text-white">{item.basketballForecast.totalPoints.pick} {item.basketballForecast.totalPoints.line}</div>
+                                 </div>
+                                 <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
+                                    <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Overtime</div>
+                                    <div className="text-lg font-bold text-amber-400">{item.basketballForecast.overtimeLikelihood}</div>
+                                 </div>
+                                 <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
+                                    <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Confidence</div>
+                                    <div className="text-lg font-bold text-blue-400">{item.basketballForecast.confidenceScore}</div>
+                                 </div>
+                              </div>
+
+                              <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                                <h4 className="text-xs font-bold text-purple-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+                                    <Clock size={14} /> Quarter Winners
+                                </h4>
+                                <div className="flex justify-between items-center text-sm">
+                                    {item.basketballForecast.quarterWinners.map((winner, i) => (
+                                       <div key={i} className={`flex flex-col items-center flex-1 ${i > 0 ? 'border-l border-slate-700' : ''}`}>
+                                          <span className="text-slate-500 text-[10px] uppercase">{periodLabel(item.match.sport, i)}</span>
+                                          <span className="font-bold text-white">{winner}</span>
+                                       </div>
+                                    ))}
+                                </div>
+                              </div>
+
+                              <div>
+                                 <h4 className="text-sm font-bold text-blue-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+                                    <User size={16} /> Projected Top Scorers
+                                 </h4>
+                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    {item.basketballForecast.topScorers.map((p, i) => (
+                                       <div key={i} className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex items-center justify-between">
+                                          <div>
+                                             <div className="text-sm font-bold text-white">{p.player}</div>
+                                             <div className="text-[10px] text-slate-500 uppercase">{p.team}</div>
+                                          </div>
+                                          <div className="text-right text-xs font-mono">
+                                             <span className="font-bold text-emerald-400">{p.points.toFixed(1)} pts</span>
+                                             <div className="text-[10px] text-slate-500">{p.rebounds.toFixed(1)} reb · {p.assists.toFixed(1)} ast</div>
+                                          </div>
+                                       </div>
+                                    ))}
+                                 </div>
+                              </div>
+
+                              <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 italic text-sm text-slate-400">
+                                 AI Reasoning: "{item.basketballForecast.reasoning}"
+                              </div>
+                           </div>
+                        )}
                      </div>
                   )}
                </div>
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { ShieldAlert, Trophy, LayoutDashboard, History, FlaskConical, FileText } from 'lucide-react';
+import { ShieldAlert, Trophy, LayoutDashboard, History, FlaskConical, FileText, Settings, Coins, Users, Target } from 'lucide-react';
 import { DISCLAIMER_TEXT } from '../constants';
 import { ViewState } from '../types';
 
@@ -15,7 +15,11 @@ export const Layout: React.FC<LayoutProps> = ({ children, onNavigate, currentVie
     { view: ViewState.DASHBOARD, icon: LayoutDashboard, label: "Today's Fixtures" },
     { view: ViewState.DETAILED_FORECAST, icon: FileText, label: "Detailed AI Forecast" },
     { view: ViewState.HISTORY, icon: History, label: "History" },
-    { view: ViewState.BACKTEST, icon: FlaskConical, label: "Backtest Lab" }
+    { view: ViewState.BACKTEST, icon: FlaskConical, label: "Backtest Lab" },
+    { view: ViewState.CALIBRATION, icon: Target, label: "Calibration" },
+    { view: ViewState.USAGE, icon: Coins, label: "Usage" },
+    { view: ViewState.TEAMS, icon: Users, label: "Teams" },
+    { view: ViewState.SETTINGS, icon: Settings, label: "Settings" }
   ];
 
   return (
@@ -1,7 +1,11 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Match, SportFilter, ExtendedFilters, MatchStatus, AISnapshot } from '../types';
 import { Calendar, ChevronRight, RefreshCw, Clock, Search, Eye, Zap, Info } from 'lucide-react';
 import { LoadingState, EmptyState, SkeletonCard } from './ui';
+import { displaySettings } from '../services/displaySettings';
+import { confidenceLevel, formatProbability } from '../services/metrics';
+import { describeSport, matchesSportFilter } from '../services/sportRegistry';
+import { formatKickoff, hourIn, isInHourWindow } from '../utils/timeDisplay';
 
 interface MatchListProps {
   matches: Match[];
@@ -11,6 +15,7 @@ interface MatchListProps {
   filters?: ExtendedFilters;
   searchQuery: string;
   onRefresh: () => void;
+  title?: string;
   aiSnapshot?: AISnapshot;
   selectionDisabledReason?: string;
 }
@@ -23,15 +28,20 @@ export const MatchList: React.FC<MatchListProps> = ({
   filters,
   searchQuery,
   onRefresh,
+  title = "Today's Fixtures",
   aiSnapshot,
   selectionDisabledReason
 }) => {
   
+  // Follows the settings screen, so kickoff times and the hour filter switch zone without a reload
+  const [display, setDisplay] = useState(displaySettings.get);
+  useEffect(() => displaySettings.subscribe(setDisplay), []);
+
   const filteredMatches = useMemo(() => {
     return matches.filter(match => {
       const activeFilters = filters || { sport: filter || 'All', status: 'All', confidenceThreshold: 0 };
       
-      const matchesSport = activeFilters.sport === 'All' || match.sport.toLowerCase().includes(activeFilters.sport.toLowerCase());
+      const matchesSport = matchesSportFilter(match.sport, activeFilters.sport);
       const matchesStatus = activeFilters.status === 'All' || match.status === activeFilters.status;
       
       const query = searchQuery.toLowerCase();
@@ -40,64 +50,27 @@ export const MatchList: React.FC<MatchListProps> = ({
         match.awayTeam.toLowerCase().includes(query) || 
         match.league.toLowerCase().includes(query);
       
+      // Hours are read in the display time zone, the same clock the cards show
       let matchesKickoff = true;
-      if (activeFilters.kickoffWindow?.startHour !== undefined || activeFilters.kickoffWindow?.endHour !== undefined) {
-        try {
-          const matchTime = new Date(match.startTime);
-          const hour = matchTime.getHours();
-          const startHour = activeFilters.kickoffWindow?.startHour;
-          const endHour = activeFilters.kickoffWindow?.endHour;
-          
-          if (startHour !== undefined && endHour !== undefined) {
-            matchesKickoff = hour >= startHour && hour < endHour;
-          } else if (startHour !== undefined) {
-            matchesKickoff = hour >= startHour;
-          } else if (endHour !== undefined) {
-            matchesKickoff = hour < endHour;
-          }
-        } catch (e) {
-          matchesKickoff = true;
-        }
+      const kickoffWindow = activeFilters.kickoffWindow;
+      if (kickoffWindow?.startHour !== undefined || kickoffWindow?.endHour !== undefined) {
+        const hour = hourIn(match.startTime, display);
+        matchesKickoff = Number.isNaN(hour) || isInHourWindow(hour, kickoffWindow.startHour, kickoffWindow.endHour);
       }
       
       return matchesSport && matchesStatus && matchesSearch && matchesKickoff;
     });
-  }, [matches, filter, filters, searchQuery]);
+  }, [matches, filter, filters, searchQuery, display]);
 
   // Helper to format date nicely
   const formatMatchTime = (isoString: string) => {
     try {
-      const date = new Date(isoString);
-      // Validate date
-      if (isNaN(date.getTime())) return "Time TBD";
-
-      const today = new Date();
-      const isToday = date.toDateString() === today.toDateString();
-      
-      // Check if it's tomorrow
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      const isTomorrow = date.toDateString() === tomorrow.toDateString();
-
-      const timeStr = date.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
-      
-      if (isToday) return `Today, ${timeStr}`;
-      if (isTomorrow) return `Tomorrow, ${timeStr}`;
-      return `${date.toLocaleDateString([], {month: 'short', day: 'numeric'})}, ${timeStr}`;
+      return formatKickoff(isoString, display);
     } catch (e) {
       return isoString;
     }
   };
 
-  const getConfidenceLevel = (probabilities?: { homeWin: number; draw: number; awayWin: number }) => {
-    if (!probabilities) return 'Low';
-    
-    const maxProb = Math.max(probabilities.homeWin, probabilities.draw, probabilities.awayWin);
-    if (maxProb >= 65) return 'High';
-    if (maxProb >= 45) return 'Medium';
-    return 'Low';
-  };
-
   const getConfidenceColor = (level: string) => {
     switch (level) {
       case 'High': return { bg: 'rgba(16, 185, 129, 0.2)', text: '#10b981' };
@@ -125,7 +98,7 @@ export const MatchList: React.FC<MatchListProps> = ({
     return (
       <div className="space-y-6">
         <div className="flex justify-between items-center">
-          <h2 className="text-2xl font-bold text-slate-100">Today's Fixtures</h2>
+          <h2 className="text-2xl font-bold text-slate-100">{title}</h2>
           <button 
             onClick={onRefresh} 
             disabled={isLoading}
@@ -143,7 +116,7 @@ export const MatchList: React.FC<MatchListProps> = ({
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h2 className="text-2xl font-bold text-slate-100">Today's Fixtures</h2>
+        <h2 className="text-2xl font-bold text-slate-100">{title}</h2>
         <button 
           onClick={onRefresh} 
           disabled={isLoading}
@@ -160,7 +133,7 @@ export const MatchList: React.FC<MatchListProps> = ({
           title={searchQuery ? "No matches found" : "No fixtures available"}
           message={searchQuery 
             ? "Try adjusting your search term or changing the sport filter." 
-            : "No matches scheduled for today. Try changing the sport filter or refresh to check for updates."}
+            : "No matches scheduled for these dates. Try another date, change the sport filter or refresh to check for updates."}
           action={{
             label: "Refresh Fixtures",
             onClick: onRefresh,
@@ -188,7 +161,7 @@ export const MatchList: React.FC<MatchListProps> = ({
 
               <div className="flex justify-between items-start mb-4">
                 <span className="text-xs font-semibold px-2 py-1 rounded bg-slate-700 text-slate-300 truncate max-w-[60%]">
-                  {match.sport} • {match.league}
+                  {describeSport(match.sport).emoji} {match.sport} • {match.league}
                 </span>
                 <span className="text-xs text-emerald-400 font-mono flex items-center gap-1 shrink-0 bg-emerald-500/10 px-2 py-1 rounded">
                   <Clock size={12} />
@@ -201,14 +174,22 @@ export const MatchList: React.FC<MatchListProps> = ({
                   <span className="text-lg font-bold text-slate-100 group-hover:text-emerald-300 transition-colors">
                     {match.homeTeam}
                   </span>
-                  <span className="text-xs text-slate-500">HOME</span>
+                  {match.score ? (
+                    <span className={`text-lg font-black font-mono ${match.status === 'Live' ? 'text-red-400' : 'text-white'}`}>{match.score.home}</span>
+                  ) : (
+                    <span className="text-xs text-slate-500">HOME</span>
+                  )}
                 </div>
                 <div className="w-full h-px bg-slate-700"></div>
                 <div className="flex justify-between items-center">
                   <span className="text-lg font-bold text-slate-100 group-hover:text-emerald-300 transition-colors">
                     {match.awayTeam}
                   </span>
-                  <span className="text-xs text-slate-500">AWAY</span>
+                  {match.score ? (
+                    <span className={`text-lg font-black font-mono ${match.status === 'Live' ? 'text-red-400' : 'text-white'}`}>{match.score.away}</span>
+                  ) : (
+                    <span className="text-xs text-slate-500">AWAY</span>
+                  )}
                 </div>
               </div>
 
@@ -238,29 +219,34 @@ export const MatchList: React.FC<MatchListProps> = ({
                     <div className="flex items-center justify-between">
                       <div className="flex gap-1">
                         <span className="text-xs text-emerald-400 font-mono">
-                          {Math.round(aiSnapshot.latestPrediction.probabilities.homeWin)}%
-                        </span>
-                        <span className="text-xs text-slate-600">•</span>
-                        <span className="text-xs text-amber-400 font-mono">
-                          {Math.round(aiSnapshot.latestPrediction.probabilities.draw)}%
+                          {formatProbability(aiSnapshot.latestPrediction.probabilities.homeWin)}
                         </span>
+                        {/* Two-way sports store a zero draw */}
+                        {aiSnapshot.latestPrediction.probabilities.draw > 0 && (
+                          <>
+                            <span className="text-xs text-slate-600">•</span>
+                            <span className="text-xs text-amber-400 font-mono">
+                              {formatProbability(aiSnapshot.latestPrediction.probabilities.draw)}
+                            </span>
+                          </>
+                        )}
                         <span className="text-xs text-slate-600">•</span>
                         <span className="text-xs text-red-400 font-mono">
-                          {Math.round(aiSnapshot.latestPrediction.probabilities.awayWin)}%
+                          {formatProbability(aiSnapshot.latestPrediction.probabilities.awayWin)}
                         </span>
                       </div>
                       <div
                         className="text-xs px-2 py-0.5 rounded-full font-medium"
                         style={{
                           backgroundColor: getConfidenceColor(
-                            getConfidenceLevel(aiSnapshot.latestPrediction.probabilities)
+                            confidenceLevel(aiSnapshot.latestPrediction.probabilities)
                           ).bg,
                           color: getConfidenceColor(
-                            getConfidenceLevel(aiSnapshot.latestPrediction.probabilities)
+                            confidenceLevel(aiSnapshot.latestPrediction.probabilities)
                           ).text
                         }}
                       >
-                        {getConfidenceLevel(aiSnapshot.latestPrediction.probabilities)}
+                        {confidenceLevel(aiSnapshot.latestPrediction.probabilities)}
                       </div>
                     </div>
                   </div>
@@ -1,27 +1,56 @@
 
 import React from 'react';
-import { Match, PredictionResult } from '../types';
+import { Match, PredictionResult, PredictionProbabilities, Outcome } from '../types';
+import { BaselinePrediction } from '../services/eloBaseline';
+import { displaySettings } from '../services/displaySettings';
+import { describeSport } from '../services/sportRegistry';
+import { formatDate } from '../utils/timeDisplay';
 import { ProbabilityChart } from './ProbabilityChart';
-import { LoadingState, SkeletonCard, ConfidenceMeter } from './ui';
+import { LoadingState, SkeletonCard, ConfidenceMeter, ResultFreshnessBar } from './ui';
 import { 
-  ArrowLeft, ExternalLink, Info, AlertTriangle, CheckCircle2, TrendingUp, Zap, Shield, Eye
+  ArrowLeft, ExternalLink, Info, AlertTriangle, CheckCircle2, TrendingUp, Zap, Shield, Eye, Layers, Scale
 } from 'lucide-react';
 
+// Largest per-outcome standard deviation (in percentage points) still read as agreement
+const TIGHT_SPREAD_PP = 5;
+
+const BASELINE_OUTCOMES: Array<{ key: keyof PredictionProbabilities; outcome: Outcome; label: string }> = [
+  { key: 'homeWin', outcome: 'Home', label: 'Home Win' },
+  { key: 'draw', outcome: 'Draw', label: 'Draw' },
+  { key: 'awayWin', outcome: 'Away', label: 'Away Win' }
+];
+
 interface PredictionViewProps {
   match: Match;
   prediction: PredictionResult | null;
+  cachedAt?: number | null;
   isLoading: boolean;
   error: string | null;
   onBack: () => void;
+  onRegenerate?: () => void;
+  onRunEnsemble?: () => void;
+  ensembleProgress?: { completed: number; total: number } | null;
+  baseline?: BaselinePrediction | null;
 }
 
 export const PredictionView: React.FC<PredictionViewProps> = ({ 
   match, 
   prediction, 
+  cachedAt = null,
   isLoading, 
   error,
-  onBack 
+  onBack,
+  onRegenerate,
+  onRunEnsemble,
+  ensembleProgress = null,
+  baseline = null
 }) => {
+  const ensemble = prediction?.ensemble;
+  const { outcomes } = describeSport(match.sport);
+  const widestSpread = ensemble
+    ? Math.round(Math.max(ensemble.spread.homeWin.stdDev, ensemble.spread.draw.stdDev, ensemble.spread.awayWin.stdDev) * 100)
+    : 0;
+
   return (
     <div className="animate-fade-in max-w-4xl mx-auto">
       {/* Navigation */}
@@ -41,7 +70,7 @@ export const PredictionView: React.FC<PredictionViewProps> = ({
           </div>
           
           <div className="flex flex-col items-center">
-            <div className="text-slate-500 font-mono text-sm mb-1">{new Date(match.startTime).toLocaleDateString()}</div>
+            <div className="text-slate-500 font-mono text-sm mb-1">{formatDate(match.startTime, displaySettings.get())}</div>
             <div className="bg-slate-900 px-4 py-2 rounded-full border border-slate-700 text-xl font-bold font-mono text-white">
                 VS
             </div>
@@ -59,8 +88,10 @@ export const PredictionView: React.FC<PredictionViewProps> = ({
       {isLoading && (
         <LoadingState 
           icon={TrendingUp}
-          title="Analyzing Match Data..."
-          message="Gemini is researching recent form, checking injury reports, and calculating probabilities using live web data."
+          title={ensembleProgress ? `Running Ensemble (${ensembleProgress.completed}/${ensembleProgress.total} samples)...` : "Analyzing Match Data..."}
+          message={ensembleProgress
+            ? "Sampling several independent predictions to measure how much the model agrees with itself."
+            : "Gemini is researching recent form, checking injury reports, and calculating probabilities using live web data."}
           size="lg"
         />
       )}
@@ -77,6 +108,20 @@ export const PredictionView: React.FC<PredictionViewProps> = ({
       {/* Prediction Content */}
       {!isLoading && !error && prediction && (
         <div className="animate-fade-in space-y-6">
+            <ResultFreshnessBar cachedAt={cachedAt} onRegenerate={onRegenerate} />
+
+            {onRunEnsemble && !ensemble && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-slate-800/60 border border-slate-700 rounded-xl px-4 py-3 text-sm text-slate-300">
+                    <span>Single-sample estimate. Run an ensemble to see how stable these probabilities are.</span>
+                    <button
+                        onClick={onRunEnsemble}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-purple-600/80 hover:bg-purple-500 text-white text-xs font-medium transition-colors shrink-0"
+                    >
+                        <Layers size={14} /> Run ensemble
+                    </button>
+                </div>
+            )}
+
             {/* Confidence & Signals Band */}
             <div className="bg-gradient-to-r from-slate-800 to-slate-900 rounded-2xl p-6 border border-slate-700 shadow-lg">
                 <h3 className="text-lg font-semibold text-white mb-6 flex items-center gap-2">
@@ -99,7 +144,32 @@ export const PredictionView: React.FC<PredictionViewProps> = ({
                     {/* Probability Chart */}
                     <div className="md:col-span-3">
                         <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Match Outcome Probabilities</div>
-                        <ProbabilityChart probabilities={prediction.probabilities} />
+                        <ProbabilityChart probabilities={prediction.probabilities} sport={match.sport} spread={ensemble?.spread} />
+                        {ensemble && (
+                            <div className="text-[11px] text-slate-500 mt-3">
+                                {ensemble.aggregation === 'median' ? 'Median' : 'Mean'} of {ensemble.samples} samples. Bars show the range across samples; ± is one standard deviation.
+                            </div>
+                        )}
+                        {prediction.markets && prediction.markets.length > 0 && (
+                            <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                {prediction.markets.map((market) => (
+                                    <div key={market.id}>
+                                        <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{market.label}</div>
+                                        <div className="space-y-1.5">
+                                            {market.selections.map(({ name, probability }) => (
+                                                <div key={name} className="flex items-center gap-2 text-xs">
+                                                    <span className="w-20 shrink-0 text-slate-300 truncate">{name}</span>
+                                                    <div className="flex-1 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                                                        <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${probability * 100}%` }} />
+                                                    </div>
+                                                    <span className="w-10 text-right font-mono text-slate-400">{Math.round(probability * 100)}%</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -116,10 +186,60 @@ export const PredictionView: React.FC<PredictionViewProps> = ({
                         <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-purple-500/10 text-purple-400 border border-purple-500/20 text-xs font-medium">
                             <Info size={14} /> Key Factors Available
                         </div>
+                        {ensemble && (widestSpread <= TIGHT_SPREAD_PP ? (
+                            <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 text-xs font-medium">
+                                <Layers size={14} /> Samples agree (±{widestSpread}pp)
+                            </div>
+                        ) : (
+                            <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-500/10 text-amber-400 border border-amber-500/20 text-xs font-medium">
+                                <Layers size={14} /> Samples disagree (±{widestSpread}pp)
+                            </div>
+                        ))}
                     </div>
                 </div>
             </div>
 
+            {/* AI vs Elo Baseline */}
+            {baseline && (
+                <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+                    <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                        <Scale size={20} className="text-slate-400" />
+                        AI vs Elo Baseline
+                    </h3>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-slate-500 text-xs uppercase tracking-wider text-left">
+                                <th className="py-1 font-bold">Outcome</th>
+                                <th className="py-1 font-bold text-right">AI</th>
+                                <th className="py-1 font-bold text-right">Elo</th>
+                                <th className="py-1 font-bold text-right">Difference</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {BASELINE_OUTCOMES.filter(({ outcome }) => outcomes.includes(outcome)).map(({ key, label }) => {
+                                const ai = Math.round(prediction.probabilities[key] * 100);
+                                const elo = Math.round(baseline.probabilities[key] * 100);
+                                const diff = ai - elo;
+                                return (
+                                    <tr key={key} className="border-t border-slate-700/50 text-slate-300">
+                                        <td className="py-1.5">{label}</td>
+                                        <td className="py-1.5 text-right font-bold text-white">{ai}%</td>
+                                        <td className="py-1.5 text-right">{elo}%</td>
+                                        <td className={`py-1.5 text-right font-mono ${diff > 0 ? 'text-emerald-400' : diff < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                                            {diff > 0 ? '+' : ''}{diff}pp
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    <div className="text-[11px] text-slate-500 mt-3">
+                        Ratings: {match.homeTeam} {Math.round(baseline.home.rating)} ({baseline.home.games} games), {match.awayTeam} {Math.round(baseline.away.rating)} ({baseline.away.games} games).
+                        {(baseline.home.games === 0 || baseline.away.games === 0) && ' Unrated teams start at the default rating, so treat this baseline as rough until more results are recorded.'}
+                    </div>
+                </div>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Left Column: Key Factors */}
                 <div className="lg:col-span-1">
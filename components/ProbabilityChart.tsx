@@ -1,14 +1,20 @@
 import React from 'react';
-import { PredictionProbabilities } from '../types';
+import { PredictionProbabilities, EnsembleSummary, Outcome } from '../types';
+import { describeSport, THREE_WAY } from '../services/sportRegistry';
+import { pickWinner } from '../utils/outcomes';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import { Trophy, Handshake, Target } from 'lucide-react';
 
 interface ProbabilityChartProps {
   probabilities: PredictionProbabilities;
+  sport?: string; // limits the chart to the sport's outcomes; all three when absent
   showIcons?: boolean;
+  spread?: EnsembleSummary['spread']; // renders min-max error bars per outcome
 }
 
-export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({ probabilities, showIcons = true }) => {
+export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({ probabilities, sport, showIcons = true, spread }) => {
+  const outcomes = sport ? describeSport(sport).outcomes : THREE_WAY;
+
   // Convert decimals to percentages
   const home = Math.round(probabilities.homeWin * 100);
   const draw = Math.round(probabilities.draw * 100);
@@ -18,10 +24,10 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({ probabilitie
   const total = home + draw + away;
   
   const data = [
-    { name: 'Home', value: home, color: '#10b981', icon: Trophy, label: 'Home Win' },
-    { name: 'Draw', value: draw, color: '#64748b', icon: Handshake, label: 'Draw' },
-    { name: 'Away', value: away, color: '#3b82f6', icon: Target, label: 'Away Win' },
-  ].filter(d => d.value > 0);
+    { name: 'Home', outcome: 'homeWin' as const, value: home, color: '#10b981', icon: Trophy, label: 'Home Win' },
+    { name: 'Draw', outcome: 'draw' as const, value: draw, color: '#64748b', icon: Handshake, label: 'Draw' },
+    { name: 'Away', outcome: 'awayWin' as const, value: away, color: '#3b82f6', icon: Target, label: 'Away Win' },
+  ].filter(d => d.value > 0 && outcomes.includes(d.name as Outcome));
 
   // Create gradient definitions
   const createGradientDefs = () => (
@@ -41,10 +47,8 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({ probabilitie
     </defs>
   );
 
-  const getGradientUrl = (index: number) => {
-    const gradients = ['url(#grad-home)', 'url(#grad-draw)', 'url(#grad-away)'];
-    return gradients[index] || gradients[0];
-  };
+  // Keyed by outcome so colours stay put when the draw slice is absent
+  const getGradientUrl = (name: string) => `url(#grad-${name.toLowerCase()})`;
 
   return (
     <div className="w-full flex flex-col items-center justify-center gap-6">
@@ -64,7 +68,7 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({ probabilitie
               animationDuration={500}
             >
               {data.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={getGradientUrl(index)} />
+                <Cell key={`cell-${index}`} fill={getGradientUrl(entry.name)} />
               ))}
             </Pie>
             <Tooltip 
@@ -86,14 +90,14 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({ probabilitie
           <div className="text-center">
             <span className="text-slate-400 font-bold text-xs uppercase tracking-widest block">Most Likely</span>
             <span className="text-emerald-400 font-bold text-sm mt-1 block">
-              {data.length > 0 && data[0].name}
+              {data.length > 0 && pickWinner(probabilities, sport)}
             </span>
           </div>
         </div>
       </div>
       
       {/* Icon-Rich Legend */}
-      <div className="w-full grid grid-cols-3 gap-3">
+      <div className={`w-full grid gap-3 ${outcomes.length === 2 ? 'grid-cols-2' : 'grid-cols-3'}`}>
         {data.map((item, idx) => {
           const Icon = item.icon;
           return (
@@ -107,7 +111,34 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({ probabilitie
               </div>
               <div className="text-lg font-bold" style={{ color: item.color }}>
                 {item.value}%
+                {spread && (
+                  <span className="text-xs font-medium text-slate-400 ml-1">
+                    ±{Math.round(spread[item.outcome].stdDev * 100)}
+                  </span>
+                )}
               </div>
+              {spread && (
+                <div className="w-full" title={`Samples ranged ${Math.round(spread[item.outcome].min * 100)}%-${Math.round(spread[item.outcome].max * 100)}%`}>
+                  <div className="relative h-1.5 w-full rounded-full bg-slate-800">
+                    <div
+                      className="absolute top-0 h-full rounded-full opacity-40"
+                      style={{
+                        left: `${spread[item.outcome].min * 100}%`,
+                        width: `${Math.max(1, (spread[item.outcome].max - spread[item.outcome].min) * 100)}%`,
+                        backgroundColor: item.color
+                      }}
+                    />
+                    <div
+                      className="absolute -top-0.5 h-2.5 w-0.5 rounded bg-white"
+                      style={{ left: `${item.value}%` }}
+                    />
+                  </div>
+                  <div className="flex justify-between text-[9px] font-mono text-slate-500 mt-1">
+                    <span>{Math.round(spread[item.outcome].min * 100)}%</span>
+                    <span>{Math.round(spread[item.outcome].max * 100)}%</span>
+                  </div>
+                </div>
+              )}
               <div className="text-[10px] text-slate-500 text-center">{item.label}</div>
             </div>
           );
@@ -0,0 +1,115 @@
+import React from 'react';
+import { ScorelineMatrix, ScorelineMarkets, Scoreline } from '../services/scorelineModel';
+
+interface ScorelineHeatmapProps {
+  matrix: ScorelineMatrix;
+  markets: ScorelineMarkets;
+  homeTeam: string;
+  awayTeam: string;
+  statedScore?: Scoreline | null;
+}
+
+// Goals per side shown before folding the tail into a "N+" row and column
+const VISIBLE_GOALS = 5;
+
+const fold = (cells: number[][], limit: number): number[][] => {
+  const folded = Array.from({ length: limit + 1 }, () => Array(limit + 1).fill(0));
+  cells.forEach((row, h) => row.forEach((p, a) => {
+    folded[Math.min(h, limit)][Math.min(a, limit)] += p;
+  }));
+  return folded;
+};
+
+const pct = (p: number) => `${(p * 100).toFixed(p < 0.1 ? 1 : 0)}%`;
+
+export const ScorelineHeatmap: React.FC<ScorelineHeatmapProps> = ({ matrix, markets, homeTeam, awayTeam, statedScore }) => {
+  const cells = fold(matrix.cells, VISIBLE_GOALS);
+  const peak = Math.max(...cells.flat());
+  const label = (goals: number) => (goals === VISIBLE_GOALS ? `${goals}+` : String(goals));
+  const isStated = (h: number, a: number) =>
+    !!statedScore && Math.min(statedScore.home, VISIBLE_GOALS) === h && Math.min(statedScore.away, VISIBLE_GOALS) === a;
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="mx-auto text-xs border-separate" style={{ borderSpacing: 3 }}>
+          <thead>
+            <tr>
+              <th className="text-slate-500 font-semibold text-right pr-2 truncate max-w-[8rem]" title={`${homeTeam} goals (rows) vs ${awayTeam} goals (columns)`}>
+                {homeTeam} ↓ / {awayTeam} →
+              </th>
+              {cells[0].map((_, a) => (
+                <th key={a} className="text-slate-400 font-bold w-14 text-center">{label(a)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {cells.map((row, h) => (
+              <tr key={h}>
+                <th className="text-slate-400 font-bold text-right pr-2">{label(h)}</th>
+                {row.map((p, a) => (
+                  <td
+                    key={a}
+                    title={`${label(h)}-${label(a)}: ${pct(p)}`}
+                    className={`w-14 h-10 text-center rounded font-mono ${p / peak > 0.5 ? 'text-white' : 'text-slate-300'} ${isStated(h, a) ? 'ring-2 ring-amber-400' : ''}`}
+                    style={{ backgroundColor: `rgba(16, 185, 129, ${(0.08 + 0.82 * (p / peak)).toFixed(3)})` }}
+                  >
+                    {pct(p)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="text-[11px] text-slate-500 text-center mt-2">
+          Expected goals {matrix.homeExpectedGoals.toFixed(2)} - {matrix.awayExpectedGoals.toFixed(2)}, Dixon-Coles ρ {matrix.rho.toFixed(2)}.
+          {statedScore && ' The outlined cell is the stated score.'}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+          <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">1X2</div>
+          <div className="text-sm font-bold text-white font-mono">
+            {pct(markets.outcome.homeWin)} / {pct(markets.outcome.draw)} / {pct(markets.outcome.awayWin)}
+          </div>
+        </div>
+        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+          <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Both Teams Score</div>
+          <div className="text-sm font-bold text-white font-mono">{pct(markets.bothTeamsToScore)}</div>
+        </div>
+        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+          <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Clean Sheet</div>
+          <div className="text-sm font-bold text-white font-mono">
+            H {pct(markets.homeCleanSheet)} · A {pct(markets.awayCleanSheet)}
+          </div>
+        </div>
+        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+          <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Most Likely</div>
+          <div className="text-sm font-bold text-white font-mono">
+            {markets.mostLikely.home}-{markets.mostLikely.away} ({pct(markets.mostLikely.probability)})
+          </div>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-slate-500 text-xs uppercase tracking-wider text-left">
+            <th className="py-1 font-bold">Total Goals</th>
+            <th className="py-1 font-bold text-right">Over</th>
+            <th className="py-1 font-bold text-right">Under</th>
+          </tr>
+        </thead>
+        <tbody>
+          {markets.overUnder.map(({ line, over, under }) => (
+            <tr key={line} className="border-t border-slate-700/50 text-slate-300">
+              <td className="py-1.5">{line}</td>
+              <td className="py-1.5 text-right font-mono">{pct(over)}</td>
+              <td className="py-1.5 text-right font-mono">{pct(under)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,400 @@
+import React, { useState, useEffect } from 'react';
+import { DisplaySettings, HourCycle, ModelConfiguration, ModelOperation, ModelSettings } from '../types';
+import { MODEL_OPERATION_LABELS, DEFAULT_MODEL_CONFIGURATION, DISPLAY_TIME_ZONES } from '../constants';
+import { modelSettingsService, validateModelSettings } from '../services/modelSettings';
+import { displaySettings } from '../services/displaySettings';
+import { historyService } from '../services/historyService';
+import { quarantine } from '../services/schemaMigrations';
+import { STORE_SCHEMAS } from '../services/storeSchemas';
+import { predictionProvider } from '../services/providers';
+import { formatTime, timeZoneLabel } from '../utils/timeDisplay';
+import { Settings, Save, RotateCcw, AlertCircle, CheckCircle, Globe, RefreshCw, Clock, Archive, Database, Download, Trash2 } from 'lucide-react';
+
+// Numeric fields are edited as text so an empty box can mean "model default"
+interface SettingsForm extends Omit<ModelSettings, 'temperature' | 'thinkingBudget'> {
+  temperature: string;
+  thinkingBudget: string;
+}
+
+const OPERATIONS = Object.keys(MODEL_OPERATION_LABELS) as ModelOperation[];
+
+const HOUR_CYCLES: Array<{ value: HourCycle; label: string }> = [
+  { value: 'auto', label: 'Browser default' },
+  { value: '24h', label: '24-hour' },
+  { value: '12h', label: '12-hour' }
+];
+
+/**
+ * Time zone and clock format for kickoff times and history timestamps.
+ * Applied as soon as it changes, independently of the model settings below.
+ */
+const DisplaySettingsPanel: React.FC = () => {
+  const [display, setDisplay] = useState(displaySettings.get);
+
+  const update = (next: DisplaySettings) => {
+    displaySettings.save(next);
+    setDisplay(displaySettings.get());
+  };
+
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const zones = display.timeZone && !DISPLAY_TIME_ZONES.includes(display.timeZone)
+    ? [display.timeZone, ...DISPLAY_TIME_ZONES]
+    : DISPLAY_TIME_ZONES;
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+      <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+        <Clock size={18} className="text-emerald-400" /> Display
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        Used for kickoff times, the kickoff-window filter and history timestamps. Now: {formatTime(new Date(), display)} {timeZoneLabel(display)}.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-400 mb-1">Time Zone</label>
+          <select
+            value={display.timeZone ?? ''}
+            onChange={(e) => update({ ...display, timeZone: e.target.value || null })}
+            className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="">Browser ({browserZone})</option>
+            {zones.map((zone) => <option key={zone} value={zone}>{zone}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-400 mb-1">Clock</label>
+          <select
+            value={display.hourCycle}
+            onChange={(e) => update({ ...display, hourCycle: e.target.value as HourCycle })}
+            className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-emerald-500"
+          >
+            {HOUR_CYCLES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const parseLimit = (value: string) => (value.trim() === '' ? null : Number(value));
+
+/**
+ * Optional pruning of prediction history. Off unless the user sets a limit;
+ * saving prunes straight away, then again after every new prediction.
+ */
+const HistoryRetentionPanel: React.FC = () => {
+  const [form, setForm] = useState(() => {
+    const retention = historyService.getRetention();
+    return {
+      maxAgeDays: retention.maxAgeDays === null ? '' : String(retention.maxAgeDays),
+      maxItems: retention.maxItems === null ? '' : String(retention.maxItems)
+    };
+  });
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const handleSave = async () => {
+    try {
+      const removed = await historyService.saveRetention({ maxAgeDays: parseLimit(form.maxAgeDays), maxItems: parseLimit(form.maxItems) });
+      setMessage({ tone: 'ok', text: removed > 0 ? `Retention saved. ${removed} history item(s) removed.` : 'Retention saved.' });
+    } catch (e: any) {
+      setMessage({ tone: 'error', text: e.message });
+    }
+  };
+
+  return (
+    <div className={`bg-slate-800 rounded-xl p-6 border ${message?.tone === 'error' ? 'border-red-500/50' : 'border-slate-700'}`}>
+      <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+        <Archive size={18} className="text-emerald-400" /> History Retention
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        Every prediction is kept by default. Set a limit to prune older items; removed items cannot be recovered.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-slate-400 mb-1">Keep for (days)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={form.maxAgeDays}
+            onChange={(e) => { setForm({ ...form, maxAgeDays: e.target.value }); setMessage(null); }}
+            placeholder="Forever"
+            className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-400 mb-1">Keep newest (items)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={form.maxItems}
+            onChange={(e) => { setForm({ ...form, maxItems: e.target.value }); setMessage(null); }}
+            placeholder="No limit"
+            className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <button
+          onClick={handleSave}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          <Save size={16} /> Save Retention
+        </button>
+      </div>
+      {message && (
+        <p className={`mt-3 text-xs flex items-center gap-1 ${message.tone === 'ok' ? 'text-emerald-400' : 'text-red-400'}`}>
+          {message.tone === 'ok' ? <CheckCircle size={12} /> : <AlertCircle size={12} />} {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Schema version of each persisted store, and records that could not be
+ * migrated or validated on load. Quarantined records stay until discarded.
+ */
+const StoredDataPanel: React.FC = () => {
+  const [quarantined, setQuarantined] = useState(() => quarantine.list());
+
+  useEffect(() => quarantine.subscribe(() => setQuarantined(quarantine.list())), []);
+
+  const discard = (store: string) => {
+    if (!window.confirm('Discard these records permanently? Download them first if you may want to repair them.')) return;
+    quarantine.discard(quarantined.filter((record) => record.store === store).map((record) => record.id));
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+      <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+        <Database size={18} className="text-emerald-400" /> Stored Data
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        Saved data is upgraded to the current format when the app loads. Records that cannot be upgraded are set aside here instead of being deleted.
+      </p>
+      <ul className="divide-y divide-slate-700/50">
+        {STORE_SCHEMAS.map((schema) => {
+          const records = quarantined.filter((record) => record.store === schema.store);
+          return (
+            <li key={schema.store} className="py-2 flex flex-wrap items-center gap-3 text-sm">
+              <span className="text-white font-medium">{schema.label}</span>
+              <span className="text-xs text-slate-500 font-mono">v{schema.version}</span>
+              {records.length === 0 ? (
+                <span className="ml-auto text-xs text-slate-500">No quarantined records</span>
+              ) : (
+                <div className="ml-auto flex items-center gap-2">
+                  <span className="text-xs text-amber-400 flex items-center gap-1">
+                    <AlertCircle size={12} /> {records.length} quarantined
+                  </span>
+                  <button
+                    onClick={() => quarantine.download(schema.store)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 transition-colors"
+                  >
+                    <Download size={12} /> Download
+                  </button>
+                  <button
+                    onClick={() => discard(schema.store)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-slate-700 hover:bg-red-600 text-slate-300 hover:text-white transition-colors"
+                  >
+                    <Trash2 size={12} /> Discard
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+const toForm = (config: ModelConfiguration): Record<ModelOperation, SettingsForm> => {
+  const form = {} as Record<ModelOperation, SettingsForm>;
+  OPERATIONS.forEach((operation) => {
+    const settings = config[operation];
+    form[operation] = {
+      ...settings,
+      temperature: settings.temperature === null ? '' : String(settings.temperature),
+      thinkingBudget: settings.thinkingBudget === null ? '' : String(settings.thinkingBudget)
+    };
+  });
+  return form;
+};
+
+const fromForm = (form: SettingsForm): ModelSettings => ({
+  ...form,
+  model: form.model.trim(),
+  temperature: form.temperature.trim() === '' ? null : Number(form.temperature),
+  thinkingBudget: form.thinkingBudget.trim() === '' ? null : Number(form.thinkingBudget)
+});
+
+export const SettingsView: React.FC = () => {
+  const [form, setForm] = useState(() => toForm(modelSettingsService.getConfiguration()));
+  const [errors, setErrors] = useState<Partial<Record<ModelOperation, string>>>({});
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const updateField = <K extends keyof SettingsForm>(operation: ModelOperation, field: K, value: SettingsForm[K]) => {
+    setForm({ ...form, [operation]: { ...form[operation], [field]: value } });
+    setSavedMessage(null);
+  };
+
+  const handleSave = () => {
+    const config = {} as ModelConfiguration;
+    const nextErrors: Partial<Record<ModelOperation, string>> = {};
+    OPERATIONS.forEach((operation) => {
+      config[operation] = fromForm(form[operation]);
+      const problem = validateModelSettings(config[operation]);
+      if (problem) nextErrors[operation] = problem;
+    });
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) {
+      setSavedMessage(null);
+      return;
+    }
+
+    modelSettingsService.save(config);
+    setForm(toForm(config));
+    setSavedMessage('Settings saved. New predictions will use them and record them in history.');
+  };
+
+  const handleReset = () => {
+    setForm(toForm(modelSettingsService.reset()));
+    setErrors({});
+    setSavedMessage('Settings restored to defaults.');
+  };
+
+  return (
+    <div className="animate-fade-in space-y-6 max-w-4xl mx-auto">
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 shadow-xl">
+        <div className="flex flex-col md:flex-row justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+              <Settings className="text-emerald-400" /> Model Settings
+            </h2>
+            <p className="text-slate-400 text-sm">
+              Choose the model and generation settings for each kind of request. Every saved prediction records the settings that produced it.
+            </p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              <RotateCcw size={16} /> Defaults
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg transition-colors shadow-md shadow-emerald-900/20 text-sm font-medium"
+            >
+              <Save size={16} /> Save
+            </button>
+          </div>
+        </div>
+
+        {predictionProvider.id !== 'gemini' && (
+          <div className="mt-4 bg-amber-500/10 border border-amber-400/30 p-3 rounded-lg text-amber-200 text-sm">
+            The active provider ({predictionProvider.label}) does not use these settings.
+          </div>
+        )}
+
+        {savedMessage && (
+          <div className="mt-4 bg-emerald-500/10 border border-emerald-500/20 p-3 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+            <CheckCircle size={16} /> {savedMessage}
+          </div>
+        )}
+      </div>
+
+      <DisplaySettingsPanel />
+      <HistoryRetentionPanel />
+      <StoredDataPanel />
+
+      {OPERATIONS.map((operation) => {
+        const settings = form[operation];
+        const defaults = DEFAULT_MODEL_CONFIGURATION[operation];
+        return (
+          <div key={operation} className={`bg-slate-800 rounded-xl p-6 border ${errors[operation] ? 'border-red-500/50' : 'border-slate-700'}`}>
+            <h3 className="text-lg font-semibold text-white mb-4">{MODEL_OPERATION_LABELS[operation]}</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Model</label>
+                <input
+                  type="text"
+                  value={settings.model}
+                  onChange={(e) => updateField(operation, 'model', e.target.value)}
+                  placeholder={defaults.model}
+                  className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 font-mono text-sm focus:ring-2 focus:ring-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Temperature</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="2"
+                  step="0.05"
+                  value={settings.temperature}
+                  onChange={(e) => updateField(operation, 'temperature', e.target.value)}
+                  placeholder="Model default"
+                  className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 focus:ring-2 focus:ring-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Thinking Budget (tokens)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="256"
+                  value={settings.thinkingBudget}
+                  onChange={(e) => updateField(operation, 'thinkingBudget', e.target.value)}
+                  placeholder="Model default"
+                  className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 focus:ring-2 focus:ring-emerald-500"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-300 mb-4 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={settings.grounding}
+                onChange={(e) => updateField(operation, 'grounding', e.target.checked)}
+                className="accent-emerald-500"
+              />
+              <Globe size={14} className="text-slate-400" /> Ground with Google Search
+            </label>
+
+            {operation === 'detailed' && (
+              <label className="flex items-center gap-2 text-sm text-slate-300 mb-4 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={!!settings.reaskOnInconsistency}
+                  onChange={(e) => updateField(operation, 'reaskOnInconsistency', e.target.checked)}
+                  className="accent-emerald-500"
+                />
+                <RefreshCw size={14} className="text-slate-400" /> Re-ask once when the forecast contradicts itself (costs a second call)
+              </label>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">System Instruction</label>
+              <textarea
+                value={settings.systemInstruction}
+                onChange={(e) => updateField(operation, 'systemInstruction', e.target.value)}
+                rows={3}
+                placeholder="None"
+                className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-emerald-500"
+              />
+            </div>
+
+            {errors[operation] && (
+              <div className="mt-3 flex items-center gap-2 text-red-400 text-sm">
+                <AlertCircle size={16} /> {errors[operation]}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { HistoryItem } from '../types';
+import { historyService } from '../services/historyService';
+import { fixtureCache } from '../services/fixtureCache';
+import { predictionCache } from '../services/predictionCache';
+import { leagueRegistry, teamRegistry } from '../services/teamRegistry';
+import { EmptyState } from './ui';
+import { Users, GitMerge, X, AlertCircle, CheckCircle, ArrowRight } from 'lucide-react';
+
+type Kind = 'teams' | 'leagues';
+
+const registryFor = (kind: Kind) => (kind === 'teams' ? teamRegistry : leagueRegistry);
+
+// Stored fixtures and history carry ids built from canonical keys; cached predictions are keyed by those ids
+const applyToStoredData = async (): Promise<number> => {
+  fixtureCache.applyRegistry();
+  predictionCache.clear();
+  return historyService.applyRegistry();
+};
+
+export const TeamRegistryView: React.FC = () => {
+  const [kind, setKind] = useState<Kind>('teams');
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [, setRevision] = useState(0);
+  const [fromName, setFromName] = useState('');
+  const [intoName, setIntoName] = useState('');
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const loadHistory = () => historyService.getHistory().then(setHistory);
+    loadHistory();
+    return historyService.subscribe(loadHistory);
+  }, []);
+
+  // Re-render whenever either registry changes
+  useEffect(() => {
+    const unsubscribeTeams = teamRegistry.subscribe(() => setRevision((r) => r + 1));
+    const unsubscribeLeagues = leagueRegistry.subscribe(() => setRevision((r) => r + 1));
+    return () => {
+      unsubscribeTeams();
+      unsubscribeLeagues();
+    };
+  }, []);
+
+  const sports = useMemo(() => {
+    const seen = new Set<string>(history.map((h) => h.match.sport));
+    teamRegistry.list().forEach((entry) => seen.add(entry.sport));
+    return Array.from(seen).sort();
+  }, [history]);
+  const [sport, setSport] = useState(() => sports[0] ?? 'Football');
+
+  const registry = registryFor(kind);
+
+  // Names exactly as history stored them, before any canonicalization
+  const historyNames = useMemo(() => {
+    const names = new Set<string>();
+    history
+      .filter((h) => h.match.sport === sport)
+      .forEach((h) => {
+        if (kind === 'teams') {
+          names.add(h.match.homeTeam);
+          names.add(h.match.awayTeam);
+        } else {
+          names.add(h.match.league);
+        }
+      });
+    return Array.from(names).sort();
+  }, [history, sport, kind]);
+
+  const suggestions = registry.suggestMerges(sport, historyNames);
+  const entries = registry.list(sport).slice().sort((a, b) => a.name.localeCompare(b.name));
+  const mergeOptions = Array.from(new Set([...historyNames, ...entries.map((e) => e.name)])).sort();
+
+  const handleMerge = async (from: string, into: string) => {
+    if (!from || !into) {
+      setMessage({ tone: 'error', text: 'Choose both a name to merge and the name to keep.' });
+      return;
+    }
+    if (!registry.merge(sport, from, into)) {
+      setMessage({ tone: 'error', text: `"${from}" and "${into}" are already the same ${kind === 'teams' ? 'team' : 'league'}.` });
+      return;
+    }
+    const updated = await applyToStoredData();
+    setFromName('');
+    setIntoName('');
+    setMessage({ tone: 'ok', text: `Merged "${from}" into "${into}". ${updated} history item(s) updated.` });
+  };
+
+  const handleRemoveAlias = async (key: string, alias: string) => {
+    registry.removeAlias(sport, key, alias);
+    await applyToStoredData();
+    setMessage({ tone: 'ok', text: `"${alias}" no longer resolves to this entry.` });
+  };
+
+  return (
+    <div className="animate-fade-in space-y-6 max-w-5xl mx-auto">
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 shadow-xl">
+        <div className="flex flex-col md:flex-row justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+              <Users className="text-emerald-400" /> Teams & Leagues
+            </h2>
+            <p className="text-slate-400 text-sm">
+              Every fixture, prediction and result is matched by canonical name. Merge spellings that refer to the same side so history, results and ratings line up.
+            </p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            {(['teams', 'leagues'] as Kind[]).map((k) => (
+              <button
+                key={k}
+                onClick={() => { setKind(k); setMessage(null); }}
+                className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                  kind === k ? 'bg-emerald-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+                }`}
+              >
+                {k === 'teams' ? 'Teams' : 'Leagues'}
+              </button>
+            ))}
+            <select
+              value={sport}
+              onChange={(e) => { setSport(e.target.value); setMessage(null); }}
+              className="bg-slate-900 border border-slate-700 text-slate-300 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-emerald-500"
+            >
+              {sports.map((s) => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`flex items-center gap-2 text-sm rounded-lg px-4 py-3 border ${
+          message.tone === 'ok' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300' : 'bg-red-500/10 border-red-500/30 text-red-300'
+        }`}>
+          {message.tone === 'ok' ? <CheckCircle size={16} /> : <AlertCircle size={16} />}
+          {message.text}
+        </div>
+      )}
+
+      {/* Suggested duplicates */}
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+          <GitMerge size={18} className="text-amber-400" /> Possible Duplicates in History
+        </h3>
+        <p className="text-slate-400 text-sm mb-4">
+          Names from saved predictions that look alike but are tracked separately. Nothing is merged until you confirm.
+        </p>
+        {suggestions.length === 0 ? (
+          <p className="text-slate-500 text-sm">No likely duplicates among {historyNames.length} {kind} in history.</p>
+        ) : (
+          <ul className="space-y-2">
+            {suggestions.map(({ from, into, score }) => (
+              <li key={`${from.key}:${into.key}`} className="flex flex-wrap items-center gap-3 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm">
+                <span className="text-slate-300">{from.name}</span>
+                <ArrowRight size={14} className="text-slate-500" />
+                <span className="text-white font-medium">{into.name}</span>
+                <span className="text-[10px] text-slate-500">{Math.round(score * 100)}% similar</span>
+                <div className="ml-auto flex gap-2">
+                  <button
+                    onClick={() => handleMerge(into.name, from.name)}
+                    className="px-2 py-1 rounded-md text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 transition-colors"
+                    title={`Keep "${from.name}" instead`}
+                  >
+                    Keep shorter
+                  </button>
+                  <button
+                    onClick={() => handleMerge(from.name, into.name)}
+                    className="px-2 py-1 rounded-md text-xs bg-emerald-600 hover:bg-emerald-500 text-white transition-colors"
+                  >
+                    Merge
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Manual merge */}
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-4">Merge Manually</h3>
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+          <select
+            value={fromName}
+            onChange={(e) => setFromName(e.target.value)}
+            className="flex-1 bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="">Merge this…</option>
+            {mergeOptions.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <ArrowRight size={16} className="text-slate-500 hidden sm:block" />
+          <select
+            value={intoName}
+            onChange={(e) => setIntoName(e.target.value)}
+            className="flex-1 bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="">…into this</option>
+            {mergeOptions.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <button
+            onClick={() => handleMerge(fromName, intoName)}
+            className="flex items-center justify-center gap-2 px-4 py-2.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <GitMerge size={16} /> Merge
+          </button>
+        </div>
+      </div>
+
+      {/* Registry */}
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-4">Known {kind === 'teams' ? 'Teams' : 'Leagues'} ({entries.length})</h3>
+        {entries.length === 0 ? (
+          <EmptyState icon={Users} size="sm" title={`No ${kind} yet`} message={`${sport} ${kind} are added as fixtures are loaded.`} />
+        ) : (
+          <ul className="divide-y divide-slate-700/50">
+            {entries.map((entry) => (
+              <li key={entry.key} className="py-2 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-white font-medium mr-2">{entry.name}</span>
+                {entry.aliases.map((alias) => (
+                  <span key={alias} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-700 text-slate-300 text-xs">
+                    {alias}
+                    <button onClick={() => handleRemoveAlias(entry.key, alias)} className="text-slate-500 hover:text-red-400" title="Remove alias">
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
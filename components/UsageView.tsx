@@ -0,0 +1,307 @@
+import React, { useState, useEffect } from 'react';
+import { ModelOperation } from '../types';
+import { DEFAULT_PRICE_TABLE, MODEL_OPERATION_LABELS, ModelPrice, USAGE_LEDGER_RETENTION_DAYS } from '../constants';
+import { usageLedger, formatUsd, formatTokens, UsageTotals } from '../services/usageLedger';
+import { EmptyState } from './ui';
+import { Coins, Gauge, Save, Plus, Trash2, RotateCcw, AlertCircle, CheckCircle, BarChart3 } from 'lucide-react';
+
+interface PriceRow extends Record<keyof ModelPrice, string> {
+  model: string;
+}
+
+const toRows = (table: Record<string, ModelPrice>): PriceRow[] =>
+  Object.entries(table).map(([model, price]) => ({
+    model,
+    inputPerMillion: String(price.inputPerMillion),
+    outputPerMillion: String(price.outputPerMillion),
+    groundingPerThousand: String(price.groundingPerThousand)
+  }));
+
+const UsageTable: React.FC<{ title: string; rows: Array<{ key: string; label?: string; totals: UsageTotals }> }> = ({ title, rows }) => (
+  <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+    <h3 className="text-lg font-semibold text-white mb-4">{title}</h3>
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-[10px] uppercase text-slate-500">
+            <th className="py-1 pr-4 font-bold"></th>
+            <th className="py-1 pr-4 font-bold text-right">Calls</th>
+            <th className="py-1 pr-4 font-bold text-right">Prompt</th>
+            <th className="py-1 pr-4 font-bold text-right">Output</th>
+            <th className="py-1 pr-4 font-bold text-right">Thinking</th>
+            <th className="py-1 pr-4 font-bold text-right">Searches</th>
+            <th className="py-1 font-bold text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, label, totals }) => (
+            <tr key={key} className="border-t border-slate-700/50 text-slate-300">
+              <td className="py-1.5 pr-4 font-mono text-xs">{label ?? key}</td>
+              <td className="py-1.5 pr-4 text-right">{totals.calls}</td>
+              <td className="py-1.5 pr-4 text-right">{formatTokens(totals.promptTokens)}</td>
+              <td className="py-1.5 pr-4 text-right">{formatTokens(totals.candidateTokens)}</td>
+              <td className="py-1.5 pr-4 text-right">{formatTokens(totals.thinkingTokens)}</td>
+              <td className="py-1.5 pr-4 text-right">{totals.groundingQueries}</td>
+              <td className="py-1.5 text-right font-bold text-white" title={totals.unpricedCalls > 0 ? `${totals.unpricedCalls} calls used a model with no price` : undefined}>
+                {formatUsd(totals.costUsd)}{totals.unpricedCalls > 0 && <span className="text-amber-400">*</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export const UsageView: React.FC = () => {
+  const [, setRevision] = useState(0);
+  const [capInput, setCapInput] = useState(() => {
+    const cap = usageLedger.getDailyCap();
+    return cap === null ? '' : String(cap);
+  });
+  const [priceRows, setPriceRows] = useState(() => toRows(usageLedger.getPriceTable()));
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  // Re-render whenever a model call lands in the ledger
+  useEffect(() => usageLedger.subscribe(() => setRevision((r) => r + 1)), []);
+
+  const today = usageLedger.today();
+  const totals = usageLedger.totals();
+  const cap = usageLedger.getDailyCap();
+  const capPercent = cap ? Math.min(100, (today.costUsd / cap) * 100) : 0;
+
+  const handleSaveCap = () => {
+    const trimmed = capInput.trim();
+    if (trimmed === '') {
+      usageLedger.setDailyCap(null);
+      setMessage({ tone: 'ok', text: 'Daily spend cap removed.' });
+      return;
+    }
+    const value = Number(trimmed);
+    if (!Number.isFinite(value) || value <= 0) {
+      setMessage({ tone: 'error', text: 'The daily cap must be a positive dollar amount, or empty for no cap.' });
+      return;
+    }
+    usageLedger.setDailyCap(value);
+    setMessage({ tone: 'ok', text: `Daily spend cap set to ${formatUsd(value)}.` });
+  };
+
+  const updatePriceRow = (index: number, field: keyof PriceRow, value: string) => {
+    setPriceRows(priceRows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSavePrices = () => {
+    const table: Record<string, ModelPrice> = {};
+    for (const row of priceRows) {
+      const model = row.model.trim();
+      if (!model) continue;
+      const price = {
+        inputPerMillion: Number(row.inputPerMillion),
+        outputPerMillion: Number(row.outputPerMillion),
+        groundingPerThousand: Number(row.groundingPerThousand)
+      };
+      if (Object.values(price).some((v) => !Number.isFinite(v) || v < 0)) {
+        setMessage({ tone: 'error', text: `Prices for ${model} must be non-negative numbers.` });
+        return;
+      }
+      table[model] = price;
+    }
+    usageLedger.setPriceTable(table);
+    setPriceRows(toRows(table));
+    setMessage({ tone: 'ok', text: 'Price table saved. It applies to calls made from now on.' });
+  };
+
+  const handleResetPrices = () => {
+    usageLedger.setPriceTable(DEFAULT_PRICE_TABLE);
+    setPriceRows(toRows(DEFAULT_PRICE_TABLE));
+    setMessage({ tone: 'ok', text: 'Price table restored to list prices.' });
+  };
+
+  const handleClearLedger = () => {
+    if (!window.confirm('Delete all recorded usage? This cannot be undone.')) return;
+    usageLedger.clear();
+    setMessage({ tone: 'ok', text: 'Usage ledger cleared.' });
+  };
+
+  return (
+    <div className="animate-fade-in space-y-6 max-w-5xl mx-auto">
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 shadow-xl">
+        <div className="flex flex-col md:flex-row justify-between items-start gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+              <Coins className="text-emerald-400" /> Usage & Cost
+            </h2>
+            <p className="text-slate-400 text-sm">
+              Estimated from token counts reported by the model and the price table below. The last {USAGE_LEDGER_RETENTION_DAYS} days are kept.
+            </p>
+          </div>
+          <button
+            onClick={handleClearLedger}
+            className="flex items-center gap-2 px-4 py-2 bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/20 rounded-lg transition-colors text-sm font-medium shrink-0"
+          >
+            <Trash2 size={16} /> Clear ledger
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700 text-center">
+            <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">Today</div>
+            <div className="text-2xl font-bold text-white">{formatUsd(today.costUsd)}</div>
+            <div className="text-[10px] text-slate-500">{today.calls} calls</div>
+          </div>
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700 text-center">
+            <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">All Recorded</div>
+            <div className="text-2xl font-bold text-white">{formatUsd(totals.costUsd)}</div>
+            <div className="text-[10px] text-slate-500">{totals.calls} calls</div>
+          </div>
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700 text-center">
+            <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">Tokens</div>
+            <div className="text-2xl font-bold text-white">{formatTokens(totals.promptTokens + totals.candidateTokens + totals.thinkingTokens)}</div>
+            <div className="text-[10px] text-slate-500">{formatTokens(totals.thinkingTokens)} thinking</div>
+          </div>
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700 text-center">
+            <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">Searches</div>
+            <div className="text-2xl font-bold text-white">{totals.groundingQueries}</div>
+            <div className="text-[10px] text-slate-500">grounding queries</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Daily Cap */}
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+          <Gauge size={18} className="text-amber-400" /> Daily Spend Cap
+        </h3>
+        <p className="text-slate-400 text-sm mb-4">
+          New predictions, detailed forecasts and backtests are blocked once today's estimated spend reaches the cap. Fixtures and result checks still run.
+        </p>
+        {cap !== null && (
+          <div className="mb-4">
+            <div className="flex justify-between text-xs text-slate-400 mb-1">
+              <span>{formatUsd(today.costUsd)} spent today</span>
+              <span>{formatUsd(cap)} cap</span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-slate-900 overflow-hidden">
+              <div
+                className={`h-full rounded-full ${capPercent >= 100 ? 'bg-red-500' : capPercent >= 80 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                style={{ width: `${capPercent}%` }}
+              />
+            </div>
+          </div>
+        )}
+        <div className="flex gap-2 max-w-sm">
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={capInput}
+            onChange={(e) => setCapInput(e.target.value)}
+            placeholder="No cap"
+            className="flex-1 bg-slate-900 border border-slate-700 text-white rounded-lg p-2.5 focus:ring-2 focus:ring-emerald-500"
+          />
+          <button
+            onClick={handleSaveCap}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            <Save size={16} /> Save
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm border ${message.tone === 'ok' ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-red-500/10 border-red-500/20 text-red-400'}`}>
+          {message.tone === 'ok' ? <CheckCircle size={16} /> : <AlertCircle size={16} />} {message.text}
+        </div>
+      )}
+
+      {totals.calls === 0 ? (
+        <EmptyState
+          icon={BarChart3}
+          title="No usage recorded yet"
+          message="Model calls made from now on will appear here, broken down by day, operation and model."
+          size="md"
+        />
+      ) : (
+        <>
+          <UsageTable title="By Day" rows={usageLedger.byDay().slice(0, 14)} />
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <UsageTable
+              title="By Operation"
+              rows={usageLedger.byOperation().map((row) => ({ ...row, label: MODEL_OPERATION_LABELS[row.key as ModelOperation] ?? row.key }))}
+            />
+            <UsageTable title="By Model" rows={usageLedger.byModel()} />
+          </div>
+        </>
+      )}
+
+      {/* Price Table */}
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <div className="flex flex-col md:flex-row justify-between items-start gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Price Table (USD)</h3>
+            <p className="text-slate-400 text-sm">Thinking tokens are billed at the output rate. Calls to models not listed here are counted but not priced.</p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={handleResetPrices}
+              className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              <RotateCcw size={16} /> List prices
+            </button>
+            <button
+              onClick={handleSavePrices}
+              className="flex items-center gap-2 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              <Save size={16} /> Save
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 text-[10px] uppercase text-slate-500 font-bold">
+            <span>Model</span>
+            <span>Input / 1M</span>
+            <span>Output / 1M</span>
+            <span>Search / 1K</span>
+            <span className="w-9"></span>
+          </div>
+          {priceRows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2">
+              <input
+                type="text"
+                value={row.model}
+                onChange={(e) => updatePriceRow(index, 'model', e.target.value)}
+                placeholder="model name"
+                className="bg-slate-900 border border-slate-700 text-white rounded-lg p-2 font-mono text-xs focus:ring-2 focus:ring-emerald-500"
+              />
+              {(['inputPerMillion', 'outputPerMillion', 'groundingPerThousand'] as const).map((field) => (
+                <input
+                  key={field}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={row[field]}
+                  onChange={(e) => updatePriceRow(index, field, e.target.value)}
+                  className="bg-slate-900 border border-slate-700 text-white rounded-lg p-2 text-sm focus:ring-2 focus:ring-emerald-500"
+                />
+              ))}
+              <button
+                onClick={() => setPriceRows(priceRows.filter((_, i) => i !== index))}
+                className="w-9 flex items-center justify-center text-slate-500 hover:text-red-400 transition-colors"
+                aria-label={`Remove ${row.model}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setPriceRows([...priceRows, { model: '', inputPerMillion: '0', outputPerMillion: '0', groundingPerThousand: '0' }])}
+            className="flex items-center gap-2 px-3 py-1.5 text-slate-400 hover:text-white text-sm transition-colors"
+          >
+            <Plus size={16} /> Add model
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,81 +1,29 @@
-import React, { useMemo } from 'react';
-import { Match, HistoryItem, PredictionResult } from '../../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Match, HistoryItem } from '../../types';
 import { historyService } from '../../services/historyService';
+import { buildEloBaseline, compareHistoryWithBaseline } from '../../services/eloBaseline';
+import { buildAISnapshot, confidenceLevel, formatProbability } from '../../services/metrics';
 import { Clock, TrendingUp, Target, Calendar, Play, AlertCircle } from 'lucide-react';
-import { ConfidenceMeter, MiniTrendChart, EmptyState } from '../ui';
+import { ConfidenceMeter, MiniTrendChart, EmptyState, BaselineLift, ForecastMetricsGrid } from '../ui';
+import { displaySettings } from '../../services/displaySettings';
+import { formatKickoff } from '../../utils/timeDisplay';
 
 interface DashboardSummaryProps {
   matches: Match[];
 }
 
-interface AISnapshot {
-  latestPrediction: PredictionResult | null;
-  accuracy: number;
-  totalPredictions: number;
-  trendData: Array<{ name: string; value: number; label?: string }>;
-}
-
 export const DashboardSummary: React.FC<DashboardSummaryProps> = ({ matches }) => {
-  const aiSnapshot = useMemo((): AISnapshot => {
-    const history = historyService.getHistory();
-    
-    if (history.length === 0) {
-      return {
-        latestPrediction: null,
-        accuracy: 0,
-        totalPredictions: 0,
-        trendData: []
-      };
-    }
-
-    // Get latest standard prediction
-    const latestStandard = history.find(item => item.type === 'STANDARD' && item.standardPrediction);
-    const latestPrediction = latestStandard?.standardPrediction || null;
+  const [history, setHistory] = useState<HistoryItem[]>([]);
 
-    // Calculate accuracy
-    const finishedItems = history.filter(item => item.result?.isFinished);
-    const correctItems = finishedItems.filter(item => {
-      if (!item.standardPrediction) return false;
-      
-      const pred = item.standardPrediction.probabilities;
-      const predictedWinner = pred.homeWin > pred.awayWin && pred.homeWin > pred.draw ? 'Home' :
-                              pred.awayWin > pred.homeWin && pred.awayWin > pred.draw ? 'Away' : 'Draw';
-      
-      return predictedWinner === item.result?.winner;
-    });
-    
-    const accuracy = finishedItems.length > 0 ? Math.round((correctItems.length / finishedItems.length) * 100) : 0;
-
-    // Calculate trend data (last 10 predictions)
-    const recentHistory = history.slice(0, 10).reverse();
-    const trendData = recentHistory.map((item, index) => {
-      const predictionsSoFar = recentHistory.slice(0, index + 1);
-      const finishedSoFar = predictionsSoFar.filter(p => p.result?.isFinished);
-      const correctSoFar = finishedSoFar.filter(p => {
-        if (!p.standardPrediction) return false;
-        
-        const pred = p.standardPrediction.probabilities;
-        const predictedWinner = pred.homeWin > pred.awayWin && pred.homeWin > pred.draw ? 'Home' :
-                                pred.awayWin > pred.homeWin && pred.awayWin > pred.draw ? 'Away' : 'Draw';
-        
-        return predictedWinner === p.result?.winner;
-      });
-      
-      return {
-        name: `P${index + 1}`,
-        value: finishedSoFar.length > 0 ? Math.round((correctSoFar.length / finishedSoFar.length) * 100) : 0,
-        label: `Prediction ${index + 1}`
-      };
-    });
-
-    return {
-      latestPrediction,
-      accuracy,
-      totalPredictions: history.length,
-      trendData
-    };
+  useEffect(() => {
+    const load = () => historyService.getHistory().then(setHistory);
+    load();
+    return historyService.subscribe(load);
   }, []);
 
+  const aiSnapshot = useMemo(() => buildAISnapshot(history), [history]);
+  const baseline = useMemo(() => compareHistoryWithBaseline(history, buildEloBaseline(history)), [history]);
+
   const nextKickoff = useMemo(() => {
     if (matches.length === 0) return null;
     
@@ -87,19 +35,10 @@ export const DashboardSummary: React.FC<DashboardSummaryProps> = ({ matches }) =
     return upcomingMatches[0] || null;
   }, [matches]);
 
-  const getConfidenceLevel = (probabilities?: { homeWin: number; draw: number; awayWin: number }) => {
-    if (!probabilities) return 'Low';
-    
-    const maxProb = Math.max(probabilities.homeWin, probabilities.draw, probabilities.awayWin);
-    if (maxProb >= 65) return 'High';
-    if (maxProb >= 45) return 'Medium';
-    return 'Low';
-  };
-
+  // With browsable dates the next kickoff may not be today, so the day is included
   const formatTime = (isoString: string) => {
     try {
-      const date = new Date(isoString);
-      return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      return formatKickoff(isoString, displaySettings.get());
     } catch {
       return isoString;
     }
@@ -172,36 +111,39 @@ export const DashboardSummary: React.FC<DashboardSummaryProps> = ({ matches }) =
                   <div className="text-xs text-slate-400 mb-1">HOME</div>
                   <div 
                     className="h-2 bg-emerald-500 rounded-full"
-                    style={{ width: `${aiSnapshot.latestPrediction.probabilities.homeWin}%` }}
+                    style={{ width: formatProbability(aiSnapshot.latestPrediction.probabilities.homeWin) }}
                   />
                   <div className="text-xs text-slate-300 mt-1">
-                    {Math.round(aiSnapshot.latestPrediction.probabilities.homeWin)}%
+                    {formatProbability(aiSnapshot.latestPrediction.probabilities.homeWin)}
                   </div>
                 </div>
-                <div className="flex-1 text-center">
-                  <div className="text-xs text-slate-400 mb-1">DRAW</div>
-                  <div 
-                    className="h-2 bg-amber-500 rounded-full"
-                    style={{ width: `${aiSnapshot.latestPrediction.probabilities.draw}%` }}
-                  />
-                  <div className="text-xs text-slate-300 mt-1">
-                    {Math.round(aiSnapshot.latestPrediction.probabilities.draw)}%
+                {/* Two-way sports store a zero draw */}
+                {aiSnapshot.latestPrediction.probabilities.draw > 0 && (
+                  <div className="flex-1 text-center">
+                    <div className="text-xs text-slate-400 mb-1">DRAW</div>
+                    <div 
+                      className="h-2 bg-amber-500 rounded-full"
+                      style={{ width: formatProbability(aiSnapshot.latestPrediction.probabilities.draw) }}
+                    />
+                    <div className="text-xs text-slate-300 mt-1">
+                      {formatProbability(aiSnapshot.latestPrediction.probabilities.draw)}
+                    </div>
                   </div>
-                </div>
+                )}
                 <div className="flex-1 text-center">
                   <div className="text-xs text-slate-400 mb-1">AWAY</div>
                   <div 
                     className="h-2 bg-red-500 rounded-full"
-                    style={{ width: `${aiSnapshot.latestPrediction.probabilities.awayWin}%` }}
+                    style={{ width: formatProbability(aiSnapshot.latestPrediction.probabilities.awayWin) }}
                   />
                   <div className="text-xs text-slate-300 mt-1">
-                    {Math.round(aiSnapshot.latestPrediction.probabilities.awayWin)}%
+                    {formatProbability(aiSnapshot.latestPrediction.probabilities.awayWin)}
                   </div>
                 </div>
               </div>
 
               <ConfidenceMeter
-                level={getConfidenceLevel(aiSnapshot.latestPrediction.probabilities)}
+                level={confidenceLevel(aiSnapshot.latestPrediction.probabilities)}
                 variant="horizontal"
                 size="sm"
                 showLabel={false}
@@ -223,17 +165,17 @@ export const DashboardSummary: React.FC<DashboardSummaryProps> = ({ matches }) =
           </div>
           
           <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-600">
-            <div className="grid grid-cols-2 gap-4 mb-4">
-              <div className="text-center">
-                <div className="text-2xl font-bold text-emerald-400">{aiSnapshot.accuracy}%</div>
-                <div className="text-xs text-slate-400">Accuracy</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-slate-300">{aiSnapshot.totalPredictions}</div>
-                <div className="text-xs text-slate-400">Total Predictions</div>
+            <div className="mb-4">
+              <ForecastMetricsGrid metrics={aiSnapshot.metrics} compact />
+              <div className="text-xs text-slate-400 mt-2 text-center">
+                {aiSnapshot.metrics.settled} settled of {aiSnapshot.totalPredictions} predictions
               </div>
             </div>
 
+            <div className="mb-4">
+              <BaselineLift comparison={baseline} />
+            </div>
+
             {/* Mini Trend Chart */}
             {aiSnapshot.trendData.length > 1 ? (
               <MiniTrendChart
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import { BaselineComparison } from '../../services/eloBaseline';
+
+interface BaselineLiftProps {
+  comparison: BaselineComparison | null;
+  compact?: boolean;
+}
+
+/**
+ * AI accuracy against the local Elo baseline on the same settled games.
+ */
+export const BaselineLift: React.FC<BaselineLiftProps> = ({ comparison, compact = false }) => {
+  if (!comparison) {
+    return compact ? null : (
+      <div className="text-xs text-slate-500">No settled games to compare against the Elo baseline yet.</div>
+    );
+  }
+
+  const { n, aiAccuracy, baselineAccuracy, liftPp } = comparison;
+  const tone = liftPp > 0 ? 'text-emerald-400' : liftPp < 0 ? 'text-red-400' : 'text-slate-300';
+  const lift = `${liftPp > 0 ? '+' : ''}${liftPp}pp`;
+
+  if (compact) {
+    return (
+      <span className={`font-bold ${tone}`} title={`AI ${aiAccuracy}% vs Elo ${baselineAccuracy}% on ${n} games`}>
+        {lift}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-400">
+      <Scale size={14} className="text-slate-500" />
+      <span>AI <span className="text-white font-bold">{aiAccuracy}%</span></span>
+      <span>Elo baseline <span className="text-white font-bold">{baselineAccuracy}%</span></span>
+      <span>Lift <span className={`font-bold ${tone}`}>{lift}</span></span>
+      <span className="text-slate-500">({n} game{n === 1 ? '' : 's'})</span>
+    </div>
+  );
+};
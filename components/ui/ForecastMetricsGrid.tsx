@@ -0,0 +1,45 @@
+import React from 'react';
+import { ForecastMetrics, Estimate } from '../../types';
+import { formatInterval, formatPercentEstimate, formatScoreEstimate } from '../../services/metrics';
+
+interface ForecastMetricsGridProps {
+  metrics: ForecastMetrics;
+  compact?: boolean; // two columns, for narrow panels
+}
+
+const TILES: Array<{ key: keyof Omit<ForecastMetrics, 'settled'>; label: string; hint: string; percent: boolean }> = [
+  { key: 'accuracy', label: 'Accuracy', hint: 'Share of settled picks that were right. Higher is better.', percent: true },
+  { key: 'brier', label: 'Brier', hint: 'Squared error of the stated probabilities, 0 to 2. Lower is better.', percent: false },
+  { key: 'logLoss', label: 'Log Loss', hint: 'How surprised the forecast was by the result. Lower is better.', percent: false },
+  { key: 'rps', label: 'RPS', hint: 'Ranked probability score: penalises probability far from the result. Lower is better.', percent: false }
+];
+
+/**
+ * Accuracy and probabilistic scores for a set of settled forecasts, each
+ * with its 95% interval and sample size (see services/metrics).
+ */
+export const ForecastMetricsGrid: React.FC<ForecastMetricsGridProps> = ({ metrics, compact = false }) => {
+  if (metrics.settled === 0) {
+    return <div className="text-xs text-slate-500">No settled predictions to score yet.</div>;
+  }
+
+  const render = (estimate: Estimate | null, percent: boolean) => (percent ? formatPercentEstimate(estimate) : formatScoreEstimate(estimate));
+
+  return (
+    <div className={`grid gap-3 ${compact ? 'grid-cols-2' : 'grid-cols-2 md:grid-cols-4'}`}>
+      {TILES.map(({ key, label, hint, percent }) => {
+        const estimate = metrics[key];
+        const interval = formatInterval(estimate, percent);
+        return (
+          <div key={key} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-center" title={hint}>
+            <div className={`text-xl font-bold ${key === 'accuracy' ? 'text-emerald-400' : 'text-slate-200'}`}>{render(estimate, percent)}</div>
+            <div className="text-[10px] uppercase tracking-wider text-slate-400 font-bold">{label}</div>
+            <div className="text-[10px] text-slate-500 mt-0.5">
+              {estimate ? `${interval ? `95% CI ${interval} · ` : ''}n=${estimate.n}` : 'No probabilities'}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { History, RefreshCw, Sparkles } from 'lucide-react';
+
+interface ResultFreshnessBarProps {
+  cachedAt: number | null; // null when the result was generated just now
+  onRegenerate?: () => void;
+}
+
+export const ResultFreshnessBar: React.FC<ResultFreshnessBarProps> = ({ cachedAt, onRegenerate }) => {
+  const isCached = cachedAt !== null;
+  const asOf = isCached
+    ? new Date(cachedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-slate-800/60 border border-slate-700 rounded-xl px-4 py-3">
+      <div className="flex items-center gap-2 text-sm">
+        {isCached ? (
+          <>
+            <History size={16} className="text-amber-400" />
+            <span className="text-slate-300">Cached result as of <span className="font-mono text-white">{asOf}</span></span>
+          </>
+        ) : (
+          <>
+            <Sparkles size={16} className="text-emerald-400" />
+            <span className="text-slate-300">Freshly generated</span>
+          </>
+        )}
+      </div>
+      {onRegenerate && (
+        <button
+          onClick={onRegenerate}
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-medium transition-colors"
+          title="Run the model again and replace the cached result"
+        >
+          <RefreshCw size={14} /> Regenerate
+        </button>
+      )}
+    </div>
+  );
+};
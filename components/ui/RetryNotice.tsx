@@ -0,0 +1,43 @@
+import React from 'react';
+import { RefreshCw, Hourglass } from 'lucide-react';
+import { RetryState } from '../../services/requestExecutor';
+
+interface RetryNoticeProps {
+  state: RetryState | null;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  quota: 'rate limited',
+  network: 'network error',
+  parse: 'malformed response',
+  auth: 'authentication error',
+  unknown: 'unexpected error'
+};
+
+export const RetryNotice: React.FC<RetryNoticeProps> = ({ state }) => {
+  if (!state) return null;
+
+  const seconds = Math.max(1, Math.round(state.delayMs / 1000));
+  const isThrottled = state.phase === 'throttled';
+  const Icon = isThrottled ? Hourglass : RefreshCw;
+
+  return (
+    <div
+      className="mb-6 bg-amber-500/10 border border-amber-400/30 p-3 rounded-xl text-amber-200 text-sm flex items-center gap-3"
+      role="status"
+      aria-live="polite"
+    >
+      <Icon size={16} className={`shrink-0 ${isThrottled ? '' : 'animate-spin'}`} />
+      {isThrottled ? (
+        <span>
+          Request budget reached. <span className="font-mono">{state.operation}</span> will start in ~{seconds}s.
+        </span>
+      ) : (
+        <span>
+          Retrying <span className="font-mono">{state.operation}</span> {state.attempt}/{state.maxAttempts}
+          {state.kind && <> after {KIND_LABELS[state.kind]}</>} (in ~{seconds}s)...
+        </span>
+      )}
+    </div>
+  );
+};
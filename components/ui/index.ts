@@ -3,3 +3,7 @@ export { EmptyState } from './EmptyState';
 export { SkeletonCard } from './SkeletonCard';
 export { ConfidenceMeter } from './ConfidenceMeter';
 export { MiniTrendChart } from './MiniTrendChart';
+export { RetryNotice } from './RetryNotice';
+export { ResultFreshnessBar } from './ResultFreshnessBar';
+export { BaselineLift } from './BaselineLift';
+export { ForecastMetricsGrid } from './ForecastMetricsGrid';
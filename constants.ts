@@ -1,23 +1,4 @@
-import { SportFilter, Match } from './types';
-
-export const SUPPORTED_LEAGUES = [
-  "English Premier League",
-  "Bundesliga",
-  "La Liga",
-  "Serie A",
-  "Ligue 1",
-  "Eredivisie",
-  "NBA",
-  "Champions League"
-];
-
-export const SPORTS_TABS: SportFilter[] = ['All', 'Football', 'NBA'];
-
-export const SPORT_ICONS: Record<SportFilter, string> = {
-  'All': 'globe',
-  'Football': 'soccer',
-  'NBA': 'basketball'
-};
+import { Match, EnsembleAggregation, ModelConfiguration, ModelOperation, DisplaySettings, HistoryRetention } from './types';
 
 export const PLACEHOLDER_MATCHES: Match[] = [
   {
@@ -40,4 +21,217 @@ export const PLACEHOLDER_MATCHES: Match[] = [
   }
 ];
 
+export const REQUEST_RETRY_POLICY = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  requestsPerMinute: 10
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const PREDICTION_CACHE_POLICY = {
+  ttlMs: {
+    STANDARD: 6 * HOUR_MS,
+    DETAILED: 12 * HOUR_MS
+  },
+  // Inside this window before kickoff, line-ups and injury news move fast
+  nearKickoffWindowMs: 3 * HOUR_MS,
+  nearKickoffTtlMs: 0.5 * HOUR_MS
+};
+
+export const ENSEMBLE_DEFAULTS = {
+  samples: 5,
+  aggregation: 'median' as EnsembleAggregation,
+  // Below this many successful samples the spread says nothing useful
+  minSuccessfulSamples: 2
+};
+
+export const DEFAULT_MODEL_NAME = 'gemini-2.5-flash';
+
+export const MODEL_OPERATION_LABELS: Record<ModelOperation, string> = {
+  schedule: "Today's fixtures",
+  standard: 'Standard prediction',
+  detailed: 'Detailed forecast',
+  results: 'Result checking',
+  backtest: 'Backtesting'
+};
+
+export const DEFAULT_MODEL_CONFIGURATION: ModelConfiguration = {
+  schedule: {
+    model: DEFAULT_MODEL_NAME,
+    temperature: null,
+    thinkingBudget: null,
+    grounding: true,
+    systemInstruction: "You are a sports scheduler helper. Accurately retrieve today's fixtures and output valid JSON with strictly UTC timestamps."
+  },
+  standard: {
+    model: DEFAULT_MODEL_NAME,
+    temperature: null,
+    thinkingBudget: null,
+    grounding: true,
+    systemInstruction: 'You are an expert sports analyst. Provide data-driven probabilities in JSON.'
+  },
+  detailed: {
+    model: DEFAULT_MODEL_NAME,
+    temperature: 0.1, // Very low for deterministic, consistent results
+    thinkingBudget: 2048, // Room for step-by-step calculation
+    grounding: true,
+    systemInstruction: 'You are a ruthless algorithmic betting model. You do not guess. You only predict what is supported by hard statistics (xG, H2H, Form). If data is conflicting, choose the conservative outcome. Be precise.',
+    reaskOnInconsistency: false
+  },
+  results: {
+    model: DEFAULT_MODEL_NAME,
+    temperature: null,
+    thinkingBudget: null,
+    grounding: true,
+    systemInstruction: ''
+  },
+  backtest: {
+    model: DEFAULT_MODEL_NAME,
+    temperature: null,
+    thinkingBudget: null,
+    grounding: true,
+    systemInstruction: ''
+  }
+};
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M output tokens, thinking included
+  groundingPerThousand: number; // USD per 1K grounded search queries
+}
+
+// Published list prices; editable from the Usage screen
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, groundingPerThousand: 35 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4, groundingPerThousand: 35 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10, groundingPerThousand: 35 }
+};
+
+export const USAGE_LEDGER_RETENTION_DAYS = 90;
+
+export interface EloParameters {
+  initialRating: number;
+  kFactor: number;
+  homeAdvantage: number; // rating points added to the home side
+  maxDrawProbability: number; // draw chance between evenly matched sides; 0 where draws cannot happen
+  scaleByMargin: boolean; // larger wins move ratings further
+}
+
+export const DEFAULT_ELO_SPORT = 'Football';
+
+export const ELO_PARAMETERS: Record<string, EloParameters> = {
+  Football: { initialRating: 1500, kFactor: 20, homeAdvantage: 60, maxDrawProbability: 0.3, scaleByMargin: true },
+  NBA: { initialRating: 1500, kFactor: 20, homeAdvantage: 70, maxDrawProbability: 0, scaleByMargin: false },
+  NFL: { initialRating: 1500, kFactor: 20, homeAdvantage: 48, maxDrawProbability: 0, scaleByMargin: true },
+  NHL: { initialRating: 1500, kFactor: 8, homeAdvantage: 35, maxDrawProbability: 0, scaleByMargin: false },
+  MLB: { initialRating: 1500, kFactor: 4, homeAdvantage: 24, maxDrawProbability: 0, scaleByMargin: false },
+  Tennis: { initialRating: 1500, kFactor: 32, homeAdvantage: 0, maxDrawProbability: 0, scaleByMargin: false }
+};
+
+export interface ScorelineParameters {
+  rho: number; // Dixon-Coles low-score dependence; negative lifts 0-0 and 1-1
+  maxGoals: number; // per side; the matrix is truncated and renormalized beyond this
+  overUnderLines: number[];
+  disagreementRank: number; // a stated score ranked below this is flagged
+}
+
+export const SCORELINE_PARAMETERS: ScorelineParameters = {
+  rho: -0.1,
+  maxGoals: 10,
+  overUnderLines: [0.5, 1.5, 2.5, 3.5, 4.5],
+  disagreementRank: 3
+};
+
+export const FIXTURE_CACHE_TTL_MS = 6 * 60 * 60 * 1000; // today and future dates; past dates never expire
+export const FIXTURE_CACHE_RETENTION_DAYS = 14;
+
+// Typical kickoff-to-final-whistle time for sports without a descriptor (see services/sportRegistry)
+export const DEFAULT_MATCH_DURATION_MINUTES = 150;
+// How long past the expected end a match stays Live while waiting for a result
+export const RESULT_GRACE_MINUTES = 180;
+export const LIVE_CLOCK_TICK_MS = 60 * 1000;
+export const LIVE_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  timeZone: null,
+  hourCycle: 'auto'
+};
+
+// Equal-width probability bins in the calibration view (10 = 0-10%, 10-20%, ...)
+export const CALIBRATION_BIN_COUNT = 10;
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxAgeDays: null,
+  maxItems: null
+};
+
+// Offered in Settings; any other IANA zone stored by hand still works
+export const DISPLAY_TIME_ZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Madrid',
+  'Europe/Berlin',
+  'Europe/Athens',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
+
+export interface NameSeed {
+  sport: string;
+  name: string; // canonical display name
+  aliases: string[];
+}
+
+// Well-known alternative names; anything else is learned as fixtures arrive
+export const TEAM_NAME_SEED: NameSeed[] = [
+  { sport: 'Football', name: 'Manchester United', aliases: ['Man Utd', 'Man United', 'Manchester Utd', 'MUFC'] },
+  { sport: 'Football', name: 'Manchester City', aliases: ['Man City', 'MCFC'] },
+  { sport: 'Football', name: 'Tottenham Hotspur', aliases: ['Tottenham', 'Spurs'] },
+  { sport: 'Football', name: 'Wolverhampton Wanderers', aliases: ['Wolves', 'Wolverhampton'] },
+  { sport: 'Football', name: 'Newcastle United', aliases: ['Newcastle'] },
+  { sport: 'Football', name: 'West Ham United', aliases: ['West Ham'] },
+  { sport: 'Football', name: 'Brighton & Hove Albion', aliases: ['Brighton'] },
+  { sport: 'Football', name: 'Nottingham Forest', aliases: ["Nott'm Forest", 'Forest'] },
+  { sport: 'Football', name: 'Paris Saint-Germain', aliases: ['PSG', 'Paris SG'] },
+  { sport: 'Football', name: 'Bayern Munich', aliases: ['Bayern München', 'FC Bayern', 'Bayern'] },
+  { sport: 'Football', name: 'Borussia Dortmund', aliases: ['Dortmund', 'BVB'] },
+  { sport: 'Football', name: 'Bayer Leverkusen', aliases: ['Leverkusen', 'Bayer 04 Leverkusen'] },
+  { sport: 'Football', name: 'Inter', aliases: ['Inter Milan', 'Internazionale'] },
+  { sport: 'Football', name: 'AC Milan', aliases: ['Milan'] },
+  { sport: 'Football', name: 'Atletico Madrid', aliases: ['Atlético Madrid', 'Atletico', 'Atleti'] },
+  { sport: 'Football', name: 'Real Madrid', aliases: ['Real Madrid CF'] },
+  { sport: 'Football', name: 'Barcelona', aliases: ['FC Barcelona', 'Barca', 'Barça'] },
+  { sport: 'NBA', name: 'Los Angeles Lakers', aliases: ['LA Lakers', 'Lakers', 'LAL'] },
+  { sport: 'NBA', name: 'LA Clippers', aliases: ['Los Angeles Clippers', 'Clippers', 'LAC'] },
+  { sport: 'NBA', name: 'Golden State Warriors', aliases: ['Warriors', 'GSW'] },
+  { sport: 'NBA', name: 'Boston Celtics', aliases: ['Celtics', 'BOS'] },
+  { sport: 'NBA', name: 'Milwaukee Bucks', aliases: ['Bucks', 'MIL'] }
+];
+
+export const LEAGUE_NAME_SEED: NameSeed[] = [
+  { sport: 'Football', name: 'Premier League', aliases: ['English Premier League', 'EPL', 'Barclays Premier League'] },
+  { sport: 'Football', name: 'La Liga', aliases: ['LaLiga', 'Primera Division', 'LaLiga EA Sports'] },
+  { sport: 'Football', name: 'Bundesliga', aliases: ['German Bundesliga', '1. Bundesliga'] },
+  { sport: 'Football', name: 'Serie A', aliases: ['Italian Serie A', 'Serie A TIM'] },
+  { sport: 'Football', name: 'Ligue 1', aliases: ['French Ligue 1', 'Ligue 1 McDonalds'] },
+  { sport: 'Football', name: 'Eredivisie', aliases: ['Dutch Eredivisie'] },
+  { sport: 'Football', name: 'Champions League', aliases: ['UEFA Champions League', 'UCL'] },
+  { sport: 'NBA', name: 'NBA', aliases: ['National Basketball Association'] }
+];
+
+// Minimum bigram (Dice) similarity for two unknown spellings to count as one name
+export const NAME_MATCH_THRESHOLD = 0.85;
+// Lower bar for listing possible duplicates on the Teams screen; nothing merges without a click
+export const NAME_SUGGEST_THRESHOLD = 0.6;
+
 export const DISCLAIMER_TEXT = "This app provides informational and entertainment predictions only using AI analysis. No bets can be placed through this app. Predictions are not guarantees. Please act responsibly.";
\ No newline at end of file
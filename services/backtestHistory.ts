@@ -0,0 +1,56 @@
+import { BacktestResultItem } from "../types";
+import { commitMigration, migrateRecords } from "./schemaMigrations";
+import { BACKTEST_SCHEMA } from "./storeSchemas";
+import { appLogger } from "../utils/logger";
+
+const BACKTEST_KEY = 'probable_play_backtests_v1';
+const MAX_ITEMS = 500;
+
+// Rows the provider returned after a failed prediction carry no probabilities
+export const isUsableBacktest = (item: BacktestResultItem) =>
+  item.predictedProbabilities.homeWin + item.predictedProbabilities.draw + item.predictedProbabilities.awayWin > 0;
+
+/**
+ * Keeps completed backtest rows across sessions so baselines and accuracy
+ * views can learn from them, not just the run currently on screen.
+ */
+export const backtestHistory = {
+  getAll: (): BacktestResultItem[] => {
+    let stored: unknown[];
+    try {
+      const raw = localStorage.getItem(BACKTEST_KEY);
+      stored = raw ? JSON.parse(raw) : [];
+    } catch (e) {
+      appLogger.warn('Failed to load backtest history', e);
+      return [];
+    }
+    const { records, rejected, migrated } = migrateRecords(BACKTEST_SCHEMA, Array.isArray(stored) ? stored : []);
+    if (migrated || rejected.length > 0) {
+      try {
+        localStorage.setItem(BACKTEST_KEY, JSON.stringify(records));
+        if (migrated) commitMigration(BACKTEST_SCHEMA);
+      } catch (e) {
+        appLogger.warn('Failed to save migrated backtest history', e);
+      }
+    }
+    return records;
+  },
+
+  append: (items: BacktestResultItem[]) => {
+    const usable = items.filter(isUsableBacktest);
+    if (usable.length === 0) return;
+
+    const stored = backtestHistory.getAll();
+    const ids = new Set(usable.map((item) => item.id));
+    const merged = [...usable, ...stored.filter((item) => !ids.has(item.id))].slice(0, MAX_ITEMS);
+    try {
+      localStorage.setItem(BACKTEST_KEY, JSON.stringify(merged));
+    } catch (e) {
+      appLogger.warn('Failed to save backtest history', e);
+    }
+  },
+
+  clear: () => {
+    localStorage.removeItem(BACKTEST_KEY);
+  }
+};
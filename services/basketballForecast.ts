@@ -0,0 +1,60 @@
+import { BasketballForecastResult, Match } from "../types";
+import { RawBasketballForecast, BASKETBALL_FORECAST_SCHEMA } from "./responseSchemas";
+import { SchemaValidationError } from "./errors";
+import { describeSport } from "./sportRegistry";
+import { appLogger } from "../utils/logger";
+
+// Betting lines are quoted in half points
+const toHalfPoint = (value: number) => Math.round(value * 2) / 2;
+
+const oneDecimal = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Turns a raw basketball forecast into the stored shape, from any source.
+ * Lines are snapped to half points, quarter winners fitted to the sport's
+ * period count, and scorers sorted by projected points. A spread or total
+ * pick that contradicts the predicted score is corrected to agree with it.
+ * A level final score cannot happen, so it is rejected.
+ */
+export const normalizeBasketballForecast = (match: Match, raw: RawBasketballForecast): BasketballForecastResult => {
+  const schemaName = BASKETBALL_FORECAST_SCHEMA.name;
+  const [home, away] = raw.predictedScore.split('-').map(Number);
+  if (!Number.isFinite(home) || !Number.isFinite(away)) {
+    throw new SchemaValidationError(schemaName, 'predictedScore', `is not a "home-away" score, got "${raw.predictedScore}"`);
+  }
+  if (home === away) {
+    throw new SchemaValidationError(schemaName, 'predictedScore', `is level (${raw.predictedScore}); ${match.sport} games cannot end in a draw`);
+  }
+
+  let pointSpread = toHalfPoint(raw.pointSpread);
+  if (pointSpread !== 0 && (pointSpread < 0) !== (home > away)) {
+    appLogger.warn(`Spread ${pointSpread} favours the side that loses ${raw.predictedScore} in ${match.id}; flipping it`);
+    pointSpread = -pointSpread;
+  }
+
+  const line = toHalfPoint(raw.totalPointsLine);
+  const pick = home + away > line ? 'Over' : home + away < line ? 'Under' : raw.totalPointsPick;
+
+  const quarters = describeSport(match.sport).periods.count;
+  const quarterWinners = Array.from({ length: quarters }, (_, i) => raw.quarterWinners[i] ?? 'Draw');
+
+  return {
+    matchId: match.id,
+    predictedScore: `${home}-${away}`,
+    pointSpread,
+    totalPoints: { line, pick },
+    quarterWinners,
+    topScorers: raw.topScorers
+      .map((p) => ({
+        player: p.player,
+        team: p.team,
+        points: oneDecimal(p.points),
+        rebounds: oneDecimal(p.rebounds),
+        assists: oneDecimal(p.assists)
+      }))
+      .sort((a, b) => b.points - a.points),
+    overtimeLikelihood: `${Math.round(Math.min(100, Math.max(0, raw.overtimeProbability)))}%`,
+    confidenceScore: raw.confidenceScore,
+    reasoning: raw.reasoning
+  };
+};
@@ -0,0 +1,113 @@
+import { BacktestResultItem, HistoryItem, Outcome } from "../types";
+import { CALIBRATION_BIN_COUNT } from "../constants";
+import { ScoredForecast, forecastFromBacktest, forecastFromHistory, normalizedProbabilities } from "./metrics";
+import { promptKeyOf } from "./promptRegistry";
+
+export type CalibrationSource = 'history' | 'backtest';
+
+/**
+ * A settled forecast with stated probabilities, tagged with what the
+ * calibration view filters on.
+ */
+export interface CalibrationSample {
+  source: CalibrationSource;
+  sport: string;
+  league: string | null; // backtests run without a league have none
+  promptKey: string; // see promptKeyOf
+  forecast: ScoredForecast;
+}
+
+export interface CalibrationBin {
+  lower: number; // stated probability range, 0-1
+  upper: number;
+  count: number; // outcome predictions that fell in the bin
+  meanPredicted: number | null; // null for an empty bin
+  observed: number | null; // share of those outcomes that happened
+}
+
+export type CalibrationOutcome = Outcome | 'All';
+
+export interface CalibrationCurve {
+  outcome: CalibrationOutcome;
+  bins: CalibrationBin[];
+  points: number; // outcome predictions across all bins
+  ece: number | null; // expected calibration error, 0-1
+}
+
+export interface CalibrationFilter {
+  sources?: CalibrationSource[];
+  sport?: string;
+  league?: string;
+  promptKey?: string;
+}
+
+export const historySamples = (items: HistoryItem[]): CalibrationSample[] =>
+  items.flatMap((item) => {
+    const forecast = forecastFromHistory(item);
+    if (!forecast?.probabilities) return [];
+    return [{ source: 'history', sport: item.match.sport, league: item.match.league, promptKey: promptKeyOf(item.generatedBy), forecast }];
+  });
+
+export const backtestSamples = (items: BacktestResultItem[]): CalibrationSample[] =>
+  items.map((item) => {
+    const forecast = forecastFromBacktest(item);
+    return { source: 'backtest', sport: forecast.sport, league: item.league || null, promptKey: promptKeyOf(item.generatedBy), forecast };
+  });
+
+export const filterSamples = (samples: CalibrationSample[], filter: CalibrationFilter): CalibrationSample[] =>
+  samples.filter((sample) =>
+    (!filter.sources || filter.sources.includes(sample.source)) &&
+    (!filter.sport || sample.sport === filter.sport) &&
+    (!filter.league || sample.league === filter.league) &&
+    (!filter.promptKey || sample.promptKey === filter.promptKey)
+  );
+
+const binIndex = (p: number, binCount: number) => Math.min(binCount - 1, Math.floor(p * binCount));
+
+/**
+ * Reliability curves over equal-width probability bins. Every forecast adds
+ * one point per outcome its sport allows: the stated probability and whether
+ * that outcome happened. The 'All' curve pools the three outcomes.
+ * ECE is the count-weighted mean gap between stated and observed frequency.
+ */
+export const buildCalibration = (
+  samples: CalibrationSample[],
+  binCount: number = CALIBRATION_BIN_COUNT
+): Record<CalibrationOutcome, CalibrationCurve> => {
+  const outcomes: CalibrationOutcome[] = ['All', 'Home', 'Draw', 'Away'];
+  const totals = Object.fromEntries(
+    outcomes.map((outcome) => [outcome, Array.from({ length: binCount }, () => ({ count: 0, predicted: 0, hits: 0 }))])
+  ) as Record<CalibrationOutcome, Array<{ count: number; predicted: number; hits: number }>>;
+
+  samples.forEach(({ forecast }) => {
+    const probabilities = normalizedProbabilities(forecast);
+    if (!probabilities) return;
+    probabilities.forEach(([outcome, p]) => {
+      const hit = outcome === forecast.actual ? 1 : 0;
+      [outcome, 'All' as const].forEach((curve) => {
+        const bin = totals[curve][binIndex(p, binCount)];
+        bin.count++;
+        bin.predicted += p;
+        bin.hits += hit;
+      });
+    });
+  });
+
+  const curveOf = (outcome: CalibrationOutcome): CalibrationCurve => {
+    const bins = totals[outcome].map(({ count, predicted, hits }, i) => ({
+      lower: i / binCount,
+      upper: (i + 1) / binCount,
+      count,
+      meanPredicted: count > 0 ? predicted / count : null,
+      observed: count > 0 ? hits / count : null
+    }));
+    const points = bins.reduce((sum, bin) => sum + bin.count, 0);
+    // (count / points) * |hits / count - predicted / count| reduces to |hits - predicted| / points; empty bins add 0
+    const ece = points === 0
+      ? null
+      : totals[outcome].reduce((sum, { predicted, hits }) => sum + Math.abs(hits - predicted) / points, 0);
+    return { outcome, bins, points, ece };
+  };
+
+  return Object.fromEntries(outcomes.map((outcome) => [outcome, curveOf(outcome)])) as Record<CalibrationOutcome, CalibrationCurve>;
+};
@@ -0,0 +1,173 @@
+import { Match, DetailedForecastResult, ConsistencyViolation } from "../types";
+import { parseScoreline, parseTotalGoals, Scoreline } from "./scorelineModel";
+import { teamRegistry } from "./teamRegistry";
+import { DetailedField, SportDescriptor, describeSport } from "./sportRegistry";
+
+type TeamContext = Pick<Match, 'homeTeam' | 'awayTeam'> & Partial<Pick<Match, 'sport'>>;
+
+export interface ConsistencyRule {
+  id: string;
+  // Worded as an instruction so it can be quoted back to the model verbatim
+  rule: string;
+  // The forecast part the rule reads; the rule is skipped for sports that do not ask for it
+  field?: DetailedField;
+  // Further restricts the sports the rule runs for
+  appliesTo?: (sport: SportDescriptor) => boolean;
+  // Returns one message per problem; an empty list means the rule holds
+  check: (forecast: DetailedForecastResult, match: TeamContext, score: Scoreline | null) => string[];
+}
+
+type Side = 'Home' | 'Away' | 'Draw';
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Resolves a free-text team reference to a side. Accepts "Home"/"Away", the
+ * exact name, a shortened form such as "Arsenal" for "Arsenal FC", or, when
+ * the sport is known, any registry alias such as "Spurs".
+ */
+const sideOf = (team: string, match: TeamContext): 'Home' | 'Away' | null => {
+  const name = normalize(team);
+  if (!name) return null;
+  if (name === 'home') return 'Home';
+  if (name === 'away') return 'Away';
+  const matches = (candidate: string) => {
+    const c = normalize(candidate);
+    if (c === name || c.includes(name) || name.includes(c)) return true;
+    return match.sport ? teamRegistry.isSame(match.sport, team, candidate) : false;
+  };
+  const home = matches(match.homeTeam);
+  const away = matches(match.awayTeam);
+  if (home === away) return null; // neither, or ambiguous
+  return home ? 'Home' : 'Away';
+};
+
+const NO_SCORER = new Set(['', 'none', 'no one', 'nobody', 'neither', 'n a']);
+
+const sign = (side: Side) => (side === 'Home' ? 1 : side === 'Away' ? -1 : 0);
+
+const fullTimeSide = (score: Scoreline): Side =>
+  score.home > score.away ? 'Home' : score.home < score.away ? 'Away' : 'Draw';
+
+const parsePercent = (value: string): number | null => {
+  const match = String(value).match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+export const CONSISTENCY_RULES: ConsistencyRule[] = [
+  {
+    id: 'score-total-goals',
+    rule: 'The total goals line must agree with the exact score (e.g. "Over 2.5" needs 3 or more goals).',
+    check: (forecast, _match, score) => {
+      const total = parseTotalGoals(forecast.totalGoals);
+      if (!score || !total) return [];
+      const goals = score.home + score.away;
+      const holds = total.side === 'over' ? goals > total.line : goals < total.line;
+      return holds ? [] : [`Exact score ${forecast.predictedScore} has ${goals} goals, which contradicts "${forecast.totalGoals}".`];
+    }
+  },
+  {
+    id: 'score-first-scorer',
+    field: 'firstToScore',
+    rule: 'A 0-0 score has no first team to score ("None"); any other score needs a first scorer from a team that scores.',
+    check: (forecast, match, score) => {
+      if (!score || forecast.firstTeamToScore === undefined) return [];
+      const stated = forecast.firstTeamToScore;
+      const isNone = NO_SCORER.has(normalize(stated));
+      if (score.home + score.away === 0) {
+        return isNone ? [] : [`Exact score is 0-0 but "${stated}" is named as first to score.`];
+      }
+      if (isNone) return [`Exact score is ${forecast.predictedScore} but no first team to score is given.`];
+      const side = sideOf(stated, match);
+      if (side === 'Home' && score.home === 0) return [`${match.homeTeam} cannot score first in a ${forecast.predictedScore} game.`];
+      if (side === 'Away' && score.away === 0) return [`${match.awayTeam} cannot score first in a ${forecast.predictedScore} game.`];
+      return [];
+    }
+  },
+  {
+    id: 'halves-full-time',
+    field: 'periodWinners',
+    // Two period winners only add up to the result when the game has exactly two periods
+    appliesTo: (sport) => sport.periods.count === 2,
+    rule: 'Half-time and second-half winners must add up to the full-time score: a side that wins one half and draws or wins the other wins the match, two drawn halves make a draw, and a side cannot win a half without scoring.',
+    check: (forecast, _match, score) => {
+      if (!score || !forecast.halfTimeWinner || !forecast.secondHalfWinner) return [];
+      const problems: string[] = [];
+      const first = sign(forecast.halfTimeWinner);
+      const second = sign(forecast.secondHalfWinner);
+      // Opposite half winners can produce any result; otherwise the direction is fixed
+      if (first * second >= 0) {
+        const implied = Math.sign(first + second);
+        if (implied !== sign(fullTimeSide(score))) {
+          problems.push(
+            `Halves (${forecast.halfTimeWinner}, ${forecast.secondHalfWinner}) imply a ${implied > 0 ? 'home win' : implied < 0 ? 'away win' : 'draw'}, but the exact score is ${forecast.predictedScore}.`
+          );
+        }
+      }
+      const homeHalves = [forecast.halfTimeWinner, forecast.secondHalfWinner].filter((w) => w === 'Home').length;
+      const awayHalves = [forecast.halfTimeWinner, forecast.secondHalfWinner].filter((w) => w === 'Away').length;
+      const halves = (n: number) => `${n} half${n === 1 ? '' : 'ves'}`;
+      if (homeHalves > score.home) problems.push(`The home side wins ${halves(homeHalves)} but scores only ${score.home}.`);
+      if (awayHalves > score.away) problems.push(`The away side wins ${halves(awayHalves)} but scores only ${score.away}.`);
+      return problems;
+    }
+  },
+  {
+    id: 'scorer-teams',
+    field: 'scorers',
+    rule: 'Every likely scorer must play for one of the two teams in this match, named as given.',
+    check: (forecast, match) =>
+      (forecast.likelyScorers ?? [])
+        .filter((s) => sideOf(s.team, match) === null)
+        .map((s) => `${s.player} is listed for "${s.team}", which is neither ${match.homeTeam} nor ${match.awayTeam}.`)
+  },
+  {
+    id: 'percent-range',
+    rule: 'Every likelihood and scoring-method probability must be a percentage between 0 and 100.',
+    check: (forecast) => {
+      const values: Array<[string, string]> = [
+        ...(forecast.likelyScorers ?? []).map((s): [string, string] => [`${s.player} likelihood`, s.likelihood]),
+        ...Object.entries(forecast.scoringMethodProbabilities ?? {}).map(([method, value]): [string, string] => [`${method} probability`, value])
+      ];
+      return values.flatMap(([label, value]) => {
+        const n = parsePercent(value);
+        return n === null || n < 0 || n > 100 ? [`${label} "${value}" is not a percentage between 0 and 100.`] : [];
+      });
+    }
+  }
+];
+
+/**
+ * Runs every rule that applies to the match's sport against a forecast. An
+ * unparseable exact score is itself a violation, and score-based rules are
+ * skipped for it.
+ */
+export const checkForecastConsistency = (forecast: DetailedForecastResult, match: TeamContext): ConsistencyViolation[] => {
+  const score = parseScoreline(forecast.predictedScore);
+  const violations: ConsistencyViolation[] = score ? [] : [{
+    ruleId: 'score-format',
+    rule: 'The exact score must be written as "home-away", e.g. "2-1".',
+    message: `"${forecast.predictedScore}" is not a valid score.`
+  }];
+
+  const sport = describeSport(match.sport ?? '');
+  CONSISTENCY_RULES.forEach((rule) => {
+    if (rule.field && !sport.detailedFields.includes(rule.field)) return;
+    if (rule.appliesTo && !rule.appliesTo(sport)) return;
+    rule.check(forecast, match, score).forEach((message) => {
+      violations.push({ ruleId: rule.id, rule: rule.rule, message });
+    });
+  });
+  return violations;
+};
+
+/**
+ * Lists each violated rule once with what went wrong, for quoting in a re-ask.
+ */
+export const describeViolations = (violations: ConsistencyViolation[]): string[] => {
+  const byRule = new Map<string, ConsistencyViolation[]>();
+  violations.forEach((v) => byRule.set(v.ruleId, [...(byRule.get(v.ruleId) ?? []), v]));
+  return Array.from(byRule.values()).map((group) =>
+    `RULE: ${group[0].rule} VIOLATION: ${group.map((v) => v.message).join(' ')}`
+  );
+};
@@ -0,0 +1,41 @@
+import {
+  Candidate,
+  GenerateContentParameters,
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI
+} from "@google/genai";
+
+/**
+ * The parts of a model response GeminiService actually reads. Kept as plain
+ * data (rather than the SDK's response class) so it can be serialized to and
+ * served from fixture files.
+ */
+export interface ModelResponse {
+  text: string | undefined;
+  candidates?: Candidate[];
+  usageMetadata?: GenerateContentResponseUsageMetadata;
+}
+
+export interface ContentGenerator {
+  generateContent(params: GenerateContentParameters): Promise<ModelResponse>;
+}
+
+/**
+ * Talks to the Gemini API directly.
+ */
+export class LiveContentGenerator implements ContentGenerator {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateContent(params: GenerateContentParameters): Promise<ModelResponse> {
+    const response = await this.ai.models.generateContent(params);
+    return {
+      text: response.text,
+      candidates: response.candidates,
+      usageMetadata: response.usageMetadata
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { DisplaySettings } from "../types";
+import { DEFAULT_DISPLAY_SETTINGS } from "../constants";
+import { appLogger } from "../utils/logger";
+
+const DISPLAY_KEY = 'probable_play_display_settings_v1';
+
+type DisplayListener = (settings: DisplaySettings) => void;
+
+const listeners = new Set<DisplayListener>();
+let cached: DisplaySettings | null = null;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const sanitize = (stored: Partial<DisplaySettings>): DisplaySettings => {
+  const settings = { ...DEFAULT_DISPLAY_SETTINGS, ...stored };
+  if (settings.timeZone !== null && !isValidTimeZone(settings.timeZone)) {
+    appLogger.warn(`Ignoring unknown display time zone "${settings.timeZone}"`);
+    settings.timeZone = null;
+  }
+  if (!['auto', '12h', '24h'].includes(settings.hourCycle)) settings.hourCycle = 'auto';
+  return settings;
+};
+
+/**
+ * How times are shown. Kept in memory after the first read, so components can
+ * call `get()` while rendering and compare the result by identity.
+ */
+export const displaySettings = {
+  get: (): DisplaySettings => {
+    if (cached) return cached;
+    try {
+      const stored = localStorage.getItem(DISPLAY_KEY);
+      cached = sanitize(stored ? JSON.parse(stored) : {});
+    } catch (e) {
+      appLogger.warn('Failed to load display settings', e);
+      cached = { ...DEFAULT_DISPLAY_SETTINGS };
+    }
+    return cached;
+  },
+
+  save: (settings: DisplaySettings) => {
+    if (settings.timeZone !== null && !isValidTimeZone(settings.timeZone)) {
+      throw new Error(`Unknown time zone "${settings.timeZone}"`);
+    }
+    cached = { ...settings };
+    localStorage.setItem(DISPLAY_KEY, JSON.stringify(cached));
+    listeners.forEach((listener) => listener(cached!));
+  },
+
+  reset: (): DisplaySettings => {
+    localStorage.removeItem(DISPLAY_KEY);
+    cached = { ...DEFAULT_DISPLAY_SETTINGS };
+    listeners.forEach((listener) => listener(cached!));
+    return cached;
+  },
+
+  subscribe: (listener: DisplayListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
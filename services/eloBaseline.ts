@@ -0,0 +1,204 @@
+import { Match, PredictionProbabilities, HistoryItem, BacktestResultItem } from "../types";
+import { DEFAULT_ELO_SPORT, ELO_PARAMETERS, EloParameters } from "../constants";
+import { Outcome, pickWinner, predictedOutcome } from "../utils/outcomes";
+import { historyService } from "./historyService";
+import { backtestHistory } from "./backtestHistory";
+import { canonicalMatchKey, teamRegistry } from "./teamRegistry";
+import { allowsDraw } from "./sportRegistry";
+
+export interface RatedGame {
+  key: string;
+  date: string; // YYYY-MM-DD
+  sport: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+}
+
+export interface TeamRating {
+  rating: number;
+  games: number;
+}
+
+export interface BaselinePrediction {
+  probabilities: PredictionProbabilities;
+  home: TeamRating;
+  away: TeamRating;
+}
+
+export interface BaselineComparison {
+  n: number; // settled predictions scored by both models
+  aiAccuracy: number; // percent
+  baselineAccuracy: number; // percent
+  liftPp: number; // AI minus baseline, percentage points
+}
+
+// Ratings follow the registry, so "Man Utd" and "Manchester United" share one
+const teamKey = (sport: string, name: string) => `${sport}|${teamRegistry.keyOf(sport, name)}`;
+
+const paramsFor = (sport: string): EloParameters => ELO_PARAMETERS[sport] ?? ELO_PARAMETERS[DEFAULT_ELO_SPORT];
+
+/**
+ * Identifies one real-world game, so the same fixture seen in history and in
+ * a backtest is only rated once.
+ */
+export const gameKey = (sport: string, date: string, homeTeam: string, awayTeam: string) =>
+  canonicalMatchKey({ sport, homeTeam, awayTeam, startTime: date });
+
+/**
+ * Plain Elo with home advantage. Draw probability peaks for evenly matched
+ * sides and shrinks as the rating gap grows, while keeping the home side's
+ * expected score equal to P(home) + P(draw) / 2.
+ */
+export class EloRatingEngine {
+  private ratings = new Map<string, TeamRating>();
+  private preGame = new Map<string, PredictionProbabilities>();
+
+  constructor(games: RatedGame[]) {
+    [...games]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach((game) => {
+        // Recorded before the update so evaluation never sees the result
+        this.preGame.set(game.key, this.probabilities(game.sport, game.homeTeam, game.awayTeam));
+        this.update(game);
+      });
+  }
+
+  private rating(sport: string, team: string): TeamRating {
+    return this.ratings.get(teamKey(sport, team)) ?? { rating: paramsFor(sport).initialRating, games: 0 };
+  }
+
+  private probabilities(sport: string, homeTeam: string, awayTeam: string): PredictionProbabilities {
+    const params = paramsFor(sport);
+    const diff = this.rating(sport, homeTeam).rating + params.homeAdvantage - this.rating(sport, awayTeam).rating;
+    const expectedHome = 1 / (1 + 10 ** (-diff / 400));
+    const maxDraw = allowsDraw(sport) ? params.maxDrawProbability : 0;
+    const draw = maxDraw * (1 - (2 * expectedHome - 1) ** 2);
+
+    const homeWin = Math.max(0.01, expectedHome - draw / 2);
+    const awayWin = Math.max(0.01, 1 - expectedHome - draw / 2);
+    const sum = homeWin + draw + awayWin;
+    return { homeWin: homeWin / sum, draw: draw / sum, awayWin: awayWin / sum };
+  }
+
+  private update(game: RatedGame) {
+    const params = paramsFor(game.sport);
+    const home = this.rating(game.sport, game.homeTeam);
+    const away = this.rating(game.sport, game.awayTeam);
+
+    const diff = home.rating + params.homeAdvantage - away.rating;
+    const expectedHome = 1 / (1 + 10 ** (-diff / 400));
+    const actualHome = game.homeScore > game.awayScore ? 1 : game.homeScore < game.awayScore ? 0 : 0.5;
+    const margin = params.scaleByMargin ? Math.max(1, Math.log(Math.abs(game.homeScore - game.awayScore) + 1)) : 1;
+    const delta = params.kFactor * margin * (actualHome - expectedHome);
+
+    this.ratings.set(teamKey(game.sport, game.homeTeam), { rating: home.rating + delta, games: home.games + 1 });
+    this.ratings.set(teamKey(game.sport, game.awayTeam), { rating: away.rating - delta, games: away.games + 1 });
+  }
+
+  /**
+   * Baseline for an upcoming match, from every rated game so far.
+   */
+  predict(match: Pick<Match, 'sport' | 'homeTeam' | 'awayTeam'>): BaselinePrediction {
+    return {
+      probabilities: this.probabilities(match.sport, match.homeTeam, match.awayTeam),
+      home: this.rating(match.sport, match.homeTeam),
+      away: this.rating(match.sport, match.awayTeam)
+    };
+  }
+
+  /**
+   * What the baseline would have said before a rated game was played.
+   */
+  preGameProbabilities(key: string): PredictionProbabilities | undefined {
+    return this.preGame.get(key);
+  }
+
+  forHistoryItem(item: HistoryItem): PredictionProbabilities | undefined {
+    return this.preGame.get(gameKey(item.match.sport, item.match.startTime, item.match.homeTeam, item.match.awayTeam));
+  }
+
+  forBacktestItem(item: BacktestResultItem): PredictionProbabilities | undefined {
+    return this.preGame.get(gameKey(item.sport ?? DEFAULT_ELO_SPORT, item.date, item.homeTeam, item.awayTeam));
+  }
+}
+
+/**
+ * Finished games from prediction history and saved backtests, one per fixture.
+ */
+export const collectRatedGames = (history: HistoryItem[]): RatedGame[] => {
+  const games = new Map<string, RatedGame>();
+
+  history.forEach((item) => {
+    if (!item.result?.isFinished) return;
+    const key = gameKey(item.match.sport, item.match.startTime, item.match.homeTeam, item.match.awayTeam);
+    games.set(key, {
+      key,
+      date: item.match.startTime.slice(0, 10),
+      sport: item.match.sport,
+      homeTeam: item.match.homeTeam,
+      awayTeam: item.match.awayTeam,
+      homeScore: item.result.homeScore,
+      awayScore: item.result.awayScore
+    });
+  });
+
+  backtestHistory.getAll().forEach((item) => {
+    const key = gameKey(item.sport ?? DEFAULT_ELO_SPORT, item.date, item.homeTeam, item.awayTeam);
+    if (games.has(key)) return;
+    games.set(key, {
+      key,
+      date: item.date.slice(0, 10),
+      sport: item.sport ?? DEFAULT_ELO_SPORT,
+      homeTeam: item.homeTeam,
+      awayTeam: item.awayTeam,
+      homeScore: item.actualHomeScore,
+      awayScore: item.actualAwayScore
+    });
+  });
+
+  return Array.from(games.values());
+};
+
+export const buildEloBaseline = (history: HistoryItem[]) => new EloRatingEngine(collectRatedGames(history));
+
+// For callers that do not already hold the history
+export const loadEloBaseline = async () => buildEloBaseline(await historyService.getHistory());
+
+/**
+ * Accuracy of the AI and the baseline on the same settled predictions.
+ * Returns null when there is nothing to compare.
+ */
+export const compareWithBaseline = (
+  rows: Array<{ ai: Outcome; baseline: PredictionProbabilities | undefined; actual: Outcome }>
+): BaselineComparison | null => {
+  const scored = rows.filter((row) => row.baseline);
+  if (scored.length === 0) return null;
+
+  const aiCorrect = scored.filter((row) => row.ai === row.actual).length;
+  const baselineCorrect = scored.filter((row) => pickWinner(row.baseline!) === row.actual).length;
+  const aiAccuracy = (aiCorrect / scored.length) * 100;
+  const baselineAccuracy = (baselineCorrect / scored.length) * 100;
+
+  return {
+    n: scored.length,
+    aiAccuracy: Math.round(aiAccuracy),
+    baselineAccuracy: Math.round(baselineAccuracy),
+    liftPp: Math.round(aiAccuracy - baselineAccuracy)
+  };
+};
+
+export const compareHistoryWithBaseline = (items: HistoryItem[], engine: EloRatingEngine) =>
+  compareWithBaseline(items.flatMap((item) => {
+    const ai = predictedOutcome(item);
+    if (!item.result?.isFinished || !ai) return [];
+    return [{ ai, baseline: engine.forHistoryItem(item), actual: item.result.winner }];
+  }));
+
+export const compareBacktestWithBaseline = (items: BacktestResultItem[], engine: EloRatingEngine) =>
+  compareWithBaseline(items.map((item) => ({
+    ai: item.predictedWinner,
+    baseline: engine.forBacktestItem(item),
+    actual: item.actualWinner
+  })));
@@ -0,0 +1,152 @@
+import { Match, PredictionResult, PredictionProbabilities, EnsembleAggregation, EnsembleSummary, OutcomeDispersion, GroundingSource, MarketPrediction } from "../types";
+import { ENSEMBLE_DEFAULTS } from "../constants";
+import { appLogger } from "../utils/logger";
+import { PredictionProvider, RequestOptions } from "./predictionProvider";
+import { isAbortError } from "./errors";
+import { addUsage } from "./usageLedger";
+import { marketsFor, normalizeMarkets, normalizeProbabilities, uniformProbabilities } from "./sportRegistry";
+
+export interface EnsembleOptions extends RequestOptions {
+  samples?: number;
+  aggregation?: EnsembleAggregation;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const OUTCOMES: (keyof PredictionProbabilities)[] = ['homeWin', 'draw', 'awayWin'];
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const dispersion = (values: number[]): OutcomeDispersion => {
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / values.length;
+  return { min: Math.min(...values), max: Math.max(...values), stdDev: Math.sqrt(variance) };
+};
+
+/**
+ * Combines sampled 1X2 estimates into one distribution. Each outcome is
+ * aggregated independently, so the result is renormalized to sum to 1 over
+ * the sport's outcomes.
+ */
+export const aggregateProbabilities = (
+  samples: PredictionProbabilities[],
+  aggregation: EnsembleAggregation,
+  sport: string
+): { probabilities: PredictionProbabilities; spread: EnsembleSummary['spread'] } => {
+  if (samples.length === 0) {
+    throw new Error('Cannot aggregate an empty ensemble');
+  }
+
+  const combine = aggregation === 'median' ? median : mean;
+  const raw = {} as PredictionProbabilities;
+  const spread = {} as EnsembleSummary['spread'];
+  OUTCOMES.forEach((outcome) => {
+    const values = samples.map((s) => s[outcome]);
+    raw[outcome] = combine(values);
+    spread[outcome] = dispersion(values);
+  });
+
+  const probabilities = normalizeProbabilities(raw, sport) ?? uniformProbabilities(sport);
+
+  return { probabilities, spread };
+};
+
+/**
+ * Combines each extra market selection by selection across the samples that
+ * priced it, then renormalizes per market like the win market.
+ */
+export const aggregateMarkets = (
+  samples: Array<MarketPrediction[] | undefined>,
+  aggregation: EnsembleAggregation,
+  match: Match
+): MarketPrediction[] => {
+  const combine = aggregation === 'median' ? median : mean;
+  const raw = marketsFor(match).map((market) => {
+    const priced = samples
+      .map((markets) => markets?.find((m) => m.id === market.id))
+      .filter((m): m is MarketPrediction => !!m);
+    return {
+      id: market.id,
+      selections: priced.length === 0 ? [] : market.selections.map((name) => ({
+        name,
+        probability: combine(priced.map((m) => m.selections.find((s) => s.name === name)?.probability ?? 0))
+      }))
+    };
+  });
+  return normalizeMarkets(raw, match);
+};
+
+const distance = (a: PredictionProbabilities, b: PredictionProbabilities) =>
+  OUTCOMES.reduce((sum, outcome) => sum + Math.abs(a[outcome] - b[outcome]), 0);
+
+/**
+ * Runs `samples` independent predictions and returns one result whose
+ * probabilities are the aggregate. The narrative comes from the sample closest
+ * to the aggregate; sources are merged across samples. Failed samples are
+ * dropped as long as enough succeed.
+ */
+export const runEnsemblePrediction = async (
+  provider: PredictionProvider,
+  match: Match,
+  options: EnsembleOptions = {}
+): Promise<PredictionResult> => {
+  const total = Math.max(1, options.samples ?? ENSEMBLE_DEFAULTS.samples);
+  const aggregation = options.aggregation ?? ENSEMBLE_DEFAULTS.aggregation;
+  const required = Math.min(total, ENSEMBLE_DEFAULTS.minSuccessfulSamples);
+  let completed = 0;
+
+  options.onProgress?.(0, total);
+  const settled = await Promise.allSettled(
+    Array.from({ length: total }, () =>
+      provider.predictMatch(match, { signal: options.signal }).finally(() => {
+        completed++;
+        if (!options.signal?.aborted) options.onProgress?.(completed, total);
+      })
+    )
+  );
+
+  options.signal?.throwIfAborted();
+
+  const results: PredictionResult[] = [];
+  const failures: unknown[] = [];
+  settled.forEach((outcome) => {
+    if (outcome.status === 'fulfilled') results.push(outcome.value);
+    else failures.push(outcome.reason);
+  });
+
+  const abort = failures.find(isAbortError);
+  if (abort) throw abort;
+
+  if (results.length < required) {
+    throw failures[0] ?? new Error('Ensemble produced no samples');
+  }
+  if (failures.length > 0) {
+    appLogger.warn(`Ensemble for ${match.id}: ${failures.length}/${total} samples failed`, failures);
+  }
+
+  const { probabilities, spread } = aggregateProbabilities(results.map((r) => r.probabilities), aggregation, match.sport);
+  const representative = results.reduce((best, r) =>
+    distance(r.probabilities, probabilities) < distance(best.probabilities, probabilities) ? r : best
+  );
+
+  const sources = new Map<string, GroundingSource>();
+  results.forEach((r) => r.sources.forEach((s) => sources.set(s.uri, s)));
+
+  return {
+    ...representative,
+    probabilities,
+    markets: aggregateMarkets(results.map((r) => r.markets), aggregation, match),
+    sources: Array.from(sources.values()),
+    lastUpdated: new Date().toISOString(),
+    ensemble: { samples: results.length, aggregation, spread },
+    // Failed samples are still billed; they show in the usage ledger but not here
+    usage: results.every((r) => r.usage)
+      ? results.map((r) => r.usage!).reduce(addUsage)
+      : undefined
+  };
+};
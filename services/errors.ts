@@ -0,0 +1,74 @@
+/**
+ * Raised when a model response cannot be read as JSON at all.
+ */
+export class ResponseParseError extends Error {
+  constructor(message: string, readonly rawText: string) {
+    super(message);
+    this.name = 'ResponseParseError';
+  }
+}
+
+/**
+ * Raised when a parsed response does not match its declared schema.
+ * `field` is a JSON path such as `likelyScorers[1].likelihood`.
+ */
+export class SchemaValidationError extends Error {
+  constructor(readonly schemaName: string, readonly field: string, readonly reason: string) {
+    super(`${schemaName}: ${field} ${reason}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Raised in replay mode when no fixture was recorded for a prompt.
+ */
+export class ReplayMissError extends Error {
+  constructor(
+    readonly key: string,
+    readonly prompt: string,
+    readonly nearest: { prompt: string; similarity: number } | null
+  ) {
+    const hint = nearest
+      ? `Nearest recorded prompt (${Math.round(nearest.similarity * 100)}% similar): "${nearest.prompt.slice(0, 200)}${nearest.prompt.length > 200 ? '...' : ''}"`
+      : 'No fixtures have been recorded.';
+    super(`No recorded response for prompt ${key}. ${hint}`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+/**
+ * Raised before a prediction request when today's estimated spend has
+ * already reached the configured daily cap.
+ */
+export class SpendCapError extends Error {
+  constructor(readonly spentUsd: number, readonly capUsd: number) {
+    super(`Daily spend cap reached ($${spentUsd.toFixed(2)} of $${capUsd.toFixed(2)}). Raise the cap on the Usage screen or try again tomorrow.`);
+    this.name = 'SpendCapError';
+  }
+}
+
+export type RequestErrorKind = 'quota' | 'auth' | 'network' | 'parse' | 'unknown';
+
+/**
+ * Final error surfaced by the request executor once retries are exhausted
+ * (or skipped because the failure is not retryable).
+ */
+export class RequestError extends Error {
+  constructor(
+    readonly kind: RequestErrorKind,
+    readonly operation: string,
+    readonly attempts: number,
+    readonly cause: unknown
+  ) {
+    const detail = cause instanceof Error ? cause.message : String(cause);
+    super(`${operation} failed after ${attempts} attempt${attempts === 1 ? '' : 's'} (${kind}): ${detail}`);
+    this.name = 'RequestError';
+  }
+}
+
+/**
+ * True for the error raised when an AbortSignal cancels a request.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException && error.name === 'AbortError') ||
+  (error instanceof Error && error.name === 'AbortError');
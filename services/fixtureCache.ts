@@ -0,0 +1,149 @@
+import { Match } from "../types";
+import { FIXTURE_CACHE_RETENTION_DAYS, FIXTURE_CACHE_TTL_MS } from "../constants";
+import { DateKey, addDays, todayKey } from "../utils/dates";
+import { appLogger } from "../utils/logger";
+import { PredictionProvider, RequestOptions, providerRegistry } from "./predictionProvider";
+import { isAbortError } from "./errors";
+import { rekeyMatch } from "./teamRegistry";
+import { commitMigration, migrateRecords } from "./schemaMigrations";
+import { FIXTURE_CACHE_SCHEMA, FixtureCacheRecord } from "./storeSchemas";
+
+const CACHE_KEY = 'probable_play_fixtures_v1';
+// Single-day cache used before fixtures were stored per date
+const LEGACY_CACHE_KEY = 'probable_play_matches_cache_v2';
+
+type CachedFixtures = Omit<FixtureCacheRecord, 'date'>;
+
+// Returns whether the write succeeded
+const writeAll = (entries: Record<DateKey, CachedFixtures>): boolean => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(entries));
+    localStorage.removeItem(LEGACY_CACHE_KEY);
+    return true;
+  } catch (e) {
+    appLogger.warn('Failed to write fixture cache', e);
+    return false;
+  }
+};
+
+// Each cached day is migrated and validated on read; unreadable days are quarantined
+const readAll = (): Record<DateKey, CachedFixtures> => {
+  let stored: Record<DateKey, CachedFixtures>;
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    stored = raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    appLogger.warn('Failed to read fixture cache', e);
+    return {};
+  }
+  const records = Object.entries(stored).map(([date, entry]) => ({ ...entry, date }));
+  const { records: valid, rejected, migrated } = migrateRecords(FIXTURE_CACHE_SCHEMA, records);
+  const entries = Object.fromEntries(valid.map(({ date, ...entry }) => [date, entry]));
+  if (migrated || rejected.length > 0) {
+    const written = writeAll(entries);
+    if (written && migrated) commitMigration(FIXTURE_CACHE_SCHEMA);
+  }
+  return entries;
+};
+
+/**
+ * Fixture lists keyed by local date. Past dates stay valid (their fixtures do
+ * not change); today and future dates expire after FIXTURE_CACHE_TTL_MS.
+ */
+export const fixtureCache = {
+  get: (date: DateKey, providerId: string): Match[] | null => {
+    const entry = readAll()[date];
+    if (!entry || entry.providerId !== providerId || entry.matches.length === 0) return null;
+    if (date >= todayKey() && Date.now() - entry.fetchedAt > FIXTURE_CACHE_TTL_MS) return null;
+    return entry.matches;
+  },
+
+  set: (date: DateKey, providerId: string, matches: Match[]) => {
+    const cutoff = addDays(todayKey(), -FIXTURE_CACHE_RETENTION_DAYS);
+    const entries = Object.fromEntries(Object.entries(readAll()).filter(([key]) => key >= cutoff));
+    entries[date] = { fetchedAt: Date.now(), providerId, matches };
+    writeAll(entries);
+  },
+
+  /**
+   * Replaces cached copies of the given matches (matched by id) wherever they
+   * are stored, so status and score changes survive a reload.
+   */
+  update: (matches: Match[]) => {
+    const byId = new Map(matches.map((m) => [m.id, m]));
+    const entries = readAll();
+    let changed = false;
+    Object.values(entries).forEach((entry) => {
+      entry.matches = entry.matches.map((m) => {
+        const next = byId.get(m.id);
+        if (!next) return m;
+        changed = true;
+        return next;
+      });
+    });
+    if (changed) writeAll(entries);
+  },
+
+  /**
+   * Brings cached names and ids up to date with the team registry (see
+   * `rekeyMatch`), so a merge does not leave fixtures under stale ids.
+   */
+  applyRegistry: () => {
+    const entries = readAll();
+    let changed = false;
+    Object.values(entries).forEach((entry) => {
+      entry.matches = entry.matches.map((m) => {
+        const next = rekeyMatch(m);
+        if (next.id !== m.id || next.homeTeam !== m.homeTeam || next.awayTeam !== m.awayTeam || next.league !== m.league) changed = true;
+        return next;
+      });
+    });
+    if (changed) writeAll(entries);
+  },
+
+  clear: () => {
+    localStorage.removeItem(CACHE_KEY);
+  }
+};
+
+export interface FixtureLoadResult {
+  matches: Match[];
+  failures: Array<{ date: DateKey; error: unknown }>;
+}
+
+/**
+ * Fixtures for several dates, from the cache where possible. Dates are
+ * fetched one at a time; a failed date is reported without discarding the
+ * others. Matches are deduplicated by id and sorted by kickoff.
+ *
+ * A replaying provider bypasses the cache in both directions, so every
+ * browsed date is served from its recorded fixture and replayed data never
+ * reaches the live cache.
+ */
+export const loadFixtures = async (
+  provider: PredictionProvider,
+  dates: DateKey[],
+  options: RequestOptions & { forceRefresh?: boolean } = {}
+): Promise<FixtureLoadResult> => {
+  const byId = new Map<string, Match>();
+  const failures: FixtureLoadResult['failures'] = [];
+  const useCache = providerRegistry.modeOf(provider) !== 'replay';
+
+  for (const date of dates) {
+    let matches = options.forceRefresh || !useCache ? null : fixtureCache.get(date, provider.id);
+    if (!matches) {
+      try {
+        matches = await provider.fetchMatches(date, { signal: options.signal });
+        if (useCache && matches.length > 0) fixtureCache.set(date, provider.id, matches);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        failures.push({ date, error });
+        continue;
+      }
+    }
+    matches.forEach((match) => byId.set(match.id, match));
+  }
+
+  const matches = Array.from(byId.values()).sort((a, b) => a.startTime.localeCompare(b.startTime));
+  return { matches, failures };
+};
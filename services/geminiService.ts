@@ -1,237 +1,211 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { Match, PredictionResult, MatchResult, HistoryItem, BacktestResultItem, DetailedForecastResult } from "../types";
+import { GenerateContentConfig } from "@google/genai";
+import { Match, PredictionResult, MatchResult, HistoryItem, BacktestCandidate, BacktestResultItem, DetailedForecastResult, BasketballForecastResult, PredictionType, ModelOperation, ModelSettings } from "../types";
 import { appLogger } from "../utils/logger";
+import { PredictionDescriptor, PredictionProvider, RequestOptions } from "./predictionProvider";
+import { isAbortError, SchemaValidationError } from "./errors";
+import { parseStructuredResponse, withResponseSchema } from "./structuredOutput";
+import { ContentGenerator } from "./contentGenerator";
+import { GeminiMode, createContentGenerator, resolveGeminiMode } from "./recordReplay";
+import { RequestExecutor, requestExecutor } from "./requestExecutor";
+import { modelSettingsService } from "./modelSettings";
+import { PromptTemplate } from "./promptRegistry";
+import { usageLedger, addUsage, EMPTY_USAGE } from "./usageLedger";
+import { checkForecastConsistency, describeViolations } from "./consistencyChecker";
+import { canonicalMatchKey, canonicalizeMatch } from "./teamRegistry";
+import { allowsDraw, describeSport, marketsFor, normalizeMarkets, normalizeProbabilities, sportRegistry, usesBasketballForecast } from "./sportRegistry";
+import { normalizeBasketballForecast } from "./basketballForecast";
+import { pickWinner, winnerFromScore } from "../utils/outcomes";
+import { DateKey, formatLongDate, toDateKey, todayKey } from "../utils/dates";
+import {
+  SCHEDULE_PROMPT,
+  STANDARD_PREDICTION_PROMPT,
+  DETAILED_FORECAST_PROMPT,
+  DETAILED_FORECAST_REASK_PROMPT,
+  BASKETBALL_FORECAST_PROMPT,
+  MATCH_RESULTS_PROMPT,
+  BACKTEST_CANDIDATES_PROMPT,
+  BACKTEST_PREDICTION_PROMPT
+} from "./prompts";
+import {
+  ResponseSchema,
+  SCHEDULE_SCHEMA,
+  STANDARD_PREDICTION_SCHEMA,
+  detailedForecastSchema,
+  RawDetailedForecast,
+  BASKETBALL_FORECAST_SCHEMA,
+  MATCH_RESULTS_SCHEMA,
+  BACKTEST_CANDIDATES_SCHEMA,
+  BACKTEST_PREDICTION_SCHEMA
+} from "./responseSchemas";
+
+const PREDICTION_OPERATIONS: Record<PredictionType, ModelOperation> = {
+  STANDARD: 'standard',
+  DETAILED: 'detailed'
+};
+
+// Operations refused once the daily spend cap is hit; fixtures and results stay available
+const CAPPED_OPERATIONS: ModelOperation[] = ['standard', 'detailed', 'backtest'];
 
-// Helper to get today's date in readable format
-const getTodayString = () => {
-  return new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+const PREDICTION_PROMPTS: Record<PredictionType, PromptTemplate<any>> = {
+  STANDARD: STANDARD_PREDICTION_PROMPT,
+  DETAILED: DETAILED_FORECAST_PROMPT
 };
 
-export class GeminiService {
-  private ai: GoogleGenAI;
+const getTodayString = () => formatLongDate(todayKey());
+
+// Kickoff date in the user's calendar, which is what "tomorrow" means to them
+const getMatchDateString = (match: Match) => formatLongDate(toDateKey(new Date(match.startTime)));
+
+export class GeminiService implements PredictionProvider {
+  readonly id = 'gemini';
+  readonly label = 'Google Gemini';
+
+  readonly mode: GeminiMode;
+  private generator: ContentGenerator;
   private apiKey: string;
 
-  constructor() {
+  constructor(generator?: ContentGenerator, private executor: RequestExecutor = requestExecutor) {
     this.apiKey = process.env.API_KEY || '';
-    this.ai = new GoogleGenAI({ apiKey: this.apiKey });
+    this.mode = resolveGeminiMode();
+    this.generator = generator ?? createContentGenerator(this.mode, this.apiKey);
   }
 
+  // Replay serves recorded fixtures, so it works without an API key
   get isConfigured() {
-    return !!this.apiKey;
+    return !!this.apiKey || this.mode === 'replay';
   }
 
-  private normalizeProbability(value: unknown): number {
-    const parsed = typeof value === 'number' ? value : Number(value);
-    if (!Number.isFinite(parsed)) return 0;
-    return Math.max(0, Math.min(1, parsed));
+  describePrediction(type: PredictionType, sport?: string): PredictionDescriptor {
+    const prompt = type === 'DETAILED' && sport && usesBasketballForecast(sport) ? BASKETBALL_FORECAST_PROMPT : PREDICTION_PROMPTS[type];
+    return this.describe(PREDICTION_OPERATIONS[type], prompt);
   }
 
-  private buildNormalizedProbabilities(raw: {
-    homeWinProbability?: unknown;
-    drawProbability?: unknown;
-    awayWinProbability?: unknown;
-  }) {
-    let homeWin = this.normalizeProbability(raw.homeWinProbability);
-    let draw = this.normalizeProbability(raw.drawProbability);
-    let awayWin = this.normalizeProbability(raw.awayWinProbability);
-
-    const sum = homeWin + draw + awayWin;
-    if (sum <= 0) {
-      return { homeWin: 0.34, draw: 0.32, awayWin: 0.34 };
-    }
-
-    homeWin = homeWin / sum;
-    draw = draw / sum;
-    awayWin = awayWin / sum;
-
-    return { homeWin, draw, awayWin };
+  private describe(operation: ModelOperation, prompt: PromptTemplate<any>): PredictionDescriptor {
+    const settings = modelSettingsService.get(operation);
+    return { providerId: this.id, model: settings.model, promptId: prompt.id, promptVersion: prompt.version, settings };
   }
 
-  private normalizePeriodWinner(value: unknown): 'Home' | 'Draw' | 'Away' {
-    if (value === 'Home' || value === 'Draw' || value === 'Away') {
-      return value;
-    }
-    return 'Draw';
+  private buildConfig(settings: ModelSettings): GenerateContentConfig {
+    const config: GenerateContentConfig = {};
+    if (settings.grounding) config.tools = [{ googleSearch: {} }];
+    if (settings.systemInstruction.trim()) config.systemInstruction = settings.systemInstruction;
+    if (settings.temperature !== null) config.temperature = settings.temperature;
+    if (settings.thinkingBudget !== null) config.thinkingConfig = { thinkingBudget: settings.thinkingBudget };
+    return config;
   }
 
-  private normalizePercentString(value: unknown): string {
-    if (typeof value === 'string' && /%/.test(value)) return value;
-    const numeric = Number(value);
-    if (!Number.isFinite(numeric)) return '0%';
-    return `${Math.max(0, Math.min(100, Math.round(numeric)))}%`;
+  // Any draw probability is dropped for sports without a draw before rescaling
+  private buildNormalizedProbabilities(
+    raw: { homeWinProbability: number; drawProbability: number; awayWinProbability: number },
+    schemaName: string,
+    sport: string
+  ) {
+    const normalized = normalizeProbabilities(
+      { homeWin: raw.homeWinProbability, draw: raw.drawProbability, awayWin: raw.awayWinProbability },
+      sport
+    );
+    if (!normalized) {
+      throw new SchemaValidationError(schemaName, '$', `has no probability on any ${sport} outcome`);
+    }
+    return normalized;
   }
 
-  private normalizeBacktestCandidate(row: any): { date: string; homeTeam: string; awayTeam: string; homeScore: number; awayScore: number } | null {
-    if (!row || !row.date || !row.homeTeam || !row.awayTeam) return null;
-    const homeScore = Number(row.homeScore);
-    const awayScore = Number(row.awayScore);
-    if (!Number.isFinite(homeScore) || !Number.isFinite(awayScore)) return null;
-    return {
-      date: String(row.date),
-      homeTeam: String(row.homeTeam),
-      awayTeam: String(row.awayTeam),
-      homeScore,
-      awayScore
-    };
+  private formatPercent(value: number): string {
+    return `${Math.round(value)}%`;
   }
 
   /**
-   * Helper to parse JSON from AI response
+   * Sends a prompt paired with its response schema through the shared executor
+   * (retries, backoff, budget) and returns the validated payload alongside the
+   * raw response (needed for grounding metadata). Parse failures are retried too.
+   * Model and generation config come from the user's settings for `modelOperation`.
+   * Token usage of every attempt (failed parses included) goes to the usage
+   * ledger and is returned summed; replayed responses cost nothing.
    */
-  private cleanAndParseJson(text: string): any {
-    const tryParse = (str: string) => {
-      try {
-        return JSON.parse(str);
-      } catch (e) {
-        return null;
-      }
-    };
-
-    if (!text) throw new Error("Empty response from AI");
-
-    const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (codeBlockMatch) {
-      const result = tryParse(codeBlockMatch[1]);
-      if (result) return result;
-    }
-
-    const firstOpen = text.search(/[\{\[]/);
-    const lastClose = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
-    
-    if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
-      const substring = text.substring(firstOpen, lastClose + 1);
-      const result = tryParse(substring);
-      if (result) return result;
-    }
+  private async generateStructured<T>(
+    operation: string,
+    modelOperation: ModelOperation,
+    prompt: string,
+    responseSchema: ResponseSchema<T>,
+    signal?: AbortSignal
+  ) {
+    if (CAPPED_OPERATIONS.includes(modelOperation)) usageLedger.assertWithinDailyCap();
+
+    const settings = modelSettingsService.get(modelOperation);
+    const request = withResponseSchema(prompt, { ...this.buildConfig(settings), abortSignal: signal }, responseSchema);
+    let usage = EMPTY_USAGE;
+
+    return this.executor.execute(operation, async () => {
+      const response = await this.generator.generateContent({
+        model: settings.model,
+        contents: request.contents,
+        config: request.config
+      });
 
-    let cleaned = text.replace(/```json|```/g, '').trim();
-    if (cleaned.toLowerCase().startsWith('json')) {
-        cleaned = cleaned.substring(4).trim();
-    }
-    
-    const finalAttempt = tryParse(cleaned);
-    if (finalAttempt) return finalAttempt;
+      if (this.mode !== 'replay') {
+        const attemptUsage = usageLedger.measure(response, settings.model);
+        usageLedger.record(modelOperation, settings.model, attemptUsage);
+        usage = addUsage(usage, attemptUsage);
+      }
 
-    appLogger.error("Failed to parse JSON response", { rawText: text });
-    throw new Error("Invalid JSON response from AI");
+      try {
+        return { data: parseStructuredResponse(response.text, responseSchema), response, usage };
+      } catch (error) {
+        appLogger.error(`Structured output rejected for ${responseSchema.name}`, { error, rawText: response.text });
+        throw error;
+      }
+    }, signal);
   }
 
   /**
-   * Fetches today's matches.
+   * Fetches the matches on a local calendar date (YYYY-MM-DD).
    */
-  async fetchTodaysMatches(): Promise<Match[]> {
+  async fetchMatches(date: DateKey, options: RequestOptions = {}): Promise<Match[]> {
     if (!this.isConfigured) throw new Error("API Key missing");
 
-    const today = getTodayString();
-    
-    const prompt = `
-      Find the schedule for major sports matches taking place today, ${today}.
-      Focus on:
-      1. Football (Soccer): Premier League, Bundesliga, La Liga, Serie A, Ligue 1, Eredivisie, Champions League.
-      2. Basketball: NBA.
-      
-      List at least 5-10 key matches if available.
-      
-      CRITICAL TIMEZONE INSTRUCTION:
-      - You MUST return all start times in UTC (Coordinated Universal Time) ISO 8601 format ending with 'Z'.
-      - FOR NBA GAMES: Convert ET to UTC.
-
-      Strictly return a JSON array of objects.
-      Output format:
-      [
-        {
-          "sport": "Football or NBA",
-          "league": "League Name",
-          "homeTeam": "Home Team Name",
-          "awayTeam": "Away Team Name",
-          "startTime": "2023-MM-DDTHH:mm:ssZ" 
-        }
-      ]
-    `;
+    const prompt = SCHEDULE_PROMPT.render({
+      date: formatLongDate(date),
+      sports: sportRegistry.list().map((d) => ({ id: d.id, label: d.label, leagues: d.leagues, notes: d.scheduleNotes }))
+    });
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          tools: [{ googleSearch: {} }],
-          systemInstruction: "You are a sports scheduler helper. Accurately retrieve today's fixtures and output valid JSON with strictly UTC timestamps."
-        }
+      const { data } = await this.generateStructured('fetchMatches', 'schedule', prompt, SCHEDULE_SCHEMA, options.signal);
+
+      // Names are learned here so later spellings of the same teams resolve to them
+      return data.map((m): Match => {
+        const fixture = canonicalizeMatch(
+          { sport: m.sport, league: m.league, homeTeam: m.homeTeam, awayTeam: m.awayTeam, startTime: m.startTime, ...(m.bestOf ? { bestOf: m.bestOf } : {}) },
+          { learn: true }
+        );
+        return { ...fixture, id: canonicalMatchKey(fixture), status: 'Scheduled' };
       });
 
-      const text = response.text;
-      if (!text) return [];
-
-      const matchesData = this.cleanAndParseJson(text);
-      
-      if (Array.isArray(matchesData)) {
-        return matchesData
-        .filter((m: any) => m?.homeTeam && m?.awayTeam && m?.startTime)
-        .map((m: any) => {
-          const slug = `${m.homeTeam}-${m.awayTeam}-${m.startTime}`.toLowerCase().replace(/[^a-z0-9]/g, '');
-          return {
-            sport: m.sport || 'Football',
-            league: m.league || 'Unknown League',
-            homeTeam: m.homeTeam,
-            awayTeam: m.awayTeam,
-            startTime: m.startTime,
-            id: slug || `gm-${Date.now()}-${Math.random()}`,
-            status: 'Scheduled'
-          };
-        });
-      }
-      return [];
-
     } catch (error) {
-      appLogger.error("Failed to fetch matches", error);
-      return [];
+      if (!isAbortError(error)) appLogger.error("Failed to fetch matches", error);
+      throw error;
     }
   }
 
   /**
    * Standard Prediction (Overview)
    */
-  async predictMatch(match: Match): Promise<PredictionResult> {
+  async predictMatch(match: Match, options: RequestOptions = {}): Promise<PredictionResult> {
     if (!this.isConfigured) throw new Error("API Key missing");
 
-    const today = getTodayString();
-
-    const prompt = `
-      Analyze the ${match.sport} match between ${match.homeTeam} (Home) and ${match.awayTeam} (Away) scheduled for today, ${today}.
-      League: ${match.league}.
-
-      Use Google Search to find:
-      1. Recent form, H2H history, injuries.
-      2. League standings context.
-
-      Based on this data, estimate the probabilities of a Home Win, Draw, and Away Win.
-      
-      Strictly return a JSON object:
-      {
-        "homeWinProbability": number (0-1),
-        "drawProbability": number (0-1),
-        "awayWinProbability": number (0-1),
-        "summary": "Concise 2-3 sentence summary",
-        "detailedAnalysis": "2 paragraphs analyzing form and key factors",
-        "keyFactors": ["List of 3-5 key brief strings"]
-      }
-    `;
+    const prompt = STANDARD_PREDICTION_PROMPT.render({
+      sport: match.sport,
+      allowsDraw: allowsDraw(match.sport),
+      markets: marketsFor(match),
+      league: match.league,
+      homeTeam: match.homeTeam,
+      awayTeam: match.awayTeam,
+      today: getTodayString(),
+      matchDate: getMatchDateString(match)
+    });
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          tools: [{ googleSearch: {} }],
-          systemInstruction: "You are an expert sports analyst. Provide data-driven probabilities in JSON."
-        }
-      });
-
-      const text = response.text;
-      if (!text) throw new Error("No response from AI");
-
-      const data = this.cleanAndParseJson(text);
+      const { data, response, usage } = await this.generateStructured('predictMatch', 'standard', prompt, STANDARD_PREDICTION_SCHEMA, options.signal);
 
       const sources: {title: string, uri: string}[] = [];
       const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
@@ -243,129 +217,131 @@ export class GeminiService {
         });
       }
 
-      const probabilities = this.buildNormalizedProbabilities(data);
-
       return {
         matchId: match.id,
-        probabilities,
-        summary: typeof data.summary === 'string' ? data.summary : 'Prediction generated from available data.',
-        detailedAnalysis: typeof data.detailedAnalysis === 'string' ? data.detailedAnalysis : 'Detailed analysis unavailable.',
-        keyFactors: Array.isArray(data.keyFactors) ? data.keyFactors : [],
+        probabilities: this.buildNormalizedProbabilities(data, STANDARD_PREDICTION_SCHEMA.name, match.sport),
+        markets: normalizeMarkets(data.markets, match),
+        summary: data.summary,
+        detailedAnalysis: data.detailedAnalysis,
+        keyFactors: data.keyFactors,
         sources: sources,
-        lastUpdated: new Date().toISOString()
+        lastUpdated: new Date().toISOString(),
+        usage
       };
 
     } catch (error) {
-      appLogger.error("Prediction failed", error);
+      if (!isAbortError(error)) appLogger.error("Prediction failed", error);
       throw error;
     }
   }
 
+  private toDetailedForecast(match: Match, data: RawDetailedForecast): DetailedForecastResult {
+    return {
+      matchId: match.id,
+      predictedScore: data.predictedScore,
+      totalGoals: data.totalGoals,
+      expectedGoals: data.expectedGoals,
+      firstTeamToScore: data.firstTeamToScore,
+      halfTimeWinner: data.halfTimeWinner,
+      secondHalfWinner: data.secondHalfWinner,
+      
+      // Absent when the sport's schema did not ask for them
+      likelyScorers: data.likelyScorers?.map((s) => ({
+        player: s.player,
+        team: s.team,
+        method: s.method,
+        likelihood: this.formatPercent(s.likelihood)
+      })),
+      
+      scoringMethodProbabilities: data.scoringMethodProbabilities && {
+        penalty: this.formatPercent(data.scoringMethodProbabilities.penalty),
+        freeKick: this.formatPercent(data.scoringMethodProbabilities.freeKick),
+        cornerHeader: this.formatPercent(data.scoringMethodProbabilities.cornerHeader),
+        ownGoal: this.formatPercent(data.scoringMethodProbabilities.ownGoal),
+        outsideBox: this.formatPercent(data.scoringMethodProbabilities.outsideBox)
+      },
+
+      redCards: data.redCards,
+      confidenceScore: data.confidenceScore,
+      reasoning: data.reasoning
+    };
+  }
+
   /**
    * Detailed Forecast (High Precision Mode)
-   * Uses low temperature and thinking logic for maximum accuracy.
+   * Defaults to low temperature and a thinking budget for maximum accuracy.
+   * The answer is checked against the consistency rules; when the settings
+   * allow it, a failing answer is re-asked once with the broken rules quoted.
+   * The re-ask is kept only if it breaks fewer rules.
    */
-  async getDetailedForecast(match: Match): Promise<DetailedForecastResult> {
+  async getDetailedForecast(match: Match, options: RequestOptions = {}): Promise<DetailedForecastResult> {
     if (!this.isConfigured) throw new Error("API Key missing");
     
-    const today = getTodayString();
+    const { detailedFields, scoring, periods } = describeSport(match.sport);
+    const prompt = DETAILED_FORECAST_PROMPT.render({
+      sport: match.sport,
+      league: match.league,
+      homeTeam: match.homeTeam,
+      awayTeam: match.awayTeam,
+      today: getTodayString(),
+      matchDate: getMatchDateString(match),
+      fields: detailedFields,
+      scoring,
+      periods
+    });
+    const schema = detailedForecastSchema(match.sport);
 
-    const prompt = `
-      Perform a PROFESSIONAL, HIGH-STAKES statistical forecast for the ${match.sport} match between ${match.homeTeam} and ${match.awayTeam} (${today}).
-      
-      PROTOCOL:
-      1. DATA SEARCH (Mandatory):
-         - Search for "Expected Goals (xG) last 5 matches" for both teams.
-         - Search for "Head-to-Head results last 3 years".
-         - Search for "CONFIRMED injury list today".
-         - Search for "Referee yellow/red card average".
-         
-      2. LOGIC (Chain of Thought):
-         - Compare attacking strength vs defensive weakness.
-         - If key scorer is injured -> reduce Total Goals prediction.
-         - If Head-to-Head is tight -> predict Draw or narrow win.
-         - DO NOT BE VAGUE. Calculate the most statistically probable outcome.
-         - CONSISTENCY CHECK: If you predict 0-0, you cannot predict a "First Scorer". If you predict "Over 2.5 goals", the Exact Score must have 3+ goals.
-
-      REQUIRED OUTPUT DATA:
-      1. EXACT SCORE: Most probable numeric scoreline based on xG (e.g., "2-1").
-      2. TOTAL GOALS: "Under X" or "Over X" based on defensive stats.
-      3. FIRST TEAM TO SCORE: Based on early-game scoring stats.
-      4. HALF TIME / SECOND HALF: Winner of each specific period.
-      5. SCORERS: Top 2-3 players with HIGHEST xG. Include method (Penalty, Header, etc.).
-      6. PROBABILITIES: Specific % chance for events.
-      7. RED CARDS: "0" or "1+". Only predict "1+" if referee is strict or teams are aggressive.
-      8. REASONING: Citing specific stats (e.g. "Arsenal xG is 2.1 vs Liverpool 1.4").
-
-      Strictly return a JSON object matching this schema:
-      {
-         "predictedScore": "string",
-         "totalGoals": "string",
-         "firstTeamToScore": "string",
-         "halfTimeWinner": "Home" | "Draw" | "Away",
-         "secondHalfWinner": "Home" | "Draw" | "Away",
-         "likelyScorers": [
-            { "player": "Name", "team": "Team Name", "method": "Header/Shot/Penalty", "likelihood": "45%" }
-         ],
-         "scoringMethodProbabilities": {
-            "penalty": "25%",
-            "freeKick": "5%",
-            "cornerHeader": "15%",
-            "ownGoal": "2%",
-            "outsideBox": "10%"
-         },
-         "redCards": "0 (90%)",
-         "confidenceScore": "High" | "Medium" | "Low",
-         "reasoning": "Brief data-driven explanation."
+    try {
+      const first = await this.generateStructured('getDetailedForecast', 'detailed', prompt, schema, options.signal);
+      const forecast = this.toDetailedForecast(match, first.data);
+      const violations = checkForecastConsistency(forecast, match);
+
+      if (violations.length === 0 || !modelSettingsService.get('detailed').reaskOnInconsistency) {
+        return { ...forecast, usage: first.usage, consistency: { violations, reasked: false } };
       }
-    `;
 
-    try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          temperature: 0.1, // EXTREMELY LOW TEMPERATURE FOR DETERMINISTIC, CONSISTENT RESULTS
-          thinkingConfig: { thinkingBudget: 2048 }, // FORCE DEEP THINKING / CALCULATION
-          tools: [{ googleSearch: {} }],
-          systemInstruction: "You are a ruthless algorithmic betting model. You do not guess. You only predict what is supported by hard statistics (xG, H2H, Form). If data is conflicting, choose the conservative outcome. Be precise."
-        }
+      appLogger.warn(`Detailed forecast for ${match.id} broke ${violations.length} consistency rule(s); re-asking`, violations);
+      const reaskPrompt = DETAILED_FORECAST_REASK_PROMPT.render({
+        originalPrompt: prompt,
+        previousAnswer: JSON.stringify(first.data),
+        violations: describeViolations(violations)
       });
+      const second = await this.generateStructured('getDetailedForecast:reask', 'detailed', reaskPrompt, schema, options.signal);
+      const revised = this.toDetailedForecast(match, second.data);
+      const revisedViolations = checkForecastConsistency(revised, match);
+      const usage = addUsage(first.usage, second.usage);
+      const consistency = { reasked: true, initialViolations: violations };
+
+      return revisedViolations.length < violations.length
+        ? { ...revised, usage, consistency: { ...consistency, violations: revisedViolations } }
+        : { ...forecast, usage, consistency: { ...consistency, violations } };
+    } catch (error) {
+      if (!isAbortError(error)) appLogger.error("Detailed forecast failed", error);
+      throw error;
+    }
+  }
 
-      const text = response.text;
-      const data = this.cleanAndParseJson(text);
+  /**
+   * Basketball counterpart of the detailed forecast, sharing its model
+   * settings. Lines and stat projections are normalized before returning.
+   */
+  async getBasketballForecast(match: Match, options: RequestOptions = {}): Promise<BasketballForecastResult> {
+    if (!this.isConfigured) throw new Error("API Key missing");
 
-      return {
-        matchId: match.id,
-        predictedScore: data.predictedScore || "N/A",
-        totalGoals: data.totalGoals || "N/A",
-        firstTeamToScore: data.firstTeamToScore || "Unknown",
-        halfTimeWinner: this.normalizePeriodWinner(data.halfTimeWinner),
-        secondHalfWinner: this.normalizePeriodWinner(data.secondHalfWinner),
-        
-        likelyScorers: Array.isArray(data.likelyScorers)
-          ? data.likelyScorers.filter((s: any) => s?.player && s?.team).slice(0, 5).map((s: any) => ({
-              player: String(s.player),
-              team: String(s.team),
-              method: typeof s.method === 'string' ? s.method : 'Shot',
-              likelihood: this.normalizePercentString(s.likelihood)
-            }))
-          : [],
-        
-        scoringMethodProbabilities: {
-          penalty: this.normalizePercentString(data.scoringMethodProbabilities?.penalty),
-          freeKick: this.normalizePercentString(data.scoringMethodProbabilities?.freeKick),
-          cornerHeader: this.normalizePercentString(data.scoringMethodProbabilities?.cornerHeader),
-          ownGoal: this.normalizePercentString(data.scoringMethodProbabilities?.ownGoal),
-          outsideBox: this.normalizePercentString(data.scoringMethodProbabilities?.outsideBox)
-        },
-
-        redCards: data.redCards || "0 (90%)",
-        confidenceScore: data.confidenceScore || "Medium",
-        reasoning: data.reasoning || "Based on recent statistics."
-      };
+    const prompt = BASKETBALL_FORECAST_PROMPT.render({
+      sport: match.sport,
+      league: match.league,
+      homeTeam: match.homeTeam,
+      awayTeam: match.awayTeam,
+      today: getTodayString(),
+      matchDate: getMatchDateString(match)
+    });
+
+    try {
+      const { data, usage } = await this.generateStructured('getBasketballForecast', 'detailed', prompt, BASKETBALL_FORECAST_SCHEMA, options.signal);
+      return { ...normalizeBasketballForecast(match, data), usage };
     } catch (error) {
-      appLogger.error("Detailed forecast failed", error);
+      if (!isAbortError(error)) appLogger.error("Basketball forecast failed", error);
       throw error;
     }
   }
@@ -373,117 +349,94 @@ export class GeminiService {
   /**
    * Fetches results for a list of past matches.
    */
-  async fetchMatchResults(historyItems: HistoryItem[]): Promise<Map<string, MatchResult>> {
-    if (!this.isConfigured || historyItems.length === 0) return new Map();
-
-    const matchesList = historyItems.map(h => ({
-      id: h.match.id,
-      home: h.match.homeTeam,
-      away: h.match.awayTeam,
-      date: h.match.startTime
+  async fetchMatchResults(historyItems: HistoryItem[], options: RequestOptions = {}): Promise<Map<string, MatchResult>> {
+    const results = await this.queryScores('fetchMatchResults', historyItems.map(h => h.match), options.signal);
+    // History only records final results
+    results.forEach((result, id) => {
+      if (!result.isFinished) results.delete(id);
+    });
+    return results;
+  }
+
+  /**
+   * Current scores for matches in progress and final scores for finished ones.
+   */
+  async fetchLiveScores(matches: Match[], options: RequestOptions = {}): Promise<Map<string, MatchResult>> {
+    return this.queryScores('fetchLiveScores', matches, options.signal);
+  }
+
+  private async queryScores(operation: string, matches: Match[], signal?: AbortSignal): Promise<Map<string, MatchResult>> {
+    if (!this.isConfigured || matches.length === 0) return new Map();
+
+    const matchesList = matches.map(m => ({
+      id: m.id,
+      home: m.homeTeam,
+      away: m.awayTeam,
+      date: m.startTime
     }));
 
-    const prompt = `
-      I have a list of sports matches. I need to know the final score and winner for each.
-      Matches: ${JSON.stringify(matchesList)}
-      Use Google Search. Output strictly a JSON array: [{"id": "...", "homeScore": 1, "awayScore": 0, "winner": "Home", "isFinished": true}]
-    `;
+    const prompt = MATCH_RESULTS_PROMPT.render({ matches: matchesList });
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          tools: [{ googleSearch: {} }]
-        }
-      });
-
-      const text = response.text;
-      if (!text) return new Map();
+      const { data } = await this.generateStructured(operation, 'results', prompt, MATCH_RESULTS_SCHEMA, signal);
 
-      const results = this.cleanAndParseJson(text);
       const resultMap = new Map<string, MatchResult>();
-
-      if (Array.isArray(results)) {
-        results.forEach((r: any) => {
-          if (r.id && r.isFinished) {
-            resultMap.set(r.id, {
-              homeScore: r.homeScore,
-              awayScore: r.awayScore,
-              winner: r.winner,
-              isFinished: true
-            });
-          }
+      data.forEach((r) => {
+        resultMap.set(r.id, {
+          homeScore: r.homeScore,
+          awayScore: r.awayScore,
+          winner: r.winner,
+          isFinished: r.isFinished
         });
-      }
+      });
       return resultMap;
 
     } catch (error) {
-      appLogger.error("Failed to fetch results", error);
-      return new Map();
+      if (!isAbortError(error)) appLogger.error("Failed to fetch results", error);
+      throw error;
     }
   }
 
   // --- Backtest Methods ---
-  async fetchBacktestCandidates(sport: string, league: string, teams: string[], count: number): Promise<any[]> {
+  async fetchBacktestCandidates(sport: string, league: string, teams: string[], count: number, options: RequestOptions = {}): Promise<BacktestCandidate[]> {
     if (!this.isConfigured) throw new Error("API Key missing");
     const safeCount = Math.min(count, 5);
-    const teamStr = teams.join(' OR ');
-    
-    const prompt = `
-      Find the last ${safeCount} COMPLETED matches involving ANY of: ${teamStr}.
-      Sport: ${sport}, League: ${league}.
-      Output JSON array: [{"date": "YYYY-MM-DD", "homeTeam": "Name", "awayTeam": "Name", "homeScore": 1, "awayScore": 2}]
-    `;
+
+    const prompt = BACKTEST_CANDIDATES_PROMPT.render({ count: safeCount, teams, sport, league });
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: { tools: [{ googleSearch: {} }] }
-      });
-      const data = this.cleanAndParseJson(response.text);
-      if (!Array.isArray(data)) return [];
-      return data
-        .map((item) => this.normalizeBacktestCandidate(item))
-        .filter((item): item is { date: string; homeTeam: string; awayTeam: string; homeScore: number; awayScore: number } => !!item);
+      const { data } = await this.generateStructured('fetchBacktestCandidates', 'backtest', prompt, BACKTEST_CANDIDATES_SCHEMA, options.signal);
+      return data;
     } catch (e) {
+      if (isAbortError(e)) throw e;
       appLogger.warn('Failed to fetch backtest candidates', e);
       return [];
     }
   }
 
-  async runBacktestPrediction(matchData: any): Promise<BacktestResultItem> {
+  async runBacktestPrediction(matchData: BacktestCandidate, options: RequestOptions = {}): Promise<BacktestResultItem> {
     const matchDate = new Date(matchData.date);
     const simDate = new Date(matchDate);
     simDate.setDate(matchDate.getDate() - 1);
     const simDateStr = simDate.toLocaleDateString();
 
-    const prompt = `
-      SIMULATION DATE: ${simDateStr}.
-      Predict ${matchData.homeTeam} vs ${matchData.awayTeam} (${matchData.date}).
-      Do not check actual results.
-      Return JSON: {"homeWinProbability": 0.5, "drawProbability": 0.2, "awayWinProbability": 0.3, "explanation": "..."}
-    `;
+    const sport = matchData.sport ?? 'Football';
+    const prompt = BACKTEST_PREDICTION_PROMPT.render({
+      sport,
+      allowsDraw: allowsDraw(sport),
+      simulationDate: simDateStr,
+      homeTeam: matchData.homeTeam,
+      awayTeam: matchData.awayTeam,
+      matchDate: matchData.date
+    });
+    const generatedBy = this.describe('backtest', BACKTEST_PREDICTION_PROMPT);
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: { tools: [{ googleSearch: {} }] }
-      });
-      const p = this.cleanAndParseJson(response.text);
+      const { data: p } = await this.generateStructured('runBacktestPrediction', 'backtest', prompt, BACKTEST_PREDICTION_SCHEMA, options.signal);
       
-      let actualWinner: 'Home' | 'Draw' | 'Away' = 'Draw';
-      if (matchData.homeScore > matchData.awayScore) actualWinner = 'Home';
-      if (matchData.awayScore > matchData.homeScore) actualWinner = 'Away';
-
-      const normalized = this.buildNormalizedProbabilities(p);
-
-      let predictedWinner: 'Home' | 'Draw' | 'Away' = 'Draw';
-      let maxProb = normalized.draw;
-      if (normalized.homeWin > maxProb) { maxProb = normalized.homeWin; predictedWinner = 'Home'; }
-      if (normalized.awayWin > maxProb) { predictedWinner = 'Away'; }
+      const actualWinner = winnerFromScore(matchData.homeScore, matchData.awayScore);
+      const normalized = this.buildNormalizedProbabilities(p, BACKTEST_PREDICTION_SCHEMA.name, sport);
+      const predictedWinner = pickWinner(normalized, sport);
 
       return {
         id: `bt-${Date.now()}-${Math.random()}`,
@@ -496,14 +449,16 @@ export class GeminiService {
         predictedWinner,
         predictedProbabilities: normalized,
         isCorrect: predictedWinner === actualWinner,
-        explanation: typeof p.explanation === 'string' ? p.explanation : 'Prediction generated from historical simulation inputs.'
+        explanation: p.explanation,
+        generatedBy
       };
     } catch (e) {
+      if (isAbortError(e)) throw e;
       appLogger.warn('Backtest prediction failed for candidate', { matchData, error: e });
       return {
         id: `err-${Date.now()}`, date: matchData.date, homeTeam: matchData.homeTeam, awayTeam: matchData.awayTeam,
         actualHomeScore: 0, actualAwayScore: 0, actualWinner: 'Draw', predictedWinner: 'Draw',
-        predictedProbabilities: { homeWin: 0, draw: 0, awayWin: 0 }, isCorrect: false, explanation: "Error"
+        predictedProbabilities: { homeWin: 0, draw: 0, awayWin: 0 }, isCorrect: false, explanation: "Error", generatedBy
       };
     }
   }
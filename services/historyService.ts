@@ -1,80 +1,232 @@
+import { HistoryItem, HistoryRetention, Match, PredictionResult, DetailedForecastResult, BasketballForecastResult, MatchResult, PredictionType, PredictionDescriptor } from "../types";
+import { DEFAULT_HISTORY_RETENTION } from "../constants";
+import { canonicalMatchKey, rekeyMatch } from "./teamRegistry";
+import { usesBasketballForecast } from "./sportRegistry";
+import { openHistoryStore, ResultStatus, resultStatusOf } from "./historyStore";
+import { appLogger } from "../utils/logger";
 
-import { HistoryItem, Match, PredictionResult, DetailedForecastResult, MatchResult, PredictionType } from "../types";
+const RETENTION_KEY = 'probable_play_history_retention_v1';
+const DAY = 24 * 60 * 60 * 1000;
 
-const HISTORY_KEY = 'probable_play_history_v2';
+export interface HistoryQuery {
+  matchId?: string;
+  league?: string;
+  type?: PredictionType;
+  resultStatus?: ResultStatus;
+  since?: number; // timestamp, inclusive
+  until?: number; // timestamp, inclusive
+  limit?: number; // newest first
+}
 
+type HistoryListener = () => void;
+
+const listeners = new Set<HistoryListener>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const newestFirst = (items: HistoryItem[]) => items.sort((a, b) => b.timestamp - a.timestamp);
+
+const isLimit = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+
+const matchesQuery = (item: HistoryItem, query: HistoryQuery) =>
+  (query.matchId === undefined || item.match.id === query.matchId) &&
+  (query.league === undefined || item.match.league === query.league) &&
+  (query.type === undefined || item.type === query.type) &&
+  (query.resultStatus === undefined || resultStatusOf(item) === query.resultStatus) &&
+  (query.since === undefined || item.timestamp >= query.since) &&
+  (query.until === undefined || item.timestamp <= query.until);
+
+// Reads through the most selective index the query allows, then filters the rest in memory
+const readIndexed = async (query: HistoryQuery): Promise<HistoryItem[]> => {
+  const store = await openHistoryStore();
+  if (query.matchId !== undefined) return store.getByIndex('matchId', query.matchId);
+  if (query.league !== undefined) return store.getByIndex('league', query.league);
+  if (query.since !== undefined || query.until !== undefined) {
+    return store.getByIndex('timestamp', { lower: query.since, upper: query.until });
+  }
+  if (query.resultStatus !== undefined) return store.getByIndex('resultStatus', query.resultStatus);
+  if (query.type !== undefined) return store.getByIndex('type', query.type);
+  return store.getAll();
+};
+
+/**
+ * Ids the retention policy would drop from `history`. Items past the age
+ * limit go first, then anything beyond the newest `maxItems`.
+ */
+const expiredIds = (history: HistoryItem[], retention: HistoryRetention, now: number): string[] => {
+  const sorted = newestFirst([...history]);
+  const cutoff = retention.maxAgeDays === null ? -Infinity : now - retention.maxAgeDays * DAY;
+  return sorted
+    .filter((item, i) => item.timestamp < cutoff || (retention.maxItems !== null && i >= retention.maxItems))
+    .map((item) => item.id);
+};
+
+/**
+ * Prediction history, persisted in IndexedDB (see services/historyStore).
+ * Every snapshot is kept unless the user sets a retention policy.
+ */
 export const historyService = {
-  getHistory: (): HistoryItem[] => {
+  getHistory: async (): Promise<HistoryItem[]> => {
     try {
-      const stored = localStorage.getItem(HISTORY_KEY);
-      return stored ? JSON.parse(stored) : [];
+      const store = await openHistoryStore();
+      return newestFirst(await store.getAll());
     } catch (e) {
-      console.error("Failed to load history", e);
+      appLogger.error('Failed to load history', e);
       return [];
     }
   },
 
-  savePrediction: (
-    match: Match, 
-    data: PredictionResult | DetailedForecastResult, 
-    type: PredictionType
-  ) => {
-    const history = historyService.getHistory();
-    
+  query: async (query: HistoryQuery): Promise<HistoryItem[]> => {
+    const items = newestFirst((await readIndexed(query)).filter((item) => matchesQuery(item, query)));
+    return query.limit === undefined ? items : items.slice(0, query.limit);
+  },
+
+  savePrediction: async (
+    match: Match,
+    data: PredictionResult | DetailedForecastResult | BasketballForecastResult,
+    type: PredictionType,
+    generatedBy?: PredictionDescriptor
+  ): Promise<HistoryItem> => {
+    const store = await openHistoryStore();
+
     // User requested to APPEND history rather than replace, to allow comparing different runs.
     // We create a unique ID every time.
-    
+
+    const basketball = type === 'DETAILED' && usesBasketballForecast(match.sport);
     const newItem: HistoryItem = {
       id: crypto.randomUUID ? crypto.randomUUID() : `hist-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       match,
       type,
       timestamp: Date.now(),
+      generatedBy,
+      usage: data.usage,
       // Conditionally assign data based on type
       standardPrediction: type === 'STANDARD' ? (data as PredictionResult) : undefined,
-      detailedForecast: type === 'DETAILED' ? (data as DetailedForecastResult) : undefined
+      detailedForecast: type === 'DETAILED' && !basketball ? (data as DetailedForecastResult) : undefined,
+      basketballForecast: basketball ? (data as BasketballForecastResult) : undefined
     };
 
-    // If there was a previous result for this match ID, try to carry it over so we don't lose the "Pending/Finished" status
-    // just because we re-ran the AI.
-    const previousEntry = history.find(h => h.match.id === match.id && h.result);
+    // If there was a previous result for this fixture, try to carry it over so we don't lose the "Pending/Finished" status
+    // just because we re-ran the AI. Fixtures are compared by canonical key, so a different spelling of the teams still matches.
+    const snapshots = await store.getByIndex('matchKey', canonicalMatchKey(match));
+    const previousEntry = snapshots.find(h => h.result);
     if (previousEntry) {
       newItem.result = previousEntry.result;
     }
 
-    // Add to beginning of list (Newest first)
-    history.unshift(newItem);
-    
-    // Optional: Limit history size to prevent localStorage overflow (e.g., keep last 50)
-    if (history.length > 50) {
-        history.pop();
-    }
-    
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+    await store.put([newItem]);
+    await historyService.applyRetention();
+    notify();
+    return newItem;
   },
 
-  updateResult: (matchId: string, result: MatchResult) => {
-    const history = historyService.getHistory();
-    let updated = false;
+  updateResult: async (match: Match, result: MatchResult): Promise<boolean> => {
+    const store = await openHistoryStore();
+
+    // Update all history items for this fixture (since we might have multiple snapshots of the same game)
+    const snapshots = await store.getByIndex('matchKey', canonicalMatchKey(match));
+    if (snapshots.length === 0) return false;
 
-    // Update all history items for this match ID (since we might have multiple snapshots of the same game)
+    await store.put(snapshots.map(h => ({ ...h, result })));
+    notify();
+    return true;
+  },
+
+  /**
+   * Rewrites stored team and league names to their current canonical form,
+   * e.g. after duplicates were merged in the registry, rebuilds match ids and
+   * the matchKey index from the current canonical key, and shares a known
+   * result with every snapshot of the same fixture. Returns how many items changed.
+   */
+  applyRegistry: async (): Promise<number> => {
+    const store = await openHistoryStore();
+    const history = await store.getAll();
+    const results = new Map<string, MatchResult>();
     history.forEach(h => {
-      if (h.match.id === matchId) {
-        h.result = result;
-        updated = true;
-      }
+      if (h.result) results.set(canonicalMatchKey(h.match), h.result);
     });
-    
-    if (updated) {
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+
+    const changed: HistoryItem[] = [];
+    history.forEach(h => {
+      const match = rekeyMatch(h.match);
+      const result = h.result ?? results.get(canonicalMatchKey(match));
+      const renamed = match.homeTeam !== h.match.homeTeam || match.awayTeam !== h.match.awayTeam || match.league !== h.match.league;
+      if (renamed || match.id !== h.match.id || result !== h.result) changed.push({ ...h, match, result });
+    });
+
+    if (changed.length > 0) await store.put(changed);
+    // A name kept as stored can still resolve to a different entry now
+    await store.reindex();
+    if (changed.length > 0) notify();
+    return changed.length;
+  },
+
+  /**
+   * Writes items as they are, keeping their ids (see services/historyTransfer).
+   * Existing items with the same id are replaced.
+   */
+  importItems: async (items: HistoryItem[]): Promise<void> => {
+    if (items.length === 0) return;
+    const store = await openHistoryStore();
+    await store.put(items);
+    await historyService.applyRetention();
+    notify();
+  },
+
+  deleteItems: async (ids: string[]): Promise<void> => {
+    const store = await openHistoryStore();
+    await store.remove(ids);
+    notify();
+  },
+
+  getRetention: (): HistoryRetention => {
+    try {
+      const stored = localStorage.getItem(RETENTION_KEY);
+      const retention = { ...DEFAULT_HISTORY_RETENTION, ...(stored ? JSON.parse(stored) : {}) };
+      return {
+        maxAgeDays: isLimit(retention.maxAgeDays) ? retention.maxAgeDays : null,
+        maxItems: isLimit(retention.maxItems) ? retention.maxItems : null
+      };
+    } catch (e) {
+      appLogger.warn('Failed to load history retention settings', e);
+      return { ...DEFAULT_HISTORY_RETENTION };
     }
-    return updated;
   },
-  
-  // Helper to delete specific items if needed
-  deleteItems: (ids: string[]) => {
-      let history = historyService.getHistory();
-      history = history.filter(h => !ids.includes(h.id));
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
-      return history;
+
+  /**
+   * Stores the policy and prunes straight away. Returns how many items were removed.
+   */
+  saveRetention: async (retention: HistoryRetention): Promise<number> => {
+    if (!isLimit(retention.maxAgeDays) || !isLimit(retention.maxItems)) {
+      throw new Error('Retention limits must be whole numbers above zero, or empty for no limit');
+    }
+    localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+    const removed = await historyService.applyRetention();
+    if (removed > 0) notify();
+    return removed;
+  },
+
+  /**
+   * Drops items outside the retention policy. A no-op with the default
+   * policy. Returns how many items were removed.
+   */
+  applyRetention: async (now: number = Date.now()): Promise<number> => {
+    const retention = historyService.getRetention();
+    if (retention.maxAgeDays === null && retention.maxItems === null) return 0;
+    const store = await openHistoryStore();
+    const ids = expiredIds(await store.getAll(), retention, now);
+    if (ids.length > 0) {
+      await store.remove(ids);
+      appLogger.info(`Retention policy removed ${ids.length} history item(s)`);
+    }
+    return ids.length;
+  },
+
+  subscribe: (listener: HistoryListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
   }
 };
@@ -0,0 +1,278 @@
+import { HistoryItem } from "../types";
+import { canonicalMatchKey } from "./teamRegistry";
+import { commitMigration, migrateRecords } from "./schemaMigrations";
+import { HISTORY_SCHEMA } from "./storeSchemas";
+import { appLogger } from "../utils/logger";
+
+const DB_NAME = 'probable_play';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+
+// History lived in one localStorage blob before the IndexedDB store existed
+export const LEGACY_HISTORY_KEY = 'probable_play_history_v2';
+
+export type ResultStatus = 'pending' | 'settled';
+
+export type HistoryIndex = 'matchId' | 'matchKey' | 'timestamp' | 'league' | 'type' | 'resultStatus';
+
+// Key paths into the stored record; matchKey and resultStatus are derived on write
+const INDEX_PATHS: Record<HistoryIndex, string> = {
+  matchId: 'match.id',
+  matchKey: 'matchKey',
+  timestamp: 'timestamp',
+  league: 'match.league',
+  type: 'type',
+  resultStatus: 'resultStatus'
+};
+
+interface StoredHistoryItem extends HistoryItem {
+  matchKey: string;
+  resultStatus: ResultStatus;
+}
+
+// An exact index value, or an inclusive range for numeric indexes
+export type IndexQuery = string | number | { lower?: number; upper?: number };
+
+/**
+ * Where history items are persisted. Reads come back in no particular order;
+ * callers sort.
+ */
+export interface HistoryBackend {
+  readonly kind: 'indexeddb' | 'localstorage';
+  getAll(): Promise<HistoryItem[]>;
+  getByIndex(index: HistoryIndex, query: IndexQuery): Promise<HistoryItem[]>;
+  put(items: HistoryItem[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  replaceAll(items: HistoryItem[]): Promise<void>;
+  // Recomputes derived index values (matchKey) after the team registry changed
+  reindex(): Promise<void>;
+}
+
+export const resultStatusOf = (item: HistoryItem): ResultStatus => (item.result ? 'settled' : 'pending');
+
+const toStored = (item: HistoryItem): StoredHistoryItem => ({
+  ...item,
+  matchKey: canonicalMatchKey(item.match),
+  resultStatus: resultStatusOf(item)
+});
+
+const fromStored = ({ matchKey, resultStatus, ...item }: StoredHistoryItem): HistoryItem => item;
+
+const isRange = (query: IndexQuery): query is { lower?: number; upper?: number } => typeof query === 'object';
+
+const valueAt = (item: StoredHistoryItem, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, part) => (value as Record<string, unknown> | undefined)?.[part], item);
+
+const matchesQuery = (value: unknown, query: IndexQuery) => {
+  if (!isRange(query)) return value === query;
+  if (typeof value !== 'number') return false;
+  return (query.lower === undefined || value >= query.lower) && (query.upper === undefined || value <= query.upper);
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const toKeyRange = (query: IndexQuery): IDBValidKey | IDBKeyRange => {
+  if (!isRange(query)) return query;
+  const { lower, upper } = query;
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper);
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper);
+  return IDBKeyRange.lowerBound(-Infinity);
+};
+
+class IndexedDbHistoryBackend implements HistoryBackend {
+  readonly kind = 'indexeddb';
+
+  constructor(private db: IDBDatabase) {}
+
+  async getAll(): Promise<HistoryItem[]> {
+    const tx = this.db.transaction(HISTORY_STORE, 'readonly');
+    const items = await promisify<StoredHistoryItem[]>(tx.objectStore(HISTORY_STORE).getAll());
+    return items.map(fromStored);
+  }
+
+  async getByIndex(index: HistoryIndex, query: IndexQuery): Promise<HistoryItem[]> {
+    const tx = this.db.transaction(HISTORY_STORE, 'readonly');
+    const items = await promisify<StoredHistoryItem[]>(tx.objectStore(HISTORY_STORE).index(index).getAll(toKeyRange(query)));
+    return items.map(fromStored);
+  }
+
+  async put(items: HistoryItem[]): Promise<void> {
+    if (items.length === 0) return;
+    const tx = this.db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    items.forEach((item) => store.put(toStored(item)));
+    await completion(tx);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const tx = this.db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    ids.forEach((id) => store.delete(id));
+    await completion(tx);
+  }
+
+  async replaceAll(items: HistoryItem[]): Promise<void> {
+    const tx = this.db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    store.clear();
+    items.forEach((item) => store.put(toStored(item)));
+    await completion(tx);
+  }
+
+  async reindex(): Promise<void> {
+    await this.put(await this.getAll());
+  }
+}
+
+/**
+ * Fallback for browsers without IndexedDB (e.g. some private modes). Keeps
+ * the legacy blob format, so nothing is lost if IndexedDB appears later.
+ */
+class LocalStorageHistoryBackend implements HistoryBackend {
+  readonly kind = 'localstorage';
+
+  private read(): HistoryItem[] {
+    try {
+      const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      appLogger.warn('Failed to load history', e);
+      return [];
+    }
+  }
+
+  private write(items: HistoryItem[]) {
+    localStorage.setItem(LEGACY_HISTORY_KEY, JSON.stringify(items));
+  }
+
+  async getAll(): Promise<HistoryItem[]> {
+    return this.read();
+  }
+
+  async getByIndex(index: HistoryIndex, query: IndexQuery): Promise<HistoryItem[]> {
+    const path = INDEX_PATHS[index];
+    return this.read().filter((item) => matchesQuery(valueAt(toStored(item), path), query));
+  }
+
+  async put(items: HistoryItem[]): Promise<void> {
+    if (items.length === 0) return;
+    const byId = new Map(this.read().map((item) => [item.id, item]));
+    items.forEach((item) => byId.set(item.id, item));
+    this.write(Array.from(byId.values()));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const removed = new Set(ids);
+    this.write(this.read().filter((item) => !removed.has(item.id)));
+  }
+
+  async replaceAll(items: HistoryItem[]): Promise<void> {
+    this.write(items);
+  }
+
+  // Index values are derived on every read here, so there is nothing to refresh
+  async reindex(): Promise<void> {}
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+      (Object.keys(INDEX_PATHS) as HistoryIndex[]).forEach((index) => store.createIndex(index, INDEX_PATHS[index]));
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`${DB_NAME} is open in another tab at an older version`));
+  });
+
+// Each backend's records carry their own schema version, so migrating one never marks the other as current
+const versionSource = (kind: HistoryBackend['kind']) =>
+  kind === 'indexeddb' ? HISTORY_SCHEMA.store : `${HISTORY_SCHEMA.store}.localstorage`;
+
+/**
+ * Copies the legacy localStorage history into IndexedDB once. Items that fail
+ * validation are quarantined instead of copied. The blob is only removed
+ * after the copy commits, so a failed migration is retried on the next load;
+ * re-running it is harmless because items are keyed by id.
+ */
+const migrateLegacyHistory = async (backend: HistoryBackend) => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (stored === null) return;
+  let items: unknown[];
+  try {
+    items = JSON.parse(stored);
+  } catch (e) {
+    appLogger.warn(`Could not parse ${LEGACY_HISTORY_KEY}; leaving it in place`, e);
+    return;
+  }
+  const source = versionSource('localstorage');
+  const { records, migrated } = migrateRecords(HISTORY_SCHEMA, Array.isArray(items) ? items : [], source);
+  await backend.put(records);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  // A blob written later (by the fallback backend) is at the current version
+  if (migrated) commitMigration(HISTORY_SCHEMA, source);
+  appLogger.info(`Migrated ${records.length} history item(s) from localStorage to IndexedDB`);
+};
+
+// Upgrades and validates every stored item once per session, before anything reads them
+const checkStoredHistory = async (backend: HistoryBackend) => {
+  const source = versionSource(backend.kind);
+  const { records, rejected, migrated } = migrateRecords(HISTORY_SCHEMA, await backend.getAll(), source);
+  if (migrated || rejected.length > 0) await backend.replaceAll(records);
+  if (migrated) commitMigration(HISTORY_SCHEMA, source);
+};
+
+const openBackend = async (): Promise<HistoryBackend> => {
+  if (typeof indexedDB === 'undefined') {
+    appLogger.warn('IndexedDB is unavailable; keeping history in localStorage');
+    return new LocalStorageHistoryBackend();
+  }
+  try {
+    const backend = new IndexedDbHistoryBackend(await openDatabase());
+    try {
+      await migrateLegacyHistory(backend);
+    } catch (e) {
+      appLogger.warn('History migration to IndexedDB failed; will retry next load', e);
+    }
+    return backend;
+  } catch (e) {
+    appLogger.warn('Could not open IndexedDB; keeping history in localStorage', e);
+    return new LocalStorageHistoryBackend();
+  }
+};
+
+const connect = async (): Promise<HistoryBackend> => {
+  const backend = await openBackend();
+  try {
+    await checkStoredHistory(backend);
+  } catch (e) {
+    appLogger.error('Failed to check stored history against its schema', e);
+  }
+  return backend;
+};
+
+let backendPromise: Promise<HistoryBackend> | null = null;
+
+/**
+ * The shared history backend. Opened and migrated on first use; every
+ * caller after that gets the same connection.
+ */
+export const openHistoryStore = (): Promise<HistoryBackend> => {
+  if (!backendPromise) backendPromise = connect();
+  return backendPromise;
+};
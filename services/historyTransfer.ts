@@ -0,0 +1,209 @@
+import { HistoryItem } from "../types";
+import { predictedOutcome } from "../utils/outcomes";
+import { upgradeRecords, UNVERSIONED } from "./schemaMigrations";
+import { HISTORY_SCHEMA } from "./storeSchemas";
+import { historyService } from "./historyService";
+import { openHistoryStore } from "./historyStore";
+
+const EXPORT_FORMAT = 'probable-play-history';
+
+/**
+ * Lossless history export. `schemaVersion` is the history schema the items
+ * were written at, so an import from an older build is migrated first.
+ */
+export interface HistoryExportFile {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  items: HistoryItem[];
+}
+
+export interface ImportConflict {
+  id: string;
+  label: string; // "Home vs Away (type)"
+  fields: string[]; // top-level fields that differ
+}
+
+export interface ImportReport {
+  added: number;
+  duplicates: number; // identical to an item already stored
+  conflicts: ImportConflict[];
+  overwritten: number; // conflicts resolved in favour of the file
+  invalid: Array<{ id: string | null; reason: string }>;
+}
+
+export type ConflictPolicy = 'keep-local' | 'use-imported';
+
+export const exportHistoryJson = (items: HistoryItem[]): string => {
+  const file: HistoryExportFile = {
+    format: EXPORT_FORMAT,
+    schemaVersion: HISTORY_SCHEMA.version,
+    exportedAt: new Date().toISOString(),
+    items
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// One row per prediction; columns that do not apply to an item are left blank
+const CSV_COLUMNS: Array<[string, (item: HistoryItem) => CsvValue]> = [
+  ['id', (item) => item.id],
+  ['savedAt', (item) => new Date(item.timestamp).toISOString()],
+  ['type', (item) => item.type],
+  ['sport', (item) => item.match.sport],
+  ['league', (item) => item.match.league],
+  ['homeTeam', (item) => item.match.homeTeam],
+  ['awayTeam', (item) => item.match.awayTeam],
+  ['kickoff', (item) => item.match.startTime],
+  ['providerId', (item) => item.generatedBy?.providerId],
+  ['model', (item) => item.generatedBy?.model],
+  ['promptId', (item) => item.generatedBy?.promptId],
+  ['promptVersion', (item) => item.generatedBy?.promptVersion],
+  ['homeWin', (item) => item.standardPrediction?.probabilities.homeWin],
+  ['draw', (item) => item.standardPrediction?.probabilities.draw],
+  ['awayWin', (item) => item.standardPrediction?.probabilities.awayWin],
+  ['ensembleSamples', (item) => item.standardPrediction?.ensemble?.samples],
+  ['predictedScore', (item) => item.detailedForecast?.predictedScore ?? item.basketballForecast?.predictedScore],
+  ['totalGoals', (item) => item.detailedForecast?.totalGoals],
+  ['expectedGoalsHome', (item) => item.detailedForecast?.expectedGoals?.home],
+  ['expectedGoalsAway', (item) => item.detailedForecast?.expectedGoals?.away],
+  ['firstTeamToScore', (item) => item.detailedForecast?.firstTeamToScore],
+  ['halfTimeWinner', (item) => item.detailedForecast?.halfTimeWinner],
+  ['secondHalfWinner', (item) => item.detailedForecast?.secondHalfWinner],
+  ['redCards', (item) => item.detailedForecast?.redCards],
+  ['pointSpread', (item) => item.basketballForecast?.pointSpread],
+  ['totalPointsLine', (item) => item.basketballForecast?.totalPoints.line],
+  ['totalPointsPick', (item) => item.basketballForecast?.totalPoints.pick],
+  ['overtimeLikelihood', (item) => item.basketballForecast?.overtimeLikelihood],
+  ['confidence', (item) => item.detailedForecast?.confidenceScore ?? item.basketballForecast?.confidenceScore],
+  ['predictedOutcome', (item) => predictedOutcome(item)],
+  ['resultHomeScore', (item) => item.result?.homeScore],
+  ['resultAwayScore', (item) => item.result?.awayScore],
+  ['resultWinner', (item) => item.result?.winner],
+  ['resultFinished', (item) => item.result?.isFinished],
+  ['correct', (item) => {
+    if (!item.result) return null;
+    const pick = predictedOutcome(item);
+    return pick !== null && pick === item.result.winner;
+  }],
+  ['costUsd', (item) => item.usage?.costUsd]
+];
+
+const csvCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flattened export for spreadsheets and notebooks. Lossy: nested data such
+ * as scorers, key factors and reasoning is left out, so it cannot be imported.
+ */
+export const exportHistoryCsv = (items: HistoryItem[]): string => {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = items.map((item) => CSV_COLUMNS.map(([, value]) => csvCell(value(item))).join(','));
+  return [header, ...rows].join('\r\n');
+};
+
+// Key order differs between a file and IndexedDB, so compare with sorted keys
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const differingFields = (local: HistoryItem, imported: HistoryItem): string[] => {
+  const keys = new Set([...Object.keys(local), ...Object.keys(imported)]) as Set<keyof HistoryItem>;
+  return Array.from(keys).filter((key) => stableStringify(local[key]) !== stableStringify(imported[key])).sort();
+};
+
+const labelOf = (item: HistoryItem) => `${item.match.homeTeam} vs ${item.match.awayTeam} (${item.type})`;
+
+/**
+ * Reads an export file. Accepts the export envelope, or a bare item array
+ * such as the old `probable_play_history_v2` localStorage value.
+ */
+export const parseHistoryFile = (text: string): { items: unknown[]; schemaVersion: number } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON. Only JSON exports can be imported; CSV exports are one-way.');
+  }
+  if (Array.isArray(parsed)) return { items: parsed, schemaVersion: UNVERSIONED };
+  const file = parsed as Partial<HistoryExportFile>;
+  if (file?.format !== EXPORT_FORMAT || !Array.isArray(file.items)) {
+    throw new Error('File is not a Probable Play history export.');
+  }
+  if (typeof file.schemaVersion === 'number' && file.schemaVersion > HISTORY_SCHEMA.version) {
+    throw new Error(`File was exported by a newer version (history v${file.schemaVersion}); this build reads up to v${HISTORY_SCHEMA.version}.`);
+  }
+  return { items: file.items, schemaVersion: file.schemaVersion ?? UNVERSIONED };
+};
+
+/**
+ * Merges an export file into stored history. Items are matched by id: new
+ * ids are added, identical items are skipped, and items that differ are
+ * reported as conflicts and resolved by `policy`. Items that fail the
+ * history schema are reported and left out.
+ */
+export const importHistory = async (text: string, policy: ConflictPolicy = 'keep-local'): Promise<ImportReport> => {
+  const { items, schemaVersion } = parseHistoryFile(text);
+  const { records, failures } = upgradeRecords(HISTORY_SCHEMA, items, schemaVersion);
+
+  // Read through the store itself: a failed read must stop the import, not make every item look new
+  let stored: HistoryItem[];
+  try {
+    stored = await (await openHistoryStore()).getAll();
+  } catch (e) {
+    throw new Error(`Could not read stored history to check for conflicts; nothing was imported. ${e instanceof Error ? e.message : ''}`.trim());
+  }
+  const local = new Map(stored.map((item) => [item.id, item]));
+  const report: ImportReport = {
+    added: 0,
+    duplicates: 0,
+    conflicts: [],
+    overwritten: 0,
+    invalid: failures.map(({ record, reason }) => {
+      const id = (record as Partial<HistoryItem> | null)?.id;
+      return { id: typeof id === 'string' ? id : null, reason };
+    })
+  };
+
+  const toWrite: HistoryItem[] = [];
+  const seen = new Set<string>();
+  records.forEach((item) => {
+    // A file that repeats an id keeps its first copy
+    if (seen.has(item.id)) {
+      report.duplicates++;
+      return;
+    }
+    seen.add(item.id);
+
+    const existing = local.get(item.id);
+    if (!existing) {
+      report.added++;
+      toWrite.push(item);
+      return;
+    }
+    const fields = differingFields(existing, item);
+    if (fields.length === 0) {
+      report.duplicates++;
+      return;
+    }
+    report.conflicts.push({ id: item.id, label: labelOf(existing), fields });
+    if (policy === 'use-imported') {
+      report.overwritten++;
+      toWrite.push(item);
+    }
+  });
+
+  await historyService.importItems(toWrite);
+  return report;
+};
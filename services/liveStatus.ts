@@ -0,0 +1,87 @@
+import { Match, MatchResult } from "../types";
+import { RESULT_GRACE_MINUTES } from "../constants";
+import { PredictionProvider, RequestOptions } from "./predictionProvider";
+import { historyService } from "./historyService";
+import { fixtureCache } from "./fixtureCache";
+import { describeSport } from "./sportRegistry";
+import { appLogger } from "../utils/logger";
+
+const MINUTE = 60 * 1000;
+
+const kickoffOf = (match: Match) => new Date(match.startTime).getTime();
+
+const durationOf = (match: Match) => describeSport(match.sport).durationMinutes * MINUTE;
+
+/**
+ * Status implied by the clock alone. Finished is final; otherwise a match is
+ * Live from kickoff until a result arrives or the grace period after its
+ * expected end runs out.
+ */
+export const statusByClock = (match: Match, now: number): Match['status'] => {
+  if (match.status === 'Finished') return 'Finished';
+  const kickoff = kickoffOf(match);
+  if (!Number.isFinite(kickoff) || now < kickoff) return 'Scheduled';
+  return now < kickoff + durationOf(match) + RESULT_GRACE_MINUTES * MINUTE ? 'Live' : 'Finished';
+};
+
+/**
+ * Returns the same array when nothing changed, so callers can skip re-renders.
+ */
+export const advanceByClock = (matches: Match[], now: number = Date.now()): Match[] => {
+  let changed = false;
+  const next = matches.map((match) => {
+    const status = statusByClock(match, now);
+    if (status === match.status) return match;
+    changed = true;
+    return { ...match, status };
+  });
+  return changed ? next : matches;
+};
+
+// Live matches, plus finished-by-clock matches that never got a score
+const needsScore = (match: Match) => match.status === 'Live' || (match.status === 'Finished' && !match.score);
+
+// A match already finished by the clock stays finished even if the source
+// has no final result (e.g. postponed), so it is not polled forever
+const applyResult = (match: Match, result: MatchResult): Match => ({
+  ...match,
+  status: result.isFinished || match.status === 'Finished' ? 'Finished' : 'Live',
+  score: { home: result.homeScore, away: result.awayScore }
+});
+
+export interface LiveRefreshResult {
+  matches: Match[];
+  settled: number; // finished results written to history
+}
+
+/**
+ * Polls scores for matches that are in progress, moves them to Live or
+ * Finished, and records final results in prediction history. Updated matches
+ * are written back to the fixture cache.
+ */
+export const refreshLiveStatus = async (
+  provider: PredictionProvider,
+  matches: Match[],
+  options: RequestOptions = {}
+): Promise<LiveRefreshResult> => {
+  const clocked = advanceByClock(matches);
+  const due = clocked.filter(needsScore);
+  if (due.length === 0) return { matches: clocked, settled: 0 };
+
+  const scores = await provider.fetchLiveScores(due, options);
+  let settled = 0;
+  const updated: Match[] = [];
+  for (const match of clocked) {
+    const result = scores.get(match.id);
+    if (!result || !needsScore(match)) {
+      updated.push(match);
+      continue;
+    }
+    if (result.isFinished && await historyService.updateResult(match, result)) settled++;
+    updated.push(applyResult(match, result));
+  }
+
+  if (settled > 0) appLogger.info(`Recorded ${settled} final result(s) from live status polling`);
+  fixtureCache.update(updated.filter((m) => scores.has(m.id)));
+  return { matches: updated, settled };
+};
@@ -0,0 +1,193 @@
+import { AISnapshot, BacktestResultItem, Estimate, ForecastMetrics, HistoryItem, Outcome, PredictionProbabilities, TrendPoint } from "../types";
+import { DEFAULT_ELO_SPORT } from "../constants";
+import { predictedOutcome } from "../utils/outcomes";
+import { allowsDraw } from "./sportRegistry";
+import { isUsableBacktest } from "./backtestHistory";
+
+// Two-sided 95% normal quantile
+const Z = 1.96;
+// Log loss is capped so one "0%" outcome that happens cannot dominate the mean
+const MIN_PROBABILITY = 0.001;
+// Strongest-outcome probability at which a prediction counts as high / medium confidence
+const HIGH_CONFIDENCE = 0.65;
+const MEDIUM_CONFIDENCE = 0.45;
+
+/**
+ * A settled prediction reduced to what scoring needs. Probabilities are
+ * absent for predictions that only name a pick, such as detailed forecasts,
+ * which then count towards accuracy alone.
+ */
+export interface ScoredForecast {
+  sport: string;
+  probabilities: PredictionProbabilities | null; // fractions of 1, as stored; normalised before scoring
+  pick: Outcome | null; // null when the prediction called nothing (a level score in a sport without draws)
+  actual: Outcome;
+}
+
+export const forecastFromHistory = (item: HistoryItem): ScoredForecast | null => {
+  if (!item.result?.isFinished) return null;
+  const probabilities = item.type === 'STANDARD' ? item.standardPrediction?.probabilities ?? null : null;
+  return { sport: item.match.sport, probabilities, pick: predictedOutcome(item), actual: item.result.winner };
+};
+
+export const forecastFromBacktest = (item: BacktestResultItem): ScoredForecast => ({
+  sport: item.sport ?? DEFAULT_ELO_SPORT,
+  probabilities: item.predictedProbabilities,
+  pick: item.predictedWinner,
+  actual: item.actualWinner
+});
+
+export const historyForecasts = (items: HistoryItem[]): ScoredForecast[] =>
+  items.flatMap((item) => {
+    const forecast = forecastFromHistory(item);
+    return forecast ? [forecast] : [];
+  });
+
+// Failed rows carry a placeholder Draw/Draw pick, so they are left out rather than scored as correct
+export const backtestForecasts = (items: BacktestResultItem[]): ScoredForecast[] =>
+  items.filter(isUsableBacktest).map(forecastFromBacktest);
+
+// Outcomes in rank order; sports without draws drop the middle one
+const outcomesFor = (sport: string): Outcome[] => (allowsDraw(sport) ? ['Home', 'Draw', 'Away'] : ['Home', 'Away']);
+
+const PROBABILITY_KEY: Record<Outcome, keyof PredictionProbabilities> = { Home: 'homeWin', Draw: 'draw', Away: 'awayWin' };
+
+/**
+ * Stated probabilities scaled to sum to 1 over the sport's outcomes, or null
+ * when they carry no information (all zero, e.g. a failed backtest row).
+ */
+export const normalizedProbabilities = (forecast: ScoredForecast): Array<[Outcome, number]> | null => {
+  if (!forecast.probabilities) return null;
+  const outcomes = outcomesFor(forecast.sport);
+  const raw = outcomes.map((outcome) => Math.max(0, forecast.probabilities![PROBABILITY_KEY[outcome]] || 0));
+  const total = raw.reduce((sum, p) => sum + p, 0);
+  if (total <= 0) return null;
+  return outcomes.map((outcome, i) => [outcome, raw[i] / total]);
+};
+
+const brierOf = (probabilities: Array<[Outcome, number]>, actual: Outcome) =>
+  probabilities.reduce((sum, [outcome, p]) => sum + (p - (outcome === actual ? 1 : 0)) ** 2, 0);
+
+const logLossOf = (probabilities: Array<[Outcome, number]>, actual: Outcome) =>
+  -Math.log(Math.max(MIN_PROBABILITY, probabilities.find(([outcome]) => outcome === actual)?.[1] ?? 0));
+
+const rpsOf = (probabilities: Array<[Outcome, number]>, actual: Outcome) => {
+  let predicted = 0;
+  let observed = 0;
+  let sum = 0;
+  probabilities.slice(0, -1).forEach(([outcome, p]) => {
+    predicted += p;
+    observed += outcome === actual ? 1 : 0;
+    sum += (predicted - observed) ** 2;
+  });
+  return sum / (probabilities.length - 1);
+};
+
+// Normal-approximation interval; every score here is non-negative, so the lower bound stops at 0
+const meanEstimate = (values: number[]): Estimate | null => {
+  const n = values.length;
+  if (n === 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  if (n === 1) return { value: mean, lower: mean, upper: mean, n };
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const margin = Z * Math.sqrt(variance / n);
+  return { value: mean, lower: Math.max(0, mean - margin), upper: mean + margin, n };
+};
+
+// Wilson score interval, which stays inside [0, 1] for small samples
+export const proportionEstimate = (successes: number, n: number): Estimate | null => {
+  if (n === 0) return null;
+  const p = successes / n;
+  const denominator = 1 + (Z * Z) / n;
+  const centre = (p + (Z * Z) / (2 * n)) / denominator;
+  const margin = (Z * Math.sqrt((p * (1 - p)) / n + (Z * Z) / (4 * n * n))) / denominator;
+  return { value: p, lower: Math.max(0, centre - margin), upper: Math.min(1, centre + margin), n };
+};
+
+/**
+ * Scores a set of settled forecasts. Accuracy counts every forecast (a
+ * forecast that called nothing counts as wrong); the probabilistic scores use
+ * only those with stated probabilities, so each estimate carries its own n.
+ */
+export const computeMetrics = (forecasts: ScoredForecast[]): ForecastMetrics => {
+  const correct = forecasts.filter((f) => f.pick !== null && f.pick === f.actual).length;
+  const brier: number[] = [];
+  const logLoss: number[] = [];
+  const rps: number[] = [];
+  forecasts.forEach((forecast) => {
+    const probabilities = normalizedProbabilities(forecast);
+    if (!probabilities) return;
+    brier.push(brierOf(probabilities, forecast.actual));
+    logLoss.push(logLossOf(probabilities, forecast.actual));
+    rps.push(rpsOf(probabilities, forecast.actual));
+  });
+
+  return {
+    settled: forecasts.length,
+    accuracy: proportionEstimate(correct, forecasts.length),
+    brier: meanEstimate(brier),
+    logLoss: meanEstimate(logLoss),
+    rps: meanEstimate(rps)
+  };
+};
+
+export const historyMetrics = (items: HistoryItem[]) => computeMetrics(historyForecasts(items));
+
+export const backtestMetrics = (items: BacktestResultItem[]) => computeMetrics(backtestForecasts(items));
+
+/**
+ * Running accuracy (percent) after each forecast, in the order given.
+ */
+export const accuracyTrend = (forecasts: ScoredForecast[]): TrendPoint[] => {
+  let correct = 0;
+  return forecasts.map((forecast, i) => {
+    if (forecast.pick !== null && forecast.pick === forecast.actual) correct++;
+    return { name: `#${i + 1}`, value: Math.round((correct / (i + 1)) * 100), label: `${correct}/${i + 1}` };
+  });
+};
+
+// How many settled forecasts the dashboard trend covers
+const SNAPSHOT_TREND_LENGTH = 10;
+
+/**
+ * Dashboard summary of a newest-first history: the latest standard
+ * prediction, scores over every settled item, and running accuracy over the
+ * most recent settled ones.
+ */
+export const buildAISnapshot = (history: HistoryItem[]): AISnapshot => {
+  const latestStandard = history.find(item => item.type === 'STANDARD' && item.standardPrediction);
+  const forecasts = historyForecasts(history);
+  return {
+    latestPrediction: latestStandard?.standardPrediction || null,
+    totalPredictions: history.length,
+    metrics: computeMetrics(forecasts),
+    trendData: accuracyTrend(forecasts.slice(0, SNAPSHOT_TREND_LENGTH).reverse())
+  };
+};
+
+/**
+ * Confidence band of a prediction, from the probability of its strongest
+ * outcome. Probabilities are fractions of 1, as stored.
+ */
+export const confidenceLevel = (probabilities: PredictionProbabilities | null | undefined): 'High' | 'Medium' | 'Low' => {
+  if (!probabilities) return 'Low';
+  const strongest = Math.max(probabilities.homeWin, probabilities.draw, probabilities.awayWin);
+  if (strongest >= HIGH_CONFIDENCE) return 'High';
+  if (strongest >= MEDIUM_CONFIDENCE) return 'Medium';
+  return 'Low';
+};
+
+// A stored probability (0-1) as a whole percentage, e.g. "54%"
+export const formatProbability = (probability: number): string => `${Math.round(probability * 100)}%`;
+
+export const formatPercentEstimate = (estimate: Estimate | null): string =>
+  estimate ? `${Math.round(estimate.value * 100)}%` : '—';
+
+export const formatScoreEstimate = (estimate: Estimate | null): string => (estimate ? estimate.value.toFixed(3) : '—');
+
+export const formatInterval = (estimate: Estimate | null, percent = false): string => {
+  if (!estimate || estimate.n < 2) return '';
+  return percent
+    ? `${Math.round(estimate.lower * 100)}–${Math.round(estimate.upper * 100)}%`
+    : `${estimate.lower.toFixed(3)}–${estimate.upper.toFixed(3)}`;
+};
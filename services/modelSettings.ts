@@ -0,0 +1,76 @@
+import { ModelConfiguration, ModelOperation, ModelSettings } from "../types";
+import { DEFAULT_MODEL_CONFIGURATION } from "../constants";
+import { appLogger } from "../utils/logger";
+
+const SETTINGS_KEY = 'probable_play_model_settings_v1';
+
+const OPERATIONS = Object.keys(DEFAULT_MODEL_CONFIGURATION) as ModelOperation[];
+
+/**
+ * Returns a reason the settings cannot be used, or null when they are valid.
+ */
+export const validateModelSettings = (settings: ModelSettings): string | null => {
+  if (!settings.model.trim()) return 'Model name is required';
+  if (settings.temperature !== null && !(settings.temperature >= 0 && settings.temperature <= 2)) {
+    return 'Temperature must be between 0 and 2';
+  }
+  if (settings.thinkingBudget !== null && !(Number.isInteger(settings.thinkingBudget) && settings.thinkingBudget >= 0)) {
+    return 'Thinking budget must be a whole number of tokens';
+  }
+  return null;
+};
+
+// Stored settings are merged over the defaults so fields added later get a value
+const withDefaults = (stored: Partial<Record<ModelOperation, Partial<ModelSettings>>>): ModelConfiguration => {
+  const config = {} as ModelConfiguration;
+  OPERATIONS.forEach((operation) => {
+    const merged = { ...DEFAULT_MODEL_CONFIGURATION[operation], ...stored[operation] };
+    const problem = validateModelSettings(merged);
+    if (problem) {
+      appLogger.warn(`Ignoring stored ${operation} model settings: ${problem}`);
+      config[operation] = { ...DEFAULT_MODEL_CONFIGURATION[operation] };
+    } else {
+      config[operation] = merged;
+    }
+  });
+  return config;
+};
+
+export const modelSettingsService = {
+  getConfiguration: (): ModelConfiguration => {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      return withDefaults(stored ? JSON.parse(stored) : {});
+    } catch (e) {
+      appLogger.warn('Failed to load model settings', e);
+      return withDefaults({});
+    }
+  },
+
+  get: (operation: ModelOperation): ModelSettings => modelSettingsService.getConfiguration()[operation],
+
+  save: (config: ModelConfiguration) => {
+    OPERATIONS.forEach((operation) => {
+      const problem = validateModelSettings(config[operation]);
+      if (problem) throw new Error(`${operation}: ${problem}`);
+    });
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(config));
+  },
+
+  reset: (): ModelConfiguration => {
+    localStorage.removeItem(SETTINGS_KEY);
+    return withDefaults({});
+  }
+};
+
+/**
+ * Short one-line description, e.g. "gemini-2.5-flash · temp 0.1 · think 2048 · grounded · re-ask".
+ */
+export const summarizeModelSettings = (settings: ModelSettings): string =>
+  [
+    settings.model,
+    settings.temperature !== null ? `temp ${settings.temperature}` : null,
+    settings.thinkingBudget !== null ? `think ${settings.thinkingBudget}` : null,
+    settings.grounding ? 'grounded' : 'ungrounded',
+    settings.reaskOnInconsistency ? 're-ask' : null
+  ].filter(Boolean).join(' · ');
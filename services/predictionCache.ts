@@ -0,0 +1,104 @@
+import { Match, PredictionType, PredictionResult, DetailedForecastResult, BasketballForecastResult, PredictionDescriptor } from "../types";
+import { PREDICTION_CACHE_POLICY } from "../constants";
+import { hashToHex } from "../utils/hash";
+import { appLogger } from "../utils/logger";
+
+const CACHE_KEY = 'probable_play_prediction_cache_v1';
+
+type CachedPayload = PredictionResult | DetailedForecastResult | BasketballForecastResult;
+
+interface CacheEntry {
+  matchId: string;
+  type: PredictionType;
+  descriptor: PredictionDescriptor;
+  cachedAt: number;
+  expiresAt: number;
+  data: CachedPayload;
+}
+
+export interface CachedPrediction<T extends CachedPayload> {
+  data: T;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+const buildKey = (matchId: string, type: PredictionType, d: PredictionDescriptor) =>
+  [matchId, type, d.providerId, d.model, d.promptVersion, d.settings ? hashToHex(JSON.stringify(d.settings)) : '', d.ensembleSamples ?? 1].join('|');
+
+const readEntries = (): Record<string, CacheEntry> => {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    appLogger.warn('Failed to read prediction cache', e);
+    return {};
+  }
+};
+
+const writeEntries = (entries: Record<string, CacheEntry>) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    appLogger.warn('Failed to write prediction cache', e);
+  }
+};
+
+/**
+ * How long a fresh prediction stays valid. Far from kickoff the per-type TTL
+ * applies, but never past the start of the near-kickoff window, so every match
+ * gets re-evaluated with late team news. Inside the window the short TTL applies.
+ */
+const computeExpiry = (match: Match, type: PredictionType, now: number): number => {
+  const { ttlMs, nearKickoffWindowMs, nearKickoffTtlMs } = PREDICTION_CACHE_POLICY;
+  const kickoff = new Date(match.startTime).getTime();
+  if (!Number.isFinite(kickoff)) return now + ttlMs[type];
+
+  const windowStart = kickoff - nearKickoffWindowMs;
+  if (now >= windowStart) return now + nearKickoffTtlMs;
+  return Math.min(now + ttlMs[type], Math.max(now + nearKickoffTtlMs, windowStart));
+};
+
+/**
+ * Short-lived cache of generated predictions, separate from the history log.
+ * History records every generation; this only avoids repeating recent ones.
+ */
+export const predictionCache = {
+  get: <T extends CachedPayload>(match: Match, type: PredictionType, descriptor: PredictionDescriptor): CachedPrediction<T> | null => {
+    const entry = readEntries()[buildKey(match.id, type, descriptor)];
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return { data: entry.data as T, cachedAt: entry.cachedAt, expiresAt: entry.expiresAt };
+  },
+
+  set: (match: Match, type: PredictionType, descriptor: PredictionDescriptor, data: CachedPayload) => {
+    const now = Date.now();
+    const entries = readEntries();
+
+    // Drop expired entries on every write so the store does not grow unbounded
+    Object.keys(entries).forEach((key) => {
+      if (entries[key].expiresAt <= now) delete entries[key];
+    });
+
+    entries[buildKey(match.id, type, descriptor)] = {
+      matchId: match.id,
+      type,
+      descriptor,
+      cachedAt: now,
+      expiresAt: computeExpiry(match, type, now),
+      data
+    };
+    writeEntries(entries);
+  },
+
+  invalidate: (matchId: string, type?: PredictionType) => {
+    const entries = readEntries();
+    Object.keys(entries).forEach((key) => {
+      const entry = entries[key];
+      if (entry.matchId === matchId && (!type || entry.type === type)) delete entries[key];
+    });
+    writeEntries(entries);
+  },
+
+  clear: () => {
+    localStorage.removeItem(CACHE_KEY);
+  }
+};
@@ -0,0 +1,102 @@
+import {
+  Match,
+  PredictionResult,
+  DetailedForecastResult,
+  BasketballForecastResult,
+  MatchResult,
+  HistoryItem,
+  BacktestCandidate,
+  BacktestResultItem,
+  PredictionType,
+  PredictionDescriptor
+} from "../types";
+import { appLogger } from "../utils/logger";
+import { DateKey } from "../utils/dates";
+
+/**
+ * Per-call options. Aborting `signal` cancels the request; implementations
+ * reject with an AbortError (see `isAbortError`).
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export type { PredictionDescriptor };
+
+// Whether calls go to the network, are captured as fixtures, or are served from them
+export type ProviderMode = 'live' | 'record' | 'replay';
+
+/**
+ * Contract every prediction backend implements. Views only talk to this
+ * interface, so a different model vendor or an offline stand-in can be
+ * swapped in without touching the components.
+ */
+export interface PredictionProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly isConfigured: boolean;
+  readonly mode?: ProviderMode; // absent for providers that always answer live
+
+  // `sport` picks the detailed forecast variant (see usesBasketballForecast)
+  describePrediction(type: PredictionType, sport?: string): PredictionDescriptor;
+
+  // `date` is a local calendar date, YYYY-MM-DD
+  fetchMatches(date: DateKey, options?: RequestOptions): Promise<Match[]>;
+  predictMatch(match: Match, options?: RequestOptions): Promise<PredictionResult>;
+  getDetailedForecast(match: Match, options?: RequestOptions): Promise<DetailedForecastResult>;
+  getBasketballForecast(match: Match, options?: RequestOptions): Promise<BasketballForecastResult>;
+  fetchMatchResults(historyItems: HistoryItem[], options?: RequestOptions): Promise<Map<string, MatchResult>>;
+  // Current or final scores for matches that have kicked off; isFinished marks final results
+  fetchLiveScores(matches: Match[], options?: RequestOptions): Promise<Map<string, MatchResult>>;
+  fetchBacktestCandidates(sport: string, league: string, teams: string[], count: number, options?: RequestOptions): Promise<BacktestCandidate[]>;
+  runBacktestPrediction(candidate: BacktestCandidate, options?: RequestOptions): Promise<BacktestResultItem>;
+}
+
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+const providers = new Map<string, PredictionProvider>();
+let activeProviderId: string | null = null;
+
+export const providerRegistry = {
+  register: (provider: PredictionProvider) => {
+    if (providers.has(provider.id)) {
+      appLogger.warn(`Prediction provider "${provider.id}" registered twice; replacing previous entry`);
+    }
+    providers.set(provider.id, provider);
+  },
+
+  list: (): PredictionProvider[] => Array.from(providers.values()),
+
+  get: (id: string): PredictionProvider | undefined => providers.get(id),
+
+  modeOf: (provider: PredictionProvider): ProviderMode => provider.mode ?? 'live',
+
+  setActive: (id: string) => {
+    if (!providers.has(id)) {
+      throw new Error(`Unknown prediction provider "${id}"`);
+    }
+    activeProviderId = id;
+  },
+
+  /**
+   * Returns the provider chosen at startup. Falls back to the default
+   * provider when the configured id is unknown.
+   */
+  getActive: (): PredictionProvider => {
+    if (!activeProviderId) {
+      const requested = process.env.PREDICTION_PROVIDER || DEFAULT_PROVIDER_ID;
+      if (providers.has(requested)) {
+        activeProviderId = requested;
+      } else {
+        appLogger.warn(`Prediction provider "${requested}" is not registered; using "${DEFAULT_PROVIDER_ID}"`);
+        activeProviderId = DEFAULT_PROVIDER_ID;
+      }
+    }
+
+    const provider = providers.get(activeProviderId);
+    if (!provider) {
+      throw new Error(`Prediction provider "${activeProviderId}" is not registered`);
+    }
+    return provider;
+  }
+};
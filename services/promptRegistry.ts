@@ -0,0 +1,72 @@
+import { appLogger } from "../utils/logger";
+
+export interface PromptChange {
+  version: string;
+  date: string; // YYYY-MM-DD
+  notes: string;
+}
+
+/**
+ * A prompt template with a stable id and a semantic version. Bump the version
+ * (and add a changelog entry) whenever the rendered wording changes, so saved
+ * predictions and backtests can be grouped by the exact prompt that produced them.
+ */
+export interface PromptTemplate<V> {
+  id: string;
+  version: string;
+  description: string;
+  changelog: PromptChange[];
+  render(variables: V): string;
+}
+
+export interface PromptRef {
+  promptId: string;
+  promptVersion: string;
+}
+
+const SEMVER = /^\d+\.\d+\.\d+$/;
+
+const templates = new Map<string, PromptTemplate<any>>();
+
+export const promptRegistry = {
+  register: <V>(template: PromptTemplate<V>): PromptTemplate<V> => {
+    if (!SEMVER.test(template.version)) {
+      throw new Error(`Prompt "${template.id}" has invalid version "${template.version}"`);
+    }
+    if (!template.changelog.some((change) => change.version === template.version)) {
+      appLogger.warn(`Prompt "${template.id}" v${template.version} has no changelog entry`);
+    }
+    if (templates.has(template.id)) {
+      appLogger.warn(`Prompt "${template.id}" registered twice; replacing previous entry`);
+    }
+    templates.set(template.id, template);
+    return template;
+  },
+
+  get: (id: string): PromptTemplate<unknown> | undefined => templates.get(id),
+
+  list: (): PromptTemplate<unknown>[] => Array.from(templates.values())
+};
+
+export const definePrompt = <V>(template: PromptTemplate<V>): PromptTemplate<V> => promptRegistry.register(template);
+
+export const promptRef = (template: PromptTemplate<unknown>): PromptRef => ({
+  promptId: template.id,
+  promptVersion: template.version
+});
+
+/**
+ * Display label such as "standard-prediction@1.0.0".
+ */
+export const formatPromptRef = (ref: PromptRef): string => `${ref.promptId}@${ref.promptVersion}`;
+
+// Groups results saved before prompts were versioned, which have no prompt reference
+export const UNVERSIONED_PROMPT = 'unversioned';
+
+/**
+ * Key for grouping and filtering results by prompt version.
+ */
+export const promptKeyOf = (ref: PromptRef | undefined): string =>
+  ref?.promptId ? formatPromptRef(ref) : UNVERSIONED_PROMPT;
+
+export const promptKeyLabel = (key: string): string => (key === UNVERSIONED_PROMPT ? 'Unversioned (legacy)' : key);
@@ -0,0 +1,284 @@
+import { definePrompt } from "./promptRegistry";
+import { DetailedField } from "./sportRegistry";
+
+const INITIAL_CHANGELOG = [{ version: '1.0.0', date: '2026-10-18', notes: 'Moved from inline GeminiService prompt into the registry.' }];
+
+// --- Schedule ---
+
+export interface ScheduledSport {
+  id: string; // the value to return as "sport"
+  label: string;
+  leagues: string[];
+  notes?: string;
+}
+
+export interface SchedulePromptVars {
+  date: string; // e.g. "Sunday, October 18, 2026"
+  sports: ScheduledSport[]; // from the sport registry
+}
+
+export const SCHEDULE_PROMPT = definePrompt<SchedulePromptVars>({
+  id: 'schedule',
+  version: '1.3.0',
+  description: 'Finds the fixtures on a given date for the supported leagues.',
+  changelog: [
+    ...INITIAL_CHANGELOG,
+    { version: '1.1.0', date: '2026-10-18', notes: 'Takes any date instead of always asking for today.' },
+    { version: '1.2.0', date: '2026-10-18', notes: 'Lists sports, leagues and per-sport notes from the sport registry.' },
+    { version: '1.3.0', date: '2026-10-18', notes: 'Asks how many sets each tennis match is played over.' }
+  ],
+  render: ({ date, sports }) => `
+      Find the schedule for major sports matches taking place on ${date}.
+      Focus on:
+      ${sports.map((s, i) => `${i + 1}. ${s.label} (sport "${s.id}"): ${s.leagues.join(', ')}.${s.notes ? ` ${s.notes}` : ''}`).join('\n      ')}
+
+      List at least 5-10 key matches if available.
+
+      CRITICAL TIMEZONE INSTRUCTION:
+      - You MUST return all start times in UTC (Coordinated Universal Time) ISO 8601 format ending with 'Z'.
+    `
+});
+
+// --- Match predictions ---
+
+export interface MatchPromptVars {
+  sport: string;
+  league: string;
+  homeTeam: string;
+  awayTeam: string;
+  today: string;
+  matchDate: string; // kickoff date, which may be after today
+}
+
+const MATCH_DATE_CHANGE = { date: '2026-10-18', notes: 'States the kickoff date separately from today so fixtures can be forecast ahead.' };
+const OUTCOME_MARKET_CHANGE = { date: '2026-10-18', notes: 'Asks for a two-way market with zero draw probability in sports without draws.' };
+
+export interface OutcomeMarketVars {
+  allowsDraw: boolean; // from the sport descriptor
+}
+
+export interface ExtraMarket {
+  id: string;
+  label: string;
+  selections: string[];
+  description?: string;
+}
+
+export interface ExtraMarketVars {
+  markets: ExtraMarket[]; // from the sport descriptor; may be empty
+}
+
+const extraMarkets = (markets: ExtraMarket[]) =>
+  markets.length === 0
+    ? ''
+    : `Also estimate these markets. Return each under "markets" with its id and a probability (0-1) for every listed selection, summing to 1 per market:
+      ${markets.map((m) => `- ${m.id} (${m.label}${m.description ? `: ${m.description}` : ''}): ${m.selections.join(', ')}`).join('\n      ')}
+      Keep them consistent with your win probabilities.`;
+
+const outcomeMarket = (sport: string, allowsDraw: boolean) =>
+  allowsDraw
+    ? 'a Home Win, Draw, and Away Win (each 0-1)'
+    : `a Home Win and an Away Win (each 0-1). ${sport} games cannot end level, so the draw probability must be 0`;
+
+export const STANDARD_PREDICTION_PROMPT = definePrompt<MatchPromptVars & OutcomeMarketVars & ExtraMarketVars>({
+  id: 'standard-prediction',
+  version: '1.3.0',
+  description: 'Win/draw/win probabilities (two-way where the sport has no draw) and sport-specific markets with summary, analysis and key factors.',
+  changelog: [
+    ...INITIAL_CHANGELOG,
+    { version: '1.1.0', ...MATCH_DATE_CHANGE },
+    { version: '1.2.0', ...OUTCOME_MARKET_CHANGE },
+    { version: '1.3.0', date: '2026-10-18', notes: 'Asks for the sport\'s extra markets, such as set betting in tennis and how a hockey game is decided.' }
+  ],
+  render: ({ sport, league, homeTeam, awayTeam, today, matchDate, allowsDraw, markets }) => `
+      Analyze the ${sport} match between ${homeTeam} (Home) and ${awayTeam} (Away) scheduled for ${matchDate}. Today is ${today}.
+      League: ${league}.
+
+      Use Google Search to find:
+      1. Recent form, H2H history, injuries.
+      2. League standings context.
+
+      Based on this data, estimate the probabilities of ${outcomeMarket(sport, allowsDraw)}.
+      ${extraMarkets(markets)}
+      Provide a concise summary, a two-paragraph detailed analysis and 3-5 brief key factors.
+    `
+});
+
+export interface DetailedForecastVars extends MatchPromptVars {
+  fields: DetailedField[]; // from the sport descriptor
+  scoring: { unit: string; units: string };
+  periods: { count: number; name: string; plural: string };
+}
+
+// Output items per optional field, in the order they are listed
+const detailedOutputs = ({ fields, scoring, periods }: DetailedForecastVars): string[] => {
+  const has = (field: DetailedField) => fields.includes(field);
+  return [
+    `EXACT SCORE: Most probable numeric scoreline in ${scoring.units} (e.g., "2-1").`,
+    `TOTAL ${scoring.units.toUpperCase()}: "Under X" or "Over X" based on attacking and defensive stats.`,
+    ...(has('expectedScore') ? [`EXPECTED ${scoring.units.toUpperCase()}: Your expected ${scoring.units} for each side in THIS match (e.g. home 1.6, away 0.9). The exact score should be consistent with these.`] : []),
+    ...(has('firstToScore') ? [`FIRST TEAM TO SCORE: Based on early-game scoring stats.`] : []),
+    ...(has('periodWinners') ? [`${periods.plural.toUpperCase()}: Winner of the first and the second ${periods.name}.`] : []),
+    ...(has('scorers') ? [`SCORERS: Top 2-3 players most likely to score. Include method and likelihood as a percentage number.`] : []),
+    ...(has('scoringMethods') ? [`PROBABILITIES: Specific % chance (0-100) for each scoring method.`] : []),
+    ...(has('discipline') ? [`RED CARDS: "0" or "1+". Only predict "1+" if referee is strict or teams are aggressive.`] : []),
+    `CONFIDENCE: "High", "Medium" or "Low".`,
+    `REASONING: Citing specific stats (e.g. recent ${scoring.units} for and against).`
+  ];
+};
+
+export const DETAILED_FORECAST_PROMPT = definePrompt<DetailedForecastVars>({
+  id: 'detailed-forecast',
+  version: '1.3.0',
+  description: 'Scoreline and total line, plus the expected score, scorers, periods, scoring methods and discipline where the sport uses them.',
+  changelog: [
+    ...INITIAL_CHANGELOG,
+    { version: '1.1.0', date: '2026-10-18', notes: 'Asks for expected goals per side to drive the scoreline distribution.' },
+    { version: '1.2.0', ...MATCH_DATE_CHANGE },
+    { version: '1.3.0', date: '2026-10-18', notes: 'Asks only for the parts the sport\'s descriptor lists, in its own scoring units and periods.' }
+  ],
+  render: (vars) => {
+    const { sport, homeTeam, awayTeam, today, matchDate, fields, scoring } = vars;
+    return `
+      Perform a PROFESSIONAL, HIGH-STAKES statistical forecast for the ${sport} match between ${homeTeam} and ${awayTeam} on ${matchDate} (today is ${today}).
+
+      PROTOCOL:
+      1. DATA SEARCH (Mandatory):
+         - Search for ${fields.includes('expectedScore') ? '"Expected Goals (xG) last 5 matches"' : `"${scoring.units} scored and conceded last 5 matches"`} for both sides.
+         - Search for "Head-to-Head results last 3 years".
+         - Search for "CONFIRMED injury list today".${fields.includes('discipline') ? `
+         - Search for "Referee yellow/red card average".` : ''}
+
+      2. LOGIC (Chain of Thought):
+         - Compare attacking strength vs defensive weakness.
+         - If a key player is injured -> adjust the Total ${scoring.units} prediction.
+         - If Head-to-Head is tight -> predict a narrow result.
+         - DO NOT BE VAGUE. Calculate the most statistically probable outcome.
+         - CONSISTENCY CHECK: The total line must agree with the exact score (e.g. "Over 2.5" needs 3+ ${scoring.units}).${fields.includes('firstToScore') ? ' If you predict 0-0, you cannot predict a "First Scorer".' : ''}
+
+      REQUIRED OUTPUT DATA:
+      ${detailedOutputs(vars).map((line, i) => `${i + 1}. ${line}`).join('\n      ')}
+    `;
+  }
+});
+
+export const BASKETBALL_FORECAST_PROMPT = definePrompt<MatchPromptVars>({
+  id: 'basketball-forecast',
+  version: '1.0.0',
+  description: 'Final score, spread, total points, quarters, player stat lines and overtime for basketball.',
+  changelog: [{ version: '1.0.0', date: '2026-10-18', notes: 'Initial version.' }],
+  render: ({ sport, league, homeTeam, awayTeam, today, matchDate }) => `
+      Perform a PROFESSIONAL statistical forecast for the ${sport} game between ${homeTeam} (Home) and ${awayTeam} (Away) on ${matchDate} (today is ${today}).
+      League: ${league}.
+
+      PROTOCOL:
+      1. DATA SEARCH (Mandatory):
+         - Search for offensive and defensive rating and pace over the last 10 games for both teams.
+         - Search for "CONFIRMED injury report today" and minutes restrictions.
+         - Search for back-to-backs and rest days.
+         - Search for each side's leading scorers and their recent points, rebounds and assists.
+
+      2. LOGIC:
+         - Project possessions from both teams' pace, then points from offensive vs defensive rating.
+         - If a starter is out -> lower that team's projection and redistribute usage.
+         - Basketball games cannot end level; a tie after regulation goes to overtime.
+         - CONSISTENCY CHECK: The spread must favour the team that wins your predicted score, and the total points pick must agree with the predicted score.
+
+      REQUIRED OUTPUT DATA:
+      1. FINAL SCORE: Most probable final score including any overtime (e.g., "112-105"). It must not be level.
+      2. POINT SPREAD: The home handicap in points; negative when the home team is favoured (e.g. -6.5).
+      3. TOTAL POINTS: A total points line (e.g. 224.5) and whether you expect Over or Under it.
+      4. QUARTER WINNERS: Winner of each of the four quarters ("Home", "Away", or "Draw" for a level quarter).
+      5. TOP SCORERS: 3-6 players with projected points, rebounds and assists.
+      6. OVERTIME: Percentage chance (0-100) that the game goes to overtime.
+      7. CONFIDENCE: "High", "Medium" or "Low".
+      8. REASONING: Citing specific stats (e.g. "Boston's defensive rating is 108.2 over the last 10").
+    `
+});
+
+export interface DetailedForecastReaskPromptVars {
+  originalPrompt: string;
+  previousAnswer: string; // the rejected forecast as JSON
+  violations: string[]; // one line per violated rule
+}
+
+export const DETAILED_FORECAST_REASK_PROMPT = definePrompt<DetailedForecastReaskPromptVars>({
+  id: 'detailed-forecast-reask',
+  version: '1.0.0',
+  description: 'Asks again for a detailed forecast whose fields contradicted each other.',
+  changelog: [{ version: '1.0.0', date: '2026-10-18', notes: 'Initial version.' }],
+  render: ({ originalPrompt, previousAnswer, violations }) => `
+      ${originalPrompt.trim()}
+
+      YOUR PREVIOUS ANSWER WAS INTERNALLY INCONSISTENT:
+      ${previousAnswer}
+
+      It broke these rules:
+      ${violations.map((v, i) => `${i + 1}. ${v}`).join('\n      ')}
+
+      Return a corrected forecast that satisfies every rule above. Keep the parts that were consistent unless fixing a rule requires changing them.
+    `
+});
+
+// --- Results ---
+
+export interface MatchResultsPromptVars {
+  matches: Array<{ id: string; home: string; away: string; date: string }>;
+}
+
+export const MATCH_RESULTS_PROMPT = definePrompt<MatchResultsPromptVars>({
+  id: 'match-results',
+  version: '1.1.0',
+  description: 'Looks up final or in-progress scores for a list of matches.',
+  changelog: [
+    ...INITIAL_CHANGELOG,
+    { version: '1.1.0', date: '2026-10-18', notes: 'Asks for the current score of matches still in progress.' }
+  ],
+  render: ({ matches }) => `
+      I have a list of sports matches. I need to know the final score and winner for each.
+      Matches: ${JSON.stringify(matches)}
+      Use Google Search. Return one entry per match, echoing its id. Set isFinished to false for matches that have not finished.
+      For a match in progress, give the current score and the side currently ahead as winner. For a match that has not started, give 0-0 and Draw.
+    `
+});
+
+// --- Backtesting ---
+
+export interface BacktestCandidatesPromptVars {
+  count: number;
+  teams: string[];
+  sport: string;
+  league: string;
+}
+
+export const BACKTEST_CANDIDATES_PROMPT = definePrompt<BacktestCandidatesPromptVars>({
+  id: 'backtest-candidates',
+  version: '1.0.0',
+  description: 'Finds recently completed matches to backtest against.',
+  changelog: INITIAL_CHANGELOG,
+  render: ({ count, teams, sport, league }) => `
+      Find the last ${count} COMPLETED matches involving ANY of: ${teams.join(' OR ')}.
+      Sport: ${sport}, League: ${league}.
+    `
+});
+
+export interface BacktestPredictionPromptVars extends OutcomeMarketVars {
+  sport: string;
+  simulationDate: string;
+  homeTeam: string;
+  awayTeam: string;
+  matchDate: string;
+}
+
+export const BACKTEST_PREDICTION_PROMPT = definePrompt<BacktestPredictionPromptVars>({
+  id: 'backtest-prediction',
+  version: '1.1.0',
+  description: 'Predicts a past match as if on the day before kickoff.',
+  changelog: [...INITIAL_CHANGELOG, { version: '1.1.0', ...OUTCOME_MARKET_CHANGE }],
+  render: ({ sport, allowsDraw, simulationDate, homeTeam, awayTeam, matchDate }) => `
+      SIMULATION DATE: ${simulationDate}.
+      Predict the ${sport} match ${homeTeam} vs ${awayTeam} (${matchDate}).
+      Do not check actual results.
+      Estimate the probabilities of ${outcomeMarket(sport, allowsDraw)}, and explain briefly.
+    `
+});
@@ -0,0 +1,12 @@
+import { providerRegistry } from "./predictionProvider";
+import { geminiService } from "./geminiService";
+import { localProvider } from "./localProvider";
+
+providerRegistry.register(geminiService);
+providerRegistry.register(localProvider);
+
+// Selected once at startup via PREDICTION_PROVIDER (defaults to Gemini)
+export const predictionProvider = providerRegistry.getActive();
+
+export { providerRegistry };
+export type { PredictionProvider, PredictionDescriptor, ProviderMode, RequestOptions } from "./predictionProvider";
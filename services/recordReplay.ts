@@ -0,0 +1,259 @@
+import { GenerateContentConfig, GenerateContentParameters } from "@google/genai";
+import { ContentGenerator, LiveContentGenerator, ModelResponse } from "./contentGenerator";
+import { ReplayMissError } from "./errors";
+import { hashToHex } from "../utils/hash";
+import { appLogger } from "../utils/logger";
+import { downloadFile } from "../utils/download";
+
+export type GeminiMode = 'live' | 'record' | 'replay';
+
+export interface GeminiFixture {
+  key: string; // prompt hash and call sequence, see fixtureKey
+  model: string;
+  prompt: string; // normalized prompt text
+  config: Partial<GenerateContentConfig>;
+  response: ModelResponse;
+  recordedAt: string;
+}
+
+// Version 1 masked every date, so its keys cannot tell fixture dates apart
+export const FIXTURE_FILE_VERSION = 2;
+
+export interface FixtureFile {
+  version: typeof FIXTURE_FILE_VERSION;
+  fixtures: GeminiFixture[];
+}
+
+const FIXTURES_STORAGE_KEY = 'probable_play_gemini_fixtures_v2';
+
+// Only the current date is masked, so fixtures recorded on one day still replay
+// on the next; the requested fixture or match date stays part of the key
+const TODAY_PATTERN = /\b(today is)\s+(?:Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday),\s+[A-Z][a-z]+\s+\d{1,2},\s+\d{4}\b/gi;
+
+export const normalizePrompt = (prompt: string): string =>
+  prompt.replace(TODAY_PATTERN, '$1 <today>').replace(/\s+/g, ' ').trim();
+
+export const promptKey = (normalizedPrompt: string): string => hashToHex(normalizedPrompt);
+
+// The nth identical prompt of a session (e.g. one ensemble sample) gets its own fixture
+export const fixtureKey = (normalizedPrompt: string, sequence: number): string => `${promptKey(normalizedPrompt)}#${sequence}`;
+
+// Counts identical prompts within a session; the index is taken when the call starts, so concurrent calls keep their order
+class CallSequence {
+  private counts = new Map<string, number>();
+
+  next(prompt: string): number {
+    const sequence = this.counts.get(prompt) ?? 0;
+    this.counts.set(prompt, sequence + 1);
+    return sequence;
+  }
+}
+
+const promptText = (contents: GenerateContentParameters['contents']): string =>
+  typeof contents === 'string' ? contents : JSON.stringify(contents);
+
+// AbortSignals and other live objects cannot be written to a fixture
+const serializableConfig = (config?: GenerateContentConfig): Partial<GenerateContentConfig> => {
+  if (!config) return {};
+  const { abortSignal, httpOptions, ...rest } = config;
+  return JSON.parse(JSON.stringify(rest));
+};
+
+const tokenSet = (text: string) => new Set(text.toLowerCase().split(/[^a-z0-9<>]+/).filter(Boolean));
+
+/**
+ * Finds the recorded prompt with the highest token overlap (Jaccard index).
+ */
+export const findNearestFixture = (prompt: string, fixtures: GeminiFixture[]): { fixture: GeminiFixture; similarity: number } | null => {
+  const target = tokenSet(prompt);
+  let best: { fixture: GeminiFixture; similarity: number } | null = null;
+
+  fixtures.forEach((fixture) => {
+    const candidate = tokenSet(fixture.prompt);
+    let shared = 0;
+    candidate.forEach((token) => { if (target.has(token)) shared++; });
+    const union = target.size + candidate.size - shared;
+    const similarity = union === 0 ? 0 : shared / union;
+    if (!best || similarity > best.similarity) {
+      best = { fixture, similarity };
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Keyed collection of recorded responses. Persists to localStorage when
+ * available and can be exported to / loaded from a fixture file.
+ */
+export class FixtureStore {
+  private fixtures = new Map<string, GeminiFixture>();
+  private listeners = new Set<() => void>();
+
+  constructor(private storageKey: string | null = FIXTURES_STORAGE_KEY) {
+    if (!this.storageKey || typeof localStorage === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) this.loadFile(JSON.parse(stored));
+    } catch (e) {
+      appLogger.warn('Failed to load recorded Gemini fixtures', e);
+    }
+  }
+
+  get size() {
+    return this.fixtures.size;
+  }
+
+  // Called after every change, so views can show a live fixture count
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get(key: string): GeminiFixture | undefined {
+    return this.fixtures.get(key);
+  }
+
+  list(): GeminiFixture[] {
+    return Array.from(this.fixtures.values());
+  }
+
+  put(fixture: GeminiFixture) {
+    this.fixtures.set(fixture.key, fixture);
+    this.persist();
+    this.notify();
+  }
+
+  clear() {
+    this.fixtures.clear();
+    this.persist();
+    this.notify();
+  }
+
+  loadFile(file: FixtureFile) {
+    if ((file as { version?: number } | null)?.version === 1) {
+      throw new Error('Fixture file uses date-masked keys from an older version; record it again');
+    }
+    if (!file || file.version !== FIXTURE_FILE_VERSION || !Array.isArray(file.fixtures)) {
+      throw new Error('Unsupported fixture file format');
+    }
+    file.fixtures.forEach((fixture) => this.fixtures.set(fixture.key, fixture));
+    this.notify();
+  }
+
+  toFile(): FixtureFile {
+    return { version: FIXTURE_FILE_VERSION, fixtures: this.list() };
+  }
+
+  /**
+   * Triggers a browser download of the current fixtures as a JSON file.
+   */
+  download(filename = 'gemini-fixtures.json') {
+    downloadFile(filename, JSON.stringify(this.toFile(), null, 2), 'application/json');
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private persist() {
+    if (!this.storageKey || typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.toFile()));
+    } catch (e) {
+      appLogger.warn('Failed to persist recorded Gemini fixtures', e);
+    }
+  }
+}
+
+/**
+ * Passes every call through to the live generator and records the exchange.
+ */
+export class RecordingContentGenerator implements ContentGenerator {
+  private sequence = new CallSequence();
+
+  constructor(private inner: ContentGenerator, private store: FixtureStore) {}
+
+  async generateContent(params: GenerateContentParameters): Promise<ModelResponse> {
+    const prompt = normalizePrompt(promptText(params.contents));
+    const key = fixtureKey(prompt, this.sequence.next(prompt));
+    const response = await this.inner.generateContent(params);
+
+    this.store.put({
+      key,
+      model: params.model,
+      prompt,
+      config: serializableConfig(params.config),
+      response: JSON.parse(JSON.stringify(response)),
+      recordedAt: new Date().toISOString()
+    });
+
+    return response;
+  }
+}
+
+/**
+ * Serves recorded responses without touching the network. Optionally loads a
+ * fixture file from a URL before the first lookup. Repeats of a prompt get
+ * its recorded calls in order, cycling when more are asked for than were
+ * recorded.
+ */
+export class ReplayContentGenerator implements ContentGenerator {
+  private ready: Promise<void> | null = null;
+  private sequence = new CallSequence();
+
+  constructor(private store: FixtureStore, private fixturesUrl?: string) {}
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.fixturesUrl
+        ? fetch(this.fixturesUrl)
+            .then((res) => {
+              if (!res.ok) throw new Error(`HTTP ${res.status}`);
+              return res.json();
+            })
+            .then((file: FixtureFile) => this.store.loadFile(file))
+            .catch((e) => appLogger.error(`Failed to load fixture file from ${this.fixturesUrl}`, e))
+        : Promise.resolve();
+    }
+    return this.ready;
+  }
+
+  async generateContent(params: GenerateContentParameters): Promise<ModelResponse> {
+    await this.ensureLoaded();
+
+    const prompt = normalizePrompt(promptText(params.contents));
+    const sequence = this.sequence.next(prompt);
+    const key = fixtureKey(prompt, sequence);
+    const fixture = this.store.get(key) ?? this.store.get(fixtureKey(prompt, sequence % this.recordedCalls(prompt)));
+    if (fixture) return fixture.response;
+
+    const nearest = findNearestFixture(prompt, this.store.list());
+    throw new ReplayMissError(key, prompt, nearest ? { prompt: nearest.fixture.prompt, similarity: nearest.similarity } : null);
+  }
+
+  // How many calls were recorded for a prompt; at least 1, so it can be used as a modulus
+  private recordedCalls(prompt: string): number {
+    let count = 0;
+    while (this.store.get(fixtureKey(prompt, count))) count++;
+    return Math.max(1, count);
+  }
+}
+
+export const resolveGeminiMode = (): GeminiMode => {
+  const mode = process.env.GEMINI_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+};
+
+export const fixtureStore = new FixtureStore();
+
+export const createContentGenerator = (mode: GeminiMode, apiKey: string): ContentGenerator => {
+  if (mode === 'replay') {
+    return new ReplayContentGenerator(fixtureStore, process.env.GEMINI_FIXTURES_URL || undefined);
+  }
+
+  const live = new LiveContentGenerator(apiKey);
+  return mode === 'record' ? new RecordingContentGenerator(live, fixtureStore) : live;
+};
@@ -0,0 +1,160 @@
+import { ApiError } from "@google/genai";
+import { REQUEST_RETRY_POLICY } from "../constants";
+import { appLogger } from "../utils/logger";
+import { isAbortError, ReplayMissError, RequestError, RequestErrorKind, ResponseParseError, SchemaValidationError } from "./errors";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestsPerMinute: number;
+}
+
+/**
+ * What the executor is currently waiting on, for UI display.
+ * `retrying`: a failed attempt is backing off before attempt `attempt`.
+ * `throttled`: the per-minute request budget is exhausted.
+ */
+export interface RetryState {
+  operation: string;
+  phase: 'retrying' | 'throttled';
+  attempt: number;
+  maxAttempts: number;
+  kind?: RequestErrorKind;
+  delayMs: number;
+}
+
+type RetryListener = (state: RetryState | null) => void;
+
+const RETRYABLE: RequestErrorKind[] = ['quota', 'network', 'parse'];
+
+export const classifyError = (error: unknown): RequestErrorKind => {
+  if (error instanceof RequestError) return error.kind;
+  if (error instanceof ReplayMissError) return 'unknown';
+  if (error instanceof ResponseParseError || error instanceof SchemaValidationError) return 'parse';
+
+  const status = error instanceof ApiError ? error.status : undefined;
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status !== undefined && status >= 500) return 'network';
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (/API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (error instanceof TypeError || /network|fetch|timeout|ECONNRESET|UNAVAILABLE/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+const abortError = (signal: AbortSignal) =>
+  signal.reason instanceof Error ? signal.reason : new DOMException('The operation was aborted.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError(signal));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError(signal!));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs model requests with classified errors, exponential backoff with full
+ * jitter and a sliding one-minute request budget shared by all callers.
+ */
+export class RequestExecutor {
+  private recentRequests: number[] = [];
+  private listeners = new Set<RetryListener>();
+
+  constructor(private policy: RetryPolicy = REQUEST_RETRY_POLICY) {}
+
+  subscribe(listener: RetryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(state: RetryState | null) {
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  private backoffDelay(attempt: number, kind: RequestErrorKind): number {
+    // Quota errors back off from a higher floor; the API needs time to refill
+    const base = kind === 'quota' ? this.policy.baseDelayMs * 4 : this.policy.baseDelayMs;
+    const ceiling = Math.min(this.policy.maxDelayMs, base * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private async acquireBudget(operation: string, attempt: number, signal?: AbortSignal) {
+    const windowMs = 60_000;
+    let waited = false;
+    for (;;) {
+      const now = Date.now();
+      this.recentRequests = this.recentRequests.filter((t) => now - t < windowMs);
+      if (this.recentRequests.length < this.policy.requestsPerMinute) {
+        this.recentRequests.push(now);
+        if (waited) this.emit(null);
+        return;
+      }
+
+      waited = true;
+      const delayMs = windowMs - (now - this.recentRequests[0]) + 50;
+      this.emit({ operation, phase: 'throttled', attempt, maxAttempts: this.policy.maxAttempts, delayMs });
+      await sleep(delayMs, signal);
+    }
+  }
+
+  /**
+   * Runs `task` until it succeeds, fails with a non-retryable error or runs out
+   * of attempts. Aborting `signal` stops waiting immediately and rethrows the
+   * AbortError unwrapped so callers can tell cancellation from failure.
+   */
+  async execute<T>(operation: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.acquireBudget(operation, attempt, signal);
+      } catch (error) {
+        this.emit(null);
+        throw error;
+      }
+
+      try {
+        const result = await task();
+        if (attempt > 1) this.emit(null);
+        return result;
+      } catch (error) {
+        if (signal?.aborted || isAbortError(error)) {
+          if (attempt > 1) this.emit(null);
+          throw signal?.aborted ? abortError(signal) : error;
+        }
+
+        const kind = classifyError(error);
+        const canRetry = RETRYABLE.includes(kind) && attempt < this.policy.maxAttempts;
+
+        if (!canRetry) {
+          if (attempt > 1) this.emit(null);
+          throw new RequestError(kind, operation, attempt, error);
+        }
+
+        const delayMs = this.backoffDelay(attempt, kind);
+        appLogger.warn(`${operation} attempt ${attempt} failed (${kind}); retrying in ${delayMs}ms`, error);
+        this.emit({ operation, phase: 'retrying', attempt: attempt + 1, maxAttempts: this.policy.maxAttempts, kind, delayMs });
+        try {
+          await sleep(delayMs, signal);
+        } catch (abort) {
+          this.emit(null);
+          throw abort;
+        }
+      }
+    }
+  }
+}
+
+export const requestExecutor = new RequestExecutor();
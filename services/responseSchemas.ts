@@ -0,0 +1,322 @@
+import { Schema, Type } from "@google/genai";
+import { BacktestCandidate } from "../types";
+import { DetailedField, RawMarket, SportDescriptor, describeSport, sportRegistry } from "./sportRegistry";
+
+/**
+ * A response schema paired with the TypeScript shape it validates to.
+ * The same `schema` object is sent to the model as structured-output config
+ * and used for runtime validation, so the two can never drift apart.
+ */
+export interface ResponseSchema<T> {
+  name: string;
+  schema: Schema;
+  // Phantom marker carrying the validated type; never set at runtime
+  readonly __shape?: T;
+}
+
+const defineSchema = <T>(name: string, schema: Schema): ResponseSchema<T> => ({ name, schema });
+
+const PERIOD_WINNER: Schema = { type: Type.STRING, enum: ['Home', 'Draw', 'Away'] };
+const PROBABILITY: Schema = { type: Type.NUMBER, minimum: 0, maximum: 1 };
+const PERCENT: Schema = { type: Type.NUMBER, minimum: 0, maximum: 100, description: 'Percentage between 0 and 100' };
+const SCORE: Schema = { type: Type.INTEGER, minimum: 0 };
+const EXPECTED_GOALS: Schema = { type: Type.NUMBER, minimum: 0, maximum: 10, description: 'Expected goals for this side in this match' };
+
+// --- Schedule ---
+
+export interface RawScheduledMatch {
+  sport: string;
+  league: string;
+  homeTeam: string;
+  awayTeam: string;
+  startTime: string;
+  bestOf?: number;
+}
+
+export const SCHEDULE_SCHEMA = defineSchema<RawScheduledMatch[]>('Schedule', {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      // Sports registered when this module loads, which includes every built-in
+      sport: { type: Type.STRING, enum: sportRegistry.list().map((d) => d.id) },
+      league: { type: Type.STRING },
+      homeTeam: { type: Type.STRING },
+      awayTeam: { type: Type.STRING },
+      startTime: { type: Type.STRING, format: 'date-time', description: 'UTC ISO 8601 timestamp ending with Z' },
+      bestOf: { type: Type.INTEGER, minimum: 3, maximum: 5, description: 'Most sets the match can go to (tennis only)' }
+    },
+    required: ['sport', 'league', 'homeTeam', 'awayTeam', 'startTime'],
+    propertyOrdering: ['sport', 'league', 'homeTeam', 'awayTeam', 'startTime', 'bestOf']
+  }
+});
+
+// --- Standard prediction ---
+
+export interface RawStandardPrediction {
+  homeWinProbability: number;
+  drawProbability: number;
+  awayWinProbability: number;
+  summary: string;
+  detailedAnalysis: string;
+  keyFactors: string[];
+  markets?: RawMarket[];
+}
+
+const MARKETS: Schema = {
+  type: Type.ARRAY,
+  description: 'Only the extra markets the prompt asks for',
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      selections: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            probability: PROBABILITY
+          },
+          required: ['name', 'probability']
+        }
+      }
+    },
+    required: ['id', 'selections']
+  }
+};
+
+export const STANDARD_PREDICTION_SCHEMA = defineSchema<RawStandardPrediction>('StandardPrediction', {
+  type: Type.OBJECT,
+  properties: {
+    homeWinProbability: PROBABILITY,
+    drawProbability: PROBABILITY,
+    awayWinProbability: PROBABILITY,
+    summary: { type: Type.STRING, description: 'Concise 2-3 sentence summary' },
+    detailedAnalysis: { type: Type.STRING, description: '2 paragraphs analyzing form and key factors' },
+    keyFactors: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '1', maxItems: '5' },
+    markets: MARKETS
+  },
+  required: ['homeWinProbability', 'drawProbability', 'awayWinProbability', 'summary', 'detailedAnalysis', 'keyFactors'],
+  propertyOrdering: ['homeWinProbability', 'drawProbability', 'awayWinProbability', 'markets', 'summary', 'detailedAnalysis', 'keyFactors']
+});
+
+// --- Detailed forecast ---
+
+export interface RawScorerPrediction {
+  player: string;
+  team: string;
+  method: string;
+  likelihood: number;
+}
+
+export interface RawDetailedForecast {
+  predictedScore: string;
+  totalGoals: string;
+  expectedGoals?: { home: number; away: number };
+  firstTeamToScore?: string;
+  halfTimeWinner?: 'Home' | 'Draw' | 'Away';
+  secondHalfWinner?: 'Home' | 'Draw' | 'Away';
+  likelyScorers?: RawScorerPrediction[];
+  scoringMethodProbabilities?: {
+    penalty: number;
+    freeKick: number;
+    cornerHeader: number;
+    ownGoal: number;
+    outsideBox: number;
+  };
+  redCards?: string;
+  confidenceScore: 'High' | 'Medium' | 'Low';
+  reasoning: string;
+}
+
+// Properties each optional detailed field adds; the exact score and total line are always asked for
+const DETAILED_FIELD_PROPERTIES = (sport: SportDescriptor): Partial<Record<DetailedField, Record<string, Schema>>> => ({
+  expectedScore: {
+    expectedGoals: {
+      type: Type.OBJECT,
+      properties: {
+        home: EXPECTED_GOALS,
+        away: EXPECTED_GOALS
+      },
+      required: ['home', 'away']
+    }
+  },
+  firstToScore: {
+    firstTeamToScore: { type: Type.STRING, description: `Team name, or "None" when no ${sport.scoring.units} are predicted` }
+  },
+  periodWinners: {
+    halfTimeWinner: PERIOD_WINNER,
+    secondHalfWinner: PERIOD_WINNER
+  },
+  scorers: {
+    likelyScorers: {
+      type: Type.ARRAY,
+      maxItems: '5',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          player: { type: Type.STRING },
+          team: { type: Type.STRING },
+          method: { type: Type.STRING, description: `How the ${sport.scoring.unit} is most likely scored` },
+          likelihood: PERCENT
+        },
+        required: ['player', 'team', 'method', 'likelihood']
+      }
+    }
+  },
+  scoringMethods: {
+    scoringMethodProbabilities: {
+      type: Type.OBJECT,
+      properties: {
+        penalty: PERCENT,
+        freeKick: PERCENT,
+        cornerHeader: PERCENT,
+        ownGoal: PERCENT,
+        outsideBox: PERCENT
+      },
+      required: ['penalty', 'freeKick', 'cornerHeader', 'ownGoal', 'outsideBox']
+    }
+  },
+  discipline: {
+    redCards: { type: Type.STRING, description: 'e.g. "0 (90%)" or "1+ (15%)"' }
+  }
+});
+
+/**
+ * Detailed forecast schema for a sport: the exact score, total line,
+ * confidence and reasoning, plus only the parts its descriptor lists.
+ */
+export const detailedForecastSchema = (sportName: string): ResponseSchema<RawDetailedForecast> => {
+  const sport = describeSport(sportName);
+  const optional = DETAILED_FIELD_PROPERTIES(sport);
+  const extra = sport.detailedFields.reduce<Record<string, Schema>>((properties, field) => ({ ...properties, ...optional[field] }), {});
+  return defineSchema<RawDetailedForecast>('DetailedForecast', {
+    type: Type.OBJECT,
+    properties: {
+      predictedScore: { type: Type.STRING, pattern: '^\\d+-\\d+$', description: `Exact score in ${sport.scoring.units} as "home-away", e.g. "2-1"` },
+      totalGoals: { type: Type.STRING, description: `Total ${sport.scoring.units} line, e.g. "Over 2.5" or "Under 2.5"` },
+      ...extra,
+      confidenceScore: { type: Type.STRING, enum: ['High', 'Medium', 'Low'] },
+      reasoning: { type: Type.STRING, description: 'Brief data-driven explanation citing specific stats' }
+    },
+    required: ['predictedScore', 'totalGoals', ...Object.keys(extra), 'confidenceScore', 'reasoning']
+  });
+};
+
+// --- Basketball forecast ---
+
+export interface RawPlayerProjection {
+  player: string;
+  team: string;
+  points: number;
+  rebounds: number;
+  assists: number;
+}
+
+export interface RawBasketballForecast {
+  predictedScore: string;
+  pointSpread: number;
+  totalPointsLine: number;
+  totalPointsPick: 'Over' | 'Under';
+  quarterWinners: Array<'Home' | 'Draw' | 'Away'>;
+  topScorers: RawPlayerProjection[];
+  overtimeProbability: number;
+  confidenceScore: 'High' | 'Medium' | 'Low';
+  reasoning: string;
+}
+
+const STAT_LINE: Schema = { type: Type.NUMBER, minimum: 0, maximum: 80 };
+
+export const BASKETBALL_FORECAST_SCHEMA = defineSchema<RawBasketballForecast>('BasketballForecast', {
+  type: Type.OBJECT,
+  properties: {
+    predictedScore: { type: Type.STRING, pattern: '^\\d+-\\d+$', description: 'Final score including overtime as "home-away", e.g. "112-105"' },
+    pointSpread: { type: Type.NUMBER, description: 'Home handicap in points; negative when the home side is favoured, e.g. -6.5' },
+    totalPointsLine: { type: Type.NUMBER, minimum: 100, maximum: 300, description: 'Total points line, e.g. 224.5' },
+    totalPointsPick: { type: Type.STRING, enum: ['Over', 'Under'] },
+    quarterWinners: { type: Type.ARRAY, items: PERIOD_WINNER, minItems: '4', maxItems: '4' },
+    topScorers: {
+      type: Type.ARRAY,
+      maxItems: '6',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          player: { type: Type.STRING },
+          team: { type: Type.STRING },
+          points: STAT_LINE,
+          rebounds: STAT_LINE,
+          assists: STAT_LINE
+        },
+        required: ['player', 'team', 'points', 'rebounds', 'assists']
+      }
+    },
+    overtimeProbability: PERCENT,
+    confidenceScore: { type: Type.STRING, enum: ['High', 'Medium', 'Low'] },
+    reasoning: { type: Type.STRING, description: 'Brief data-driven explanation citing specific stats' }
+  },
+  required: [
+    'predictedScore', 'pointSpread', 'totalPointsLine', 'totalPointsPick', 'quarterWinners',
+    'topScorers', 'overtimeProbability', 'confidenceScore', 'reasoning'
+  ]
+});
+
+// --- Match results ---
+
+export interface RawMatchResult {
+  id: string;
+  homeScore: number;
+  awayScore: number;
+  winner: 'Home' | 'Draw' | 'Away';
+  isFinished: boolean;
+}
+
+export const MATCH_RESULTS_SCHEMA = defineSchema<RawMatchResult[]>('MatchResults', {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      homeScore: SCORE,
+      awayScore: SCORE,
+      winner: PERIOD_WINNER,
+      isFinished: { type: Type.BOOLEAN }
+    },
+    required: ['id', 'homeScore', 'awayScore', 'winner', 'isFinished']
+  }
+});
+
+// --- Backtest ---
+
+export const BACKTEST_CANDIDATES_SCHEMA = defineSchema<BacktestCandidate[]>('BacktestCandidates', {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      date: { type: Type.STRING, format: 'date', description: 'YYYY-MM-DD' },
+      homeTeam: { type: Type.STRING },
+      awayTeam: { type: Type.STRING },
+      homeScore: SCORE,
+      awayScore: SCORE
+    },
+    required: ['date', 'homeTeam', 'awayTeam', 'homeScore', 'awayScore']
+  }
+});
+
+export interface RawBacktestPrediction {
+  homeWinProbability: number;
+  drawProbability: number;
+  awayWinProbability: number;
+  explanation: string;
+}
+
+export const BACKTEST_PREDICTION_SCHEMA = defineSchema<RawBacktestPrediction>('BacktestPrediction', {
+  type: Type.OBJECT,
+  properties: {
+    homeWinProbability: PROBABILITY,
+    drawProbability: PROBABILITY,
+    awayWinProbability: PROBABILITY,
+    explanation: { type: Type.STRING }
+  },
+  required: ['homeWinProbability', 'drawProbability', 'awayWinProbability', 'explanation']
+});
@@ -0,0 +1,229 @@
+import { SchemaValidationError } from "./errors";
+import { appLogger } from "../utils/logger";
+import { downloadFile } from "../utils/download";
+
+const VERSIONS_KEY = 'probable_play_schema_versions_v1';
+const QUARANTINE_KEY = 'probable_play_quarantine_v1';
+
+// Data persisted before versioning existed is read as this version
+export const UNVERSIONED = 1;
+
+/**
+ * One step in a store's upgrade path. `migrate` receives a record at version
+ * `to - 1` and returns it at version `to`; throwing rejects the record.
+ * Records are untyped until `validate` accepts them at the end of the chain,
+ * so a migration checks whatever it reads.
+ */
+export interface Migration {
+  to: number;
+  description: string;
+  migrate: (record: unknown) => unknown;
+}
+
+/**
+ * Versioned shape of the records in one persisted store. `validate` throws a
+ * SchemaValidationError when a record does not match the current version.
+ */
+export interface StoreSchema<T> {
+  store: string;
+  label: string;
+  version: number;
+  migrations: Migration[];
+  validate(record: unknown): asserts record is T;
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  store: string;
+  fromVersion: number;
+  reason: string;
+  record: unknown;
+  quarantinedAt: number;
+}
+
+export interface MigrationOutcome<T> {
+  records: T[];
+  rejected: unknown[]; // the original records that were quarantined
+  migrated: boolean; // records were rewritten and should be persisted
+}
+
+type QuarantineListener = () => void;
+
+const listeners = new Set<QuarantineListener>();
+
+const readVersions = (): Record<string, number> => {
+  try {
+    const stored = localStorage.getItem(VERSIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    appLogger.warn('Failed to read schema versions', e);
+    return {};
+  }
+};
+
+const readQuarantine = (): QuarantinedRecord[] => {
+  try {
+    const stored = localStorage.getItem(QUARANTINE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    appLogger.warn('Failed to read quarantined records', e);
+    return [];
+  }
+};
+
+const writeQuarantine = (records: QuarantinedRecord[]) => {
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify(records));
+  listeners.forEach((listener) => listener());
+};
+
+const newId = () =>
+  crypto.randomUUID ? crypto.randomUUID() : `q-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Checks that a store's migrations are listed in order, one per version, up
+ * to the schema's current version.
+ */
+export const defineStoreSchema = <T>(schema: StoreSchema<T>): StoreSchema<T> => {
+  schema.migrations.forEach((migration, i) => {
+    if (migration.to !== UNVERSIONED + i + 1) {
+      throw new Error(`${schema.store} migration "${migration.description}" targets v${migration.to}, expected v${UNVERSIONED + i + 1}`);
+    }
+  });
+  if (schema.version !== UNVERSIONED + schema.migrations.length) {
+    throw new Error(`${schema.store} is at v${schema.version} but has migrations up to v${UNVERSIONED + schema.migrations.length}`);
+  }
+  return schema;
+};
+
+// The version each store's persisted records are currently at
+export const schemaVersions = {
+  storedVersion: (store: string): number => readVersions()[store] ?? UNVERSIONED,
+
+  setStoredVersion: (store: string, version: number) => {
+    localStorage.setItem(VERSIONS_KEY, JSON.stringify({ ...readVersions(), [store]: version }));
+  }
+};
+
+export interface UpgradeOutcome<T> {
+  records: T[];
+  failures: Array<{ record: unknown; reason: string }>;
+}
+
+/**
+ * Runs records written at version `from` through the schema's migrations and
+ * validates each one. Nothing is persisted; failures are returned with the
+ * original record.
+ */
+export const upgradeRecords = <T>(schema: StoreSchema<T>, records: unknown[], from: number): UpgradeOutcome<T> => {
+  const steps = schema.migrations.filter((migration) => migration.to > from);
+  const valid: T[] = [];
+  const failures: UpgradeOutcome<T>['failures'] = [];
+  records.forEach((record) => {
+    try {
+      const migrated = steps.reduce((current, step) => step.migrate(current), record);
+      schema.validate(migrated);
+      valid.push(migrated);
+    } catch (e) {
+      failures.push({ record, reason: e instanceof Error ? e.message : String(e) });
+    }
+  });
+  return { records: valid, failures };
+};
+
+/**
+ * Brings persisted records up to the schema's current version and validates
+ * every one. Records that fail a migration or validation are moved to the
+ * quarantine rather than dropped. Data written by a newer build is validated
+ * but not downgraded.
+ *
+ * `source` names where the records live, for stores kept in more than one
+ * place. The stored version is not advanced here: once the migrated records
+ * are written back, the caller calls `commitMigration` with the same source.
+ */
+export const migrateRecords = <T>(schema: StoreSchema<T>, records: unknown[], source = schema.store): MigrationOutcome<T> => {
+  const from = schemaVersions.storedVersion(source);
+  if (from > schema.version) {
+    appLogger.warn(`${source} was written by a newer version (v${from}, this build reads v${schema.version})`);
+  }
+  const migrated = from < schema.version;
+  const { records: valid, failures } = upgradeRecords(schema, records, from);
+
+  if (failures.length > 0) {
+    appLogger.warn(`Quarantined ${failures.length} ${source} record(s) that could not be loaded`, failures.map((f) => f.reason));
+    const quarantinedAt = Date.now();
+    writeQuarantine([
+      ...readQuarantine(),
+      ...failures.map(({ record, reason }) => ({ id: newId(), store: schema.store, fromVersion: from, reason, record, quarantinedAt }))
+    ]);
+  }
+  if (migrated) {
+    appLogger.info(`Migrated ${valid.length} ${source} record(s) from v${from} to v${schema.version}`);
+  }
+
+  return { records: valid, rejected: failures.map((f) => f.record), migrated };
+};
+
+// Marks a source's records as current, after `migrateRecords` output for it has been persisted
+export const commitMigration = <T>(schema: StoreSchema<T>, source = schema.store) => {
+  schemaVersions.setStoredVersion(source, schema.version);
+};
+
+/**
+ * Records set aside by `migrateRecords`. Kept until the user exports or
+ * discards them, so a bad migration never loses data.
+ */
+export const quarantine = {
+  list: (store?: string): QuarantinedRecord[] =>
+    readQuarantine().filter((record) => store === undefined || record.store === store),
+
+  /**
+   * Triggers a browser download of quarantined records as a JSON file, so
+   * they can be repaired by hand or attached to a bug report.
+   */
+  download: (store?: string) => {
+    downloadFile(`probable-play-quarantine${store ? `-${store}` : ''}.json`, JSON.stringify(quarantine.list(store), null, 2), 'application/json');
+  },
+
+  discard: (ids: string[]) => {
+    const removed = new Set(ids);
+    writeQuarantine(readQuarantine().filter((record) => !removed.has(record.id)));
+  },
+
+  subscribe: (listener: QuarantineListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/**
+ * The value at `path` (dots for nesting) in a record not yet validated, or
+ * undefined when any step along the way is missing.
+ */
+export const readField = (record: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((current, part) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[part] : undefined), record);
+
+const typeOf = (value: unknown): string => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+/**
+ * Throws unless `record[path]` has the given type. `path` uses dots for
+ * nesting, e.g. `match.homeTeam`. Optional fields may be absent.
+ */
+export const expectField = (schemaName: string, record: unknown, path: string, type: FieldType, optional = false) => {
+  const value = readField(record, path);
+  if (value === undefined && optional) return;
+  const actual = typeOf(value);
+  if (actual !== type || (type === 'number' && !Number.isFinite(value))) {
+    throw new SchemaValidationError(schemaName, path, `should be ${type === 'array' || type === 'object' ? 'an' : 'a'} ${type}, got ${actual}`);
+  }
+};
+
+export const expectOneOf = (schemaName: string, record: unknown, path: string, allowed: readonly string[]) => {
+  const value = readField(record, path);
+  if (!allowed.includes(value as string)) {
+    throw new SchemaValidationError(schemaName, path, `should be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+  }
+};
@@ -0,0 +1,180 @@
+import { PredictionProbabilities, DetailedForecastResult } from "../types";
+import { SCORELINE_PARAMETERS, ScorelineParameters } from "../constants";
+
+export interface Scoreline {
+  home: number;
+  away: number;
+}
+
+export interface ScorelineMatrix {
+  homeExpectedGoals: number;
+  awayExpectedGoals: number;
+  rho: number; // after clamping to the range that keeps every cell non-negative
+  // cells[home][away], summing to 1 over the truncated grid
+  cells: number[][];
+}
+
+export interface OverUnderLine {
+  line: number;
+  over: number;
+  under: number;
+}
+
+export interface ScorelineMarkets {
+  outcome: PredictionProbabilities;
+  overUnder: OverUnderLine[];
+  bothTeamsToScore: number;
+  homeCleanSheet: number;
+  awayCleanSheet: number;
+  mostLikely: Scoreline & { probability: number };
+}
+
+export interface StatedScoreCheck {
+  stated: Scoreline;
+  probability: number;
+  rank: number; // 1 = the matrix's most likely score
+  disagreements: string[];
+}
+
+const poissonPmf = (lambda: number, maxGoals: number): number[] => {
+  const pmf = [Math.exp(-lambda)];
+  for (let k = 1; k <= maxGoals; k++) pmf.push((pmf[k - 1] * lambda) / k);
+  return pmf;
+};
+
+/**
+ * Dixon-Coles correction for the four low scores where independent Poisson
+ * misprices the dependence between the two sides.
+ */
+const tau = (home: number, away: number, lambda: number, mu: number, rho: number): number => {
+  if (home === 0 && away === 0) return 1 - lambda * mu * rho;
+  if (home === 0 && away === 1) return 1 + lambda * rho;
+  if (home === 1 && away === 0) return 1 + mu * rho;
+  if (home === 1 && away === 1) return 1 - rho;
+  return 1;
+};
+
+const clampRho = (rho: number, lambda: number, mu: number): number => {
+  const lower = Math.max(-1 / Math.max(lambda, 1e-9), -1 / Math.max(mu, 1e-9));
+  const upper = Math.min(1 / Math.max(lambda * mu, 1e-9), 1);
+  return Math.min(upper, Math.max(lower, rho));
+};
+
+/**
+ * Correct-score distribution from each side's expected goals.
+ */
+export const buildScorelineMatrix = (
+  homeExpectedGoals: number,
+  awayExpectedGoals: number,
+  params: Pick<ScorelineParameters, 'rho' | 'maxGoals'> = SCORELINE_PARAMETERS
+): ScorelineMatrix => {
+  const lambda = Math.max(0, homeExpectedGoals);
+  const mu = Math.max(0, awayExpectedGoals);
+  const rho = clampRho(params.rho, lambda, mu);
+  const homePmf = poissonPmf(lambda, params.maxGoals);
+  const awayPmf = poissonPmf(mu, params.maxGoals);
+
+  const cells = homePmf.map((ph, h) => awayPmf.map((pa, a) => ph * pa * tau(h, a, lambda, mu, rho)));
+  const total = cells.reduce((sum, row) => sum + row.reduce((s, p) => s + p, 0), 0);
+
+  return {
+    homeExpectedGoals: lambda,
+    awayExpectedGoals: mu,
+    rho,
+    cells: cells.map((row) => row.map((p) => p / total))
+  };
+};
+
+const sumWhere = (matrix: ScorelineMatrix, predicate: (home: number, away: number) => boolean): number =>
+  matrix.cells.reduce(
+    (sum, row, h) => sum + row.reduce((s, p, a) => (predicate(h, a) ? s + p : s), 0),
+    0
+  );
+
+const rankedScorelines = (matrix: ScorelineMatrix) =>
+  matrix.cells
+    .flatMap((row, home) => row.map((probability, away) => ({ home, away, probability })))
+    .sort((a, b) => b.probability - a.probability);
+
+/**
+ * Markets derived from a matrix, so 1X2, totals and BTTS can never contradict
+ * one another.
+ */
+export const deriveMarkets = (
+  matrix: ScorelineMatrix,
+  lines: number[] = SCORELINE_PARAMETERS.overUnderLines
+): ScorelineMarkets => ({
+  outcome: {
+    homeWin: sumWhere(matrix, (h, a) => h > a),
+    draw: sumWhere(matrix, (h, a) => h === a),
+    awayWin: sumWhere(matrix, (h, a) => h < a)
+  },
+  overUnder: lines.map((line) => {
+    const over = sumWhere(matrix, (h, a) => h + a > line);
+    return { line, over, under: 1 - over };
+  }),
+  bothTeamsToScore: sumWhere(matrix, (h, a) => h > 0 && a > 0),
+  homeCleanSheet: sumWhere(matrix, (_h, a) => a === 0),
+  awayCleanSheet: sumWhere(matrix, (h) => h === 0),
+  mostLikely: rankedScorelines(matrix)[0]
+});
+
+export const parseScoreline = (score: string): Scoreline | null => {
+  const match = score.match(/^\s*(\d+)\s*-\s*(\d+)\s*$/);
+  return match ? { home: Number(match[1]), away: Number(match[2]) } : null;
+};
+
+export const parseTotalGoals = (text: string): { side: 'over' | 'under'; line: number } | null => {
+  const match = text.match(/\b(over|under)\s*(\d+(?:\.\d+)?)/i);
+  return match ? { side: match[1].toLowerCase() as 'over' | 'under', line: Number(match[2]) } : null;
+};
+
+const outcomeOf = (home: number, away: number) => (home > away ? 'a home win' : home < away ? 'an away win' : 'a draw');
+
+/**
+ * Compares the model's stated score and total-goals call with the
+ * distribution implied by its own expected goals. Returns null when the
+ * forecast has no expected goals or an unparseable score.
+ */
+export const checkStatedScore = (
+  forecast: Pick<DetailedForecastResult, 'predictedScore' | 'totalGoals' | 'expectedGoals'>,
+  params: ScorelineParameters = SCORELINE_PARAMETERS
+): StatedScoreCheck | null => {
+  const stated = parseScoreline(forecast.predictedScore);
+  if (!forecast.expectedGoals || !stated) return null;
+
+  const matrix = buildScorelineMatrix(forecast.expectedGoals.home, forecast.expectedGoals.away, params);
+  const markets = deriveMarkets(matrix, params.overUnderLines);
+  const ranked = rankedScorelines(matrix);
+  const index = ranked.findIndex((s) => s.home === stated.home && s.away === stated.away);
+  // Scores beyond the grid rank after every cell
+  const rank = index === -1 ? ranked.length + 1 : index + 1;
+  const probability = index === -1 ? 0 : ranked[index].probability;
+
+  const disagreements: string[] = [];
+  if (rank > params.disagreementRank) {
+    disagreements.push(
+      `Stated score ${stated.home}-${stated.away} is only the #${rank} most likely score; the expected goals favour ${markets.mostLikely.home}-${markets.mostLikely.away}.`
+    );
+  }
+
+  const { homeWin, draw, awayWin } = markets.outcome;
+  const favourite = homeWin >= draw && homeWin >= awayWin ? 'a home win' : awayWin >= draw ? 'an away win' : 'a draw';
+  // The modal score is often a draw even when one side is favoured, so that case is not a disagreement
+  if (rank > 1 && outcomeOf(stated.home, stated.away) !== favourite) {
+    disagreements.push(`Stated score implies ${outcomeOf(stated.home, stated.away)}, but the distribution favours ${favourite}.`);
+  }
+
+  const total = parseTotalGoals(forecast.totalGoals);
+  if (total) {
+    const over = sumWhere(matrix, (h, a) => h + a > total.line);
+    const chance = total.side === 'over' ? over : 1 - over;
+    if (chance < 0.5) {
+      disagreements.push(
+        `"${forecast.totalGoals}" has only a ${Math.round(chance * 100)}% chance under the expected goals.`
+      );
+    }
+  }
+
+  return { stated, probability, rank, disagreements };
+};
@@ -0,0 +1,313 @@
+import { Match, MarketPrediction, Outcome, PredictionProbabilities, SportFilter } from "../types";
+import { DEFAULT_MATCH_DURATION_MINUTES } from "../constants";
+import { appLogger } from "../utils/logger";
+
+/**
+ * Parts of the detailed forecast that make sense for a sport. The prompt and
+ * response schema ask only for these, consistency rules for the rest are
+ * skipped and views hide them. The exact score and total line are always
+ * asked for.
+ */
+export type DetailedField =
+  | 'exactScore'
+  | 'totalLine'
+  | 'expectedScore'
+  | 'firstToScore'
+  | 'periodWinners'
+  | 'scorers'
+  | 'scoringMethods'
+  | 'discipline';
+
+// Which detailed forecast a sport gets: the goal-based match forecast or the basketball one
+export type DetailedForecastKind = 'match' | 'basketball';
+
+/**
+ * A market the standard prediction prices alongside the win market, such as
+ * set betting in tennis. Selections are mutually exclusive.
+ */
+export interface MarketDescriptor {
+  id: string;
+  label: string;
+  selections: string[];
+  description?: string; // extra guidance for the model
+  appliesTo?: (match: Match) => boolean; // absent when every match of the sport has the market
+}
+
+export interface SportDescriptor {
+  id: string; // as stored on Match.sport, e.g. "Football"
+  label: string; // as named in the fixture search, e.g. "Football (Soccer)"
+  emoji: string; // filter tabs and match cards
+  leagues: string[]; // competitions the fixture search covers
+  scheduleNotes?: string; // extra instruction for the fixture search, e.g. a time zone to convert from
+  outcomes: Outcome[]; // the full-time market; no 'Draw' when ties are played off
+  markets: MarketDescriptor[];
+  scoring: { unit: string; units: string }; // e.g. goal / goals
+  periods: { count: number; name: string; plural: string }; // e.g. 2 half / halves
+  durationMinutes: number; // typical kickoff-to-final-whistle time, including breaks
+  detailedKind: DetailedForecastKind;
+  detailedFields: DetailedField[]; // for the match forecast
+}
+
+export const THREE_WAY: Outcome[] = ['Home', 'Draw', 'Away'];
+export const TWO_WAY: Outcome[] = ['Home', 'Away'];
+
+const descriptors = new Map<string, SportDescriptor>();
+
+// Sports without a descriptor keep the original three-way behaviour
+const GENERIC_SPORT: SportDescriptor = {
+  id: 'Other',
+  label: 'Other',
+  emoji: '🏅',
+  leagues: [],
+  outcomes: THREE_WAY,
+  markets: [],
+  scoring: { unit: 'point', units: 'points' },
+  periods: { count: 2, name: 'half', plural: 'halves' },
+  durationMinutes: DEFAULT_MATCH_DURATION_MINUTES,
+  detailedKind: 'match',
+  detailedFields: ['exactScore', 'totalLine', 'firstToScore', 'periodWinners', 'scorers']
+};
+
+export const sportRegistry = {
+  register: (descriptor: SportDescriptor): SportDescriptor => {
+    if (descriptor.outcomes.length < 2 || !descriptor.outcomes.includes('Home') || !descriptor.outcomes.includes('Away')) {
+      throw new Error(`Sport "${descriptor.id}" must have at least Home and Away outcomes`);
+    }
+    const key = descriptor.id.toLowerCase();
+    if (descriptors.has(key)) {
+      appLogger.warn(`Sport "${descriptor.id}" registered twice; replacing previous entry`);
+    }
+    descriptors.set(key, descriptor);
+    return descriptor;
+  },
+
+  get: (sport: string): SportDescriptor | undefined => descriptors.get(sport.toLowerCase()),
+
+  list: (): SportDescriptor[] => Array.from(descriptors.values())
+};
+
+export const defineSport = (descriptor: SportDescriptor): SportDescriptor => sportRegistry.register(descriptor);
+
+/**
+ * The descriptor for a sport name, or a generic three-way one when the sport
+ * is not registered.
+ */
+export const describeSport = (sport: string): SportDescriptor => sportRegistry.get(sport) ?? GENERIC_SPORT;
+
+// Filter tabs, in registration order
+export const sportTabs = (): SportFilter[] => ['All', ...sportRegistry.list().map((d) => d.id)];
+
+export const supportedLeagues = (): string[] => sportRegistry.list().flatMap((d) => d.leagues);
+
+export const matchesSportFilter = (sport: string, filter: SportFilter): boolean =>
+  filter === 'All' || sport.toLowerCase() === filter.toLowerCase();
+
+export const usesBasketballForecast = (sport: string): boolean => describeSport(sport).detailedKind === 'basketball';
+
+export const allowsDraw = (sport: string): boolean => describeSport(sport).outcomes.includes('Draw');
+
+/**
+ * Restricts probabilities to the sport's outcome set and rescales them to sum
+ * to 1. Returns null when nothing is left to rescale, so callers decide
+ * whether that is an error or calls for a uniform fallback.
+ */
+export const normalizeProbabilities = (raw: PredictionProbabilities, sport: string): PredictionProbabilities | null => {
+  const draws = allowsDraw(sport);
+  const homeWin = Math.max(0, raw.homeWin);
+  const draw = draws ? Math.max(0, raw.draw) : 0;
+  const awayWin = Math.max(0, raw.awayWin);
+  const sum = homeWin + draw + awayWin;
+  if (!(sum > 0)) return null;
+  return { homeWin: homeWin / sum, draw: draw / sum, awayWin: awayWin / sum };
+};
+
+// Equal chances over the sport's outcomes
+export const uniformProbabilities = (sport: string): PredictionProbabilities => {
+  const { outcomes } = describeSport(sport);
+  const share = 1 / outcomes.length;
+  return {
+    homeWin: share,
+    draw: outcomes.includes('Draw') ? share : 0,
+    awayWin: share
+  };
+};
+
+export interface RawMarket {
+  id: string;
+  selections: Array<{ name: string; probability: number }>;
+}
+
+// The sport's markets that apply to this match, e.g. set betting for its number of sets
+export const marketsFor = (match: Match): MarketDescriptor[] =>
+  describeSport(match.sport).markets.filter((market) => !market.appliesTo || market.appliesTo(match));
+
+/**
+ * Keeps the match's declared markets, in descriptor order, with every
+ * declared selection present (missing ones at 0) and probabilities rescaled
+ * to sum to 1. Unknown markets and selections are dropped, as is a market
+ * with no probability left to rescale.
+ */
+export const normalizeMarkets = (raw: RawMarket[] | undefined, match: Match): MarketPrediction[] => {
+  const markets: MarketPrediction[] = [];
+  marketsFor(match).forEach((market) => {
+    const found = raw?.find((m) => m.id === market.id);
+    if (!found) return;
+    const weights = market.selections.map((name) => {
+      const selection = found.selections.find((s) => s.name.toLowerCase() === name.toLowerCase());
+      return Math.max(0, selection?.probability ?? 0);
+    });
+    const sum = weights.reduce((a, b) => a + b, 0);
+    if (!(sum > 0)) return;
+    markets.push({
+      id: market.id,
+      label: market.label,
+      selections: market.selections.map((name, i) => ({ name, probability: weights[i] / sum }))
+    });
+  });
+  return markets;
+};
+
+// e.g. "1st quarter", "2nd half"
+export const periodLabel = (sport: string, index: number): string => {
+  const { periods } = describeSport(sport);
+  const ordinal = ['1st', '2nd', '3rd'][index] ?? `${index + 1}th`;
+  return `${ordinal} ${periods.name}`;
+};
+
+// --- Built-in sports ---
+
+export const FOOTBALL = defineSport({
+  id: 'Football',
+  label: 'Football (Soccer)',
+  emoji: '⚽',
+  leagues: ['English Premier League', 'Bundesliga', 'La Liga', 'Serie A', 'Ligue 1', 'Eredivisie', 'Champions League'],
+  outcomes: THREE_WAY,
+  markets: [],
+  scoring: { unit: 'goal', units: 'goals' },
+  periods: { count: 2, name: 'half', plural: 'halves' },
+  durationMinutes: 115,
+  detailedKind: 'match',
+  detailedFields: ['exactScore', 'totalLine', 'expectedScore', 'firstToScore', 'periodWinners', 'scorers', 'scoringMethods', 'discipline']
+});
+
+// Level games go to overtime, so there is no draw market
+export const BASKETBALL = defineSport({
+  id: 'NBA',
+  label: 'Basketball',
+  emoji: '🏀',
+  leagues: ['NBA'],
+  scheduleNotes: 'Tip-off times are usually published in ET; convert them to UTC.',
+  outcomes: TWO_WAY,
+  markets: [],
+  scoring: { unit: 'point', units: 'points' },
+  periods: { count: 4, name: 'quarter', plural: 'quarters' },
+  durationMinutes: 150,
+  detailedKind: 'basketball',
+  detailedFields: ['exactScore', 'totalLine', 'firstToScore', 'scorers']
+});
+
+// Regular-season ties are rare and moneyline markets push them, so two-way
+export const AMERICAN_FOOTBALL = defineSport({
+  id: 'NFL',
+  label: 'American Football',
+  emoji: '🏈',
+  leagues: ['NFL'],
+  scheduleNotes: 'Kickoff times are usually published in ET; convert them to UTC.',
+  outcomes: TWO_WAY,
+  markets: [
+    {
+      id: 'winningMargin',
+      label: 'Winning Margin',
+      selections: ['Home 1-6', 'Home 7-13', 'Home 14+', 'Away 1-6', 'Away 7-13', 'Away 14+']
+    }
+  ],
+  scoring: { unit: 'point', units: 'points' },
+  periods: { count: 4, name: 'quarter', plural: 'quarters' },
+  durationMinutes: 195,
+  detailedKind: 'match',
+  detailedFields: ['exactScore', 'totalLine', 'firstToScore', 'scorers']
+});
+
+// The win market is the moneyline, overtime and shootout included; the
+// regulation result and how the game is settled are priced separately
+export const HOCKEY = defineSport({
+  id: 'NHL',
+  label: 'Ice Hockey',
+  emoji: '🏒',
+  leagues: ['NHL'],
+  scheduleNotes: 'Puck drop times are usually published in ET; convert them to UTC.',
+  outcomes: TWO_WAY,
+  markets: [
+    {
+      id: 'regulationResult',
+      label: 'Regulation Result',
+      selections: ['Home', 'Draw', 'Away'],
+      description: 'result after 60 minutes, before any overtime'
+    },
+    {
+      id: 'decidedIn',
+      label: 'Decided In',
+      selections: ['Regulation', 'Overtime', 'Shootout']
+    }
+  ],
+  scoring: { unit: 'goal', units: 'goals' },
+  periods: { count: 3, name: 'period', plural: 'periods' },
+  durationMinutes: 150,
+  detailedKind: 'match',
+  detailedFields: ['exactScore', 'totalLine', 'firstToScore', 'scorers']
+});
+
+export const BASEBALL = defineSport({
+  id: 'MLB',
+  label: 'Baseball',
+  emoji: '⚾',
+  leagues: ['MLB'],
+  scheduleNotes: 'First pitch times are usually published in ET; convert them to UTC.',
+  outcomes: TWO_WAY,
+  markets: [
+    {
+      id: 'extraInnings',
+      label: 'Extra Innings',
+      selections: ['No', 'Yes']
+    }
+  ],
+  scoring: { unit: 'run', units: 'runs' },
+  periods: { count: 9, name: 'inning', plural: 'innings' },
+  durationMinutes: 180,
+  detailedKind: 'match',
+  detailedFields: ['exactScore', 'totalLine', 'firstToScore']
+});
+
+// Tour matches are best of three; fixtures without a reported format are treated as such
+const setsOf = (match: Match) => (match.bestOf === 5 ? 5 : 3);
+
+// Home is the first-named player; scores count sets
+export const TENNIS = defineSport({
+  id: 'Tennis',
+  label: 'Tennis',
+  emoji: '🎾',
+  leagues: ['ATP', 'WTA'],
+  scheduleNotes: 'Use the player names as homeTeam and awayTeam, the first-named player as homeTeam, and the tour (ATP or WTA) as league. Set bestOf to 5 for best-of-five matches (men\'s Grand Slam singles) and 3 otherwise.',
+  outcomes: TWO_WAY,
+  markets: [
+    {
+      id: 'setBetting',
+      label: 'Set Betting',
+      selections: ['2-0', '2-1', '1-2', '0-2'],
+      description: 'sets won by the first-named player, then the second; best of three sets',
+      appliesTo: (match) => setsOf(match) === 3
+    },
+    {
+      id: 'setBetting',
+      label: 'Set Betting',
+      selections: ['3-0', '3-1', '3-2', '2-3', '1-3', '0-3'],
+      description: 'sets won by the first-named player, then the second; best of five sets',
+      appliesTo: (match) => setsOf(match) === 5
+    }
+  ],
+  scoring: { unit: 'set', units: 'sets' },
+  periods: { count: 3, name: 'set', plural: 'sets' },
+  durationMinutes: 150,
+  detailedKind: 'match',
+  detailedFields: ['exactScore', 'totalLine']
+});
@@ -0,0 +1,121 @@
+import { BacktestResultItem, HistoryItem, Match } from "../types";
+import { defineStoreSchema, expectField, expectOneOf, readField, StoreSchema } from "./schemaMigrations";
+import { SchemaValidationError } from "./errors";
+import { canonicalMatchKey, hasCanonicalId } from "./teamRegistry";
+
+/**
+ * Schemas for everything persisted across sessions. To change a stored
+ * shape, bump the schema's version and append a migration that rewrites a
+ * record from the previous version; records it cannot handle are
+ * quarantined, not lost.
+ */
+
+const OUTCOMES = ['Home', 'Draw', 'Away'] as const;
+const MATCH_STATUSES = ['Scheduled', 'Live', 'Finished'] as const;
+
+const validateMatch = (schemaName: string, record: unknown, prefix: string) => {
+  const at = (field: string) => (prefix ? `${prefix}.${field}` : field);
+  ['id', 'sport', 'league', 'homeTeam', 'awayTeam', 'startTime'].forEach((field) => expectField(schemaName, record, at(field), 'string'));
+  expectOneOf(schemaName, record, at('status'), MATCH_STATUSES);
+  expectField(schemaName, record, at('score'), 'object', true);
+};
+
+const validateProbabilities = (schemaName: string, record: unknown, path: string) => {
+  ['homeWin', 'draw', 'awayWin'].forEach((field) => expectField(schemaName, record, `${path}.${field}`, 'number'));
+};
+
+const isMatchIdentity = (value: unknown): value is Pick<Match, 'id' | 'sport' | 'homeTeam' | 'awayTeam' | 'startTime'> =>
+  ['id', 'sport', 'homeTeam', 'awayTeam', 'startTime'].every((field) => typeof readField(value, field) === 'string');
+
+export const HISTORY_SCHEMA = defineStoreSchema<HistoryItem>({
+  store: 'history',
+  label: 'Prediction history',
+  version: 2,
+  migrations: [
+    {
+      to: 2,
+      // Ids used to be whatever the model returned, so old snapshots never matched a fixture loaded today
+      description: 'Identify matches saved before stable match ids by their canonical fixture key',
+      migrate: (record) => {
+        const match = readField(record, 'match');
+        if (!isMatchIdentity(match) || hasCanonicalId(match)) return record;
+        return { ...(record as Record<string, unknown>), match: { ...match, id: canonicalMatchKey(match) } };
+      }
+    }
+  ],
+  validate: (item) => {
+    const name = 'HistoryItem';
+    expectField(name, item, 'id', 'string');
+    expectField(name, item, 'timestamp', 'number');
+    expectOneOf(name, item, 'type', ['STANDARD', 'DETAILED']);
+    validateMatch(name, item, 'match');
+
+    if (readField(item, 'type') === 'STANDARD') {
+      validateProbabilities(name, item, 'standardPrediction.probabilities');
+      expectField(name, item, 'standardPrediction.keyFactors', 'array');
+    } else if (readField(item, 'basketballForecast')) {
+      expectField(name, item, 'basketballForecast.predictedScore', 'string');
+      expectField(name, item, 'basketballForecast.pointSpread', 'number');
+      expectField(name, item, 'basketballForecast.quarterWinners', 'array');
+      expectField(name, item, 'basketballForecast.topScorers', 'array');
+    } else if (readField(item, 'detailedForecast')) {
+      expectField(name, item, 'detailedForecast.predictedScore', 'string');
+      // Only sports whose forecast asks for scorers and scoring methods have them
+      expectField(name, item, 'detailedForecast.likelyScorers', 'array', true);
+      expectField(name, item, 'detailedForecast.scoringMethodProbabilities', 'object', true);
+    } else {
+      throw new SchemaValidationError(name, 'detailedForecast', 'is missing on a DETAILED item');
+    }
+
+    if (readField(item, 'result') !== undefined) {
+      expectField(name, item, 'result.homeScore', 'number');
+      expectField(name, item, 'result.awayScore', 'number');
+      expectOneOf(name, item, 'result.winner', OUTCOMES);
+      expectField(name, item, 'result.isFinished', 'boolean');
+    }
+  }
+});
+
+// One cached day of fixtures; the cache itself is keyed by date
+export interface FixtureCacheRecord {
+  date: string; // YYYY-MM-DD
+  fetchedAt: number;
+  providerId: string;
+  matches: Match[];
+}
+
+export const FIXTURE_CACHE_SCHEMA = defineStoreSchema<FixtureCacheRecord>({
+  store: 'fixtures',
+  label: 'Matches cache',
+  version: 1,
+  migrations: [],
+  validate: (record) => {
+    const name = 'FixtureCache';
+    expectField(name, record, 'date', 'string');
+    expectField(name, record, 'fetchedAt', 'number');
+    expectField(name, record, 'providerId', 'string');
+    expectField(name, record, 'matches', 'array');
+    (readField(record, 'matches') as unknown[]).forEach((match, i) => validateMatch(`${name}.matches[${i}]`, match, ''));
+  }
+});
+
+export const BACKTEST_SCHEMA = defineStoreSchema<BacktestResultItem>({
+  store: 'backtests',
+  label: 'Backtest results',
+  version: 1,
+  migrations: [],
+  validate: (item) => {
+    const name = 'BacktestResult';
+    ['id', 'date', 'homeTeam', 'awayTeam'].forEach((field) => expectField(name, item, field, 'string'));
+    expectField(name, item, 'sport', 'string', true);
+    expectField(name, item, 'actualHomeScore', 'number');
+    expectField(name, item, 'actualAwayScore', 'number');
+    expectOneOf(name, item, 'actualWinner', OUTCOMES);
+    expectOneOf(name, item, 'predictedWinner', OUTCOMES);
+    validateProbabilities(name, item, 'predictedProbabilities');
+    expectField(name, item, 'isCorrect', 'boolean');
+  }
+});
+
+// Listed in Settings with their versions and quarantined records
+export const STORE_SCHEMAS: StoreSchema<unknown>[] = [HISTORY_SCHEMA, FIXTURE_CACHE_SCHEMA, BACKTEST_SCHEMA];
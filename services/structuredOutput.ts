@@ -0,0 +1,139 @@
+import { GenerateContentConfig, Schema, Type } from "@google/genai";
+import { ResponseSchema } from "./responseSchemas";
+import { ResponseParseError, SchemaValidationError } from "./errors";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const validateNode = (value: unknown, schema: Schema, path: string, schemaName: string): void => {
+  const fail = (reason: string): never => {
+    throw new SchemaValidationError(schemaName, path, reason);
+  };
+
+  if (value === null || value === undefined) {
+    if (schema.nullable) return;
+    fail('is missing');
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) fail(`must be an object, got ${describeValue(value)}`);
+      const record = value as Record<string, unknown>;
+      (schema.required || []).forEach((key) => {
+        if (record[key] === undefined || record[key] === null) {
+          if (!schema.properties?.[key]?.nullable) {
+            throw new SchemaValidationError(schemaName, `${path}.${key}`, 'is missing');
+          }
+        }
+      });
+      Object.entries(schema.properties || {}).forEach(([key, child]) => {
+        if (record[key] !== undefined) validateNode(record[key], child, `${path}.${key}`, schemaName);
+      });
+      return;
+    }
+
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) fail(`must be an array, got ${describeValue(value)}`);
+      const items = value as unknown[];
+      if (schema.minItems !== undefined && items.length < Number(schema.minItems)) fail(`must have at least ${schema.minItems} items`);
+      if (schema.maxItems !== undefined && items.length > Number(schema.maxItems)) fail(`must have at most ${schema.maxItems} items`);
+      if (schema.items) {
+        items.forEach((item, idx) => validateNode(item, schema.items!, `${path}[${idx}]`, schemaName));
+      }
+      return;
+    }
+
+    case Type.STRING: {
+      if (typeof value !== 'string') fail(`must be a string, got ${describeValue(value)}`);
+      const str = value as string;
+      if (str.trim().length === 0) fail('must not be empty');
+      if (schema.enum && !schema.enum.includes(str)) fail(`must be one of ${schema.enum.join(', ')}, got "${str}"`);
+      if (schema.pattern && !new RegExp(schema.pattern).test(str)) fail(`must match ${schema.pattern}, got "${str}"`);
+      if (schema.format === 'date-time' && !Number.isFinite(Date.parse(str))) fail(`must be an ISO 8601 timestamp, got "${str}"`);
+      if (schema.format === 'date' && (!DATE_ONLY.test(str) || !Number.isFinite(Date.parse(str)))) fail(`must be a YYYY-MM-DD date, got "${str}"`);
+      return;
+    }
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(`must be a number, got ${describeValue(value)}`);
+      const num = value as number;
+      if (schema.type === Type.INTEGER && !Number.isInteger(num)) fail(`must be an integer, got ${num}`);
+      if (schema.minimum !== undefined && num < schema.minimum) fail(`must be >= ${schema.minimum}, got ${num}`);
+      if (schema.maximum !== undefined && num > schema.maximum) fail(`must be <= ${schema.maximum}, got ${num}`);
+      return;
+    }
+
+    case Type.BOOLEAN: {
+      if (typeof value !== 'boolean') fail(`must be a boolean, got ${describeValue(value)}`);
+      return;
+    }
+
+    default:
+      return;
+  }
+};
+
+/**
+ * Validates an already-parsed value against a declared response schema.
+ * Throws a SchemaValidationError naming the first failing field.
+ */
+export const validateResponse = <T>(value: unknown, responseSchema: ResponseSchema<T>): T => {
+  validateNode(value, responseSchema.schema, '$', responseSchema.name);
+  return value as T;
+};
+
+/**
+ * Parses raw model text as JSON and validates it. The only leniency is a single
+ * surrounding ```json fence, which grounded responses occasionally add.
+ */
+export const parseStructuredResponse = <T>(text: string | undefined, responseSchema: ResponseSchema<T>): T => {
+  if (!text || !text.trim()) {
+    throw new ResponseParseError(`${responseSchema.name}: empty response from model`, text || '');
+  }
+
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  const payload = fenced ? fenced[1] : trimmed;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch (e) {
+    throw new ResponseParseError(`${responseSchema.name}: response is not valid JSON`, text);
+  }
+
+  return validateResponse(parsed, responseSchema);
+};
+
+/**
+ * Attaches a response schema to a request. Gemini rejects a response schema
+ * when tools such as Google Search are enabled, so grounded requests carry
+ * the schema inside the prompt instead; the response is validated either way.
+ */
+export const withResponseSchema = <T>(
+  prompt: string,
+  config: GenerateContentConfig,
+  responseSchema: ResponseSchema<T>
+): { contents: string; config: GenerateContentConfig } => {
+  if (config.tools && config.tools.length > 0) {
+    return {
+      contents: `${prompt}\n\nRespond with JSON only (no prose) that conforms to this schema:\n${JSON.stringify(responseSchema.schema, null, 2)}`,
+      config
+    };
+  }
+
+  return {
+    contents: prompt,
+    config: {
+      ...config,
+      responseMimeType: 'application/json',
+      responseSchema: responseSchema.schema
+    }
+  };
+};
@@ -0,0 +1,376 @@
+import { Match } from "../types";
+import { LEAGUE_NAME_SEED, NAME_MATCH_THRESHOLD, NAME_SUGGEST_THRESHOLD, NameSeed, TEAM_NAME_SEED } from "../constants";
+import { appLogger } from "../utils/logger";
+
+export interface RegistryEntry {
+  key: string; // stable slug, unique within its sport
+  sport: string;
+  name: string; // canonical display name
+  aliases: string[]; // other spellings that resolve to this entry
+}
+
+interface StoredRegistry {
+  entries: RegistryEntry[];
+}
+
+export interface MergeSuggestion {
+  from: RegistryEntry;
+  into: RegistryEntry;
+  score: number; // name similarity, 0..1
+}
+
+export interface ResolveOptions {
+  // Persist names (and fuzzy-matched spellings) seen for the first time
+  learn?: boolean;
+}
+
+// Words that distinguish nothing: "Arsenal FC", "The Arsenal" and "Arsenal" are one club
+const NOISE_WORDS = new Set(['fc', 'cf', 'afc', 'sc', 'ac', 'the', 'club', 'football', 'de', 'calcio']);
+
+/**
+ * Comparison form of a name: lowercase, accents and punctuation removed,
+ * "&" spelled out and filler words such as "FC" dropped.
+ */
+export const normalizeName = (name: string): string => {
+  const words = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  const meaningful = words.filter((word) => !NOISE_WORDS.has(word));
+  // A name made only of filler ("FC") keeps its words rather than becoming empty
+  return (meaningful.length > 0 ? meaningful : words).join(' ');
+};
+
+const slugOf = (name: string) => normalizeName(name).replace(/ /g, '-') || 'unknown';
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams, 0..1
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+  const pool = new Map<string, number>();
+  left.forEach((g) => pool.set(g, (pool.get(g) ?? 0) + 1));
+  let shared = 0;
+  right.forEach((g) => {
+    const count = pool.get(g) ?? 0;
+    if (count > 0) {
+      shared++;
+      pool.set(g, count - 1);
+    }
+  });
+  return (2 * shared) / (left.length + right.length);
+};
+
+// How far ahead of the next candidate a fuzzy match must be to count
+const AMBIGUITY_MARGIN = 0.1;
+
+const formsOf = (entry: RegistryEntry) => [entry.name, ...entry.aliases].map(normalizeName);
+
+const sameSport = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const indexKey = (sport: string, normalized: string) => `${sport.toLowerCase()}|${normalized}`;
+
+/**
+ * Canonical names for one kind of thing (teams or leagues), scoped by sport
+ * so "Inter" in football never resolves to a basketball side. Seed names come
+ * from constants; learned names and merges are stored locally on top of them.
+ */
+class NameRegistry {
+  private entries: RegistryEntry[] | null = null;
+  private index = new Map<string, RegistryEntry>();
+  // Fuzzy lookups (null for no match), remembered until the entries change
+  private lookups = new Map<string, RegistryEntry | null>();
+  private listeners = new Set<() => void>();
+
+  constructor(private storageKey: string, private seed: NameSeed[], private label: string) {}
+
+  private load(): RegistryEntry[] {
+    if (this.entries) return this.entries;
+    let stored: RegistryEntry[] = [];
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      stored = raw ? (JSON.parse(raw) as StoredRegistry).entries ?? [] : [];
+    } catch (e) {
+      appLogger.warn(`Failed to read ${this.label} registry`, e);
+    }
+    this.entries = stored;
+    this.reindex();
+
+    // Seeds are folded in on every load so new aliases ship with updates, but
+    // a seed already merged into another entry stays merged
+    this.seed.forEach((seed) => {
+      const existing = this.index.get(indexKey(seed.sport, normalizeName(seed.name)));
+      if (existing) {
+        seed.aliases.forEach((alias) => this.addAlias(existing, alias));
+      } else {
+        this.entries!.push({ key: this.uniqueKey(seed.sport, seed.name), sport: seed.sport, name: seed.name, aliases: [...seed.aliases] });
+      }
+      this.reindex();
+    });
+    return this.entries;
+  }
+
+  private reindex() {
+    this.index.clear();
+    this.lookups.clear();
+    (this.entries ?? []).forEach((entry) => {
+      formsOf(entry).forEach((form) => this.index.set(indexKey(entry.sport, form), entry));
+    });
+  }
+
+  private persist() {
+    try {
+      const stored: StoredRegistry = { entries: this.load() };
+      localStorage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch (e) {
+      appLogger.warn(`Failed to save ${this.label} registry`, e);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private uniqueKey(sport: string, name: string): string {
+    const base = slugOf(name);
+    const taken = new Set((this.entries ?? []).filter((e) => sameSport(e.sport, sport)).map((e) => e.key));
+    let key = base;
+    for (let n = 2; taken.has(key); n++) key = `${base}-${n}`;
+    return key;
+  }
+
+  private addAlias(entry: RegistryEntry, alias: string): boolean {
+    const form = normalizeName(alias);
+    if (!form || formsOf(entry).includes(form)) return false;
+    entry.aliases.push(alias.trim());
+    return true;
+  }
+
+  /**
+   * Closest known entry for a spelling that has no exact alias: the most
+   * similar name above NAME_MATCH_THRESHOLD, unless another entry is nearly
+   * as close ("Manchester" is as near to United as to City); otherwise the
+   * only entry whose name contains every word given ("Dortmund" for
+   * "Borussia Dortmund").
+   */
+  private fuzzyMatch(sport: string, normalized: string): RegistryEntry | null {
+    const candidates = this.load().filter((e) => sameSport(e.sport, sport));
+    const scored = candidates
+      .map((entry) => ({ entry, score: Math.max(...formsOf(entry).map((form) => similarity(normalized, form))) }))
+      .sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = scored;
+    if (best && best.score >= NAME_MATCH_THRESHOLD && (!runnerUp || best.score - runnerUp.score >= AMBIGUITY_MARGIN)) {
+      return best.entry;
+    }
+
+    const words = normalized.split(' ');
+    const containing = candidates.filter((entry) =>
+      formsOf(entry).some((form) => {
+        const formWords = new Set(form.split(' '));
+        return words.length < formWords.size && words.every((w) => formWords.has(w));
+      })
+    );
+    return containing.length === 1 ? containing[0] : null;
+  }
+
+  list(sport?: string): RegistryEntry[] {
+    return this.load().filter((entry) => !sport || sameSport(entry.sport, sport));
+  }
+
+  get(sport: string, key: string): RegistryEntry | undefined {
+    return this.load().find((entry) => sameSport(entry.sport, sport) && entry.key === key);
+  }
+
+  /**
+   * The entry a name refers to. Unknown names get a stand-alone entry with a
+   * stable key, which is only stored when `learn` is set.
+   */
+  resolve(sport: string, name: string, options: ResolveOptions = {}): RegistryEntry {
+    this.load();
+    const normalized = normalizeName(name);
+    const exact = this.index.get(indexKey(sport, normalized));
+    if (exact) return exact;
+    const lookupKey = indexKey(sport, normalized);
+    if (!this.lookups.has(lookupKey)) this.lookups.set(lookupKey, normalized ? this.fuzzyMatch(sport, normalized) : null);
+
+    const fuzzy = this.lookups.get(lookupKey);
+    if (fuzzy) {
+      if (options.learn && this.addAlias(fuzzy, name)) {
+        appLogger.info(`Matched ${this.label} "${name}" to "${fuzzy.name}"`);
+        this.reindex();
+        this.persist();
+      }
+      return fuzzy;
+    }
+
+    const entry: RegistryEntry = { key: this.uniqueKey(sport, name), sport, name: name.trim(), aliases: [] };
+    if (options.learn && normalized) {
+      this.entries!.push(entry);
+      this.reindex();
+      this.persist();
+    }
+    return entry;
+  }
+
+  canonicalName(sport: string, name: string, options?: ResolveOptions): string {
+    return this.resolve(sport, name, options).name;
+  }
+
+  keyOf(sport: string, name: string): string {
+    return this.resolve(sport, name).key;
+  }
+
+  isSame(sport: string, a: string, b: string): boolean {
+    return this.keyOf(sport, a) === this.keyOf(sport, b);
+  }
+
+  /**
+   * Pairs of names (e.g. everything seen in history) that resolve to
+   * different entries but look alike, most similar first. `into` is the
+   * longer, usually more formal, name.
+   */
+  suggestMerges(sport: string, names: string[]): MergeSuggestion[] {
+    const entries = new Map<string, RegistryEntry>();
+    names.forEach((name) => {
+      const entry = this.resolve(sport, name);
+      entries.set(entry.key, entry);
+    });
+
+    const distinct = Array.from(entries.values());
+    const suggestions: MergeSuggestion[] = [];
+    distinct.forEach((a, i) => {
+      distinct.slice(i + 1).forEach((b) => {
+        const left = normalizeName(a.name);
+        const right = normalizeName(b.name);
+        const leftWords = left.split(' ');
+        const rightWords = new Set(right.split(' '));
+        const contained = leftWords.every((w) => rightWords.has(w)) || Array.from(rightWords).every((w) => leftWords.includes(w));
+        const score = contained ? Math.max(similarity(left, right), NAME_SUGGEST_THRESHOLD) : similarity(left, right);
+        if (score < NAME_SUGGEST_THRESHOLD) return;
+        // Keep the longer name, or on a tie the one with more known spellings
+        const aFirst = a.name.length !== b.name.length ? a.name.length > b.name.length : a.aliases.length >= b.aliases.length;
+        const [from, into] = aFirst ? [b, a] : [a, b];
+        suggestions.push({ from, into, score });
+      });
+    });
+    return suggestions.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Folds one name's entry into another's: its name and aliases become
+   * aliases of the target. Names not yet in the registry are added first.
+   * Returns false when both already resolve to the same entry.
+   */
+  merge(sport: string, fromName: string, intoName: string): boolean {
+    const from = this.resolve(sport, fromName, { learn: true });
+    const into = this.resolve(sport, intoName, { learn: true });
+    if (from === into) return false;
+    [from.name, ...from.aliases].forEach((alias) => this.addAlias(into, alias));
+    this.entries = this.load().filter((entry) => entry !== from);
+    this.reindex();
+    this.persist();
+    appLogger.info(`Merged ${this.label} "${from.name}" into "${into.name}"`);
+    return true;
+  }
+
+  removeAlias(sport: string, key: string, alias: string) {
+    const entry = this.get(sport, key);
+    if (!entry) return;
+    entry.aliases = entry.aliases.filter((a) => a !== alias);
+    this.reindex();
+    this.persist();
+  }
+
+  /**
+   * Renames an entry's canonical name; the previous name is kept as an alias.
+   */
+  rename(sport: string, key: string, name: string) {
+    const entry = this.get(sport, key);
+    if (!entry || !name.trim() || entry.name === name.trim()) return;
+    const previous = entry.name;
+    entry.name = name.trim();
+    entry.aliases = entry.aliases.filter((a) => normalizeName(a) !== normalizeName(entry.name));
+    this.addAlias(entry, previous);
+    this.reindex();
+    this.persist();
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const teamRegistry = new NameRegistry('probable_play_team_registry_v1', TEAM_NAME_SEED, 'team');
+export const leagueRegistry = new NameRegistry('probable_play_league_registry_v1', LEAGUE_NAME_SEED, 'league');
+
+type MatchIdentity = Pick<Match, 'sport' | 'homeTeam' | 'awayTeam' | 'startTime'>;
+
+const utcDay = (startTime: string) => {
+  const parsed = new Date(startTime);
+  return Number.isNaN(parsed.getTime()) ? startTime.slice(0, 10) : parsed.toISOString().slice(0, 10);
+};
+
+/**
+ * Identifies one real-world fixture from its sport, canonical teams and UTC
+ * kickoff date, e.g. "football:manchester-united:arsenal:2026-10-18". The
+ * browsed date, the provider's spelling of the team names and minor
+ * kickoff-time corrections within the day do not change it, so history,
+ * cached predictions and results for a fixture always line up. A registry
+ * merge can change it; `rekeyMatch` rebuilds ids that were built from it.
+ */
+export const canonicalMatchKey = (match: MatchIdentity): string =>
+  [
+    slugOf(match.sport),
+    teamRegistry.keyOf(match.sport, match.homeTeam),
+    teamRegistry.keyOf(match.sport, match.awayTeam),
+    utcDay(match.startTime)
+  ].join(':');
+
+/**
+ * A fixture with canonical team and league names. The id is left alone;
+ * providers set it from `canonicalMatchKey` when they build the match.
+ */
+export const canonicalizeMatch = <T extends Pick<Match, 'sport' | 'league' | 'homeTeam' | 'awayTeam'>>(
+  match: T,
+  options: ResolveOptions = {}
+): T => ({
+  ...match,
+  league: leagueRegistry.canonicalName(match.sport, match.league, options),
+  homeTeam: teamRegistry.canonicalName(match.sport, match.homeTeam, options),
+  awayTeam: teamRegistry.canonicalName(match.sport, match.awayTeam, options)
+});
+
+// Where the canonical key starts in an id built from one (after any provider prefix such as "local-"), or -1
+const keyOffset = (match: MatchIdentity & Pick<Match, 'id'>): number => {
+  const sportPrefix = `${slugOf(match.sport)}:`;
+  const at = match.id.indexOf(sportPrefix);
+  const parts = at < 0 ? [] : match.id.slice(at + sportPrefix.length).split(':');
+  return parts.length === 3 && parts[2] === utcDay(match.startTime) ? at : -1;
+};
+
+// Whether a match id was built from `canonicalMatchKey`, as every provider has done since ids became stable
+export const hasCanonicalId = (match: MatchIdentity & Pick<Match, 'id'>): boolean => keyOffset(match) >= 0;
+
+/**
+ * A stored match brought up to date with the registry: canonical names, and
+ * an id rebuilt from the current `canonicalMatchKey` when it was built from
+ * one. Other ids are kept. Keys frozen into ids go stale when a merge or
+ * alias removal moves a name to another entry.
+ */
+export const rekeyMatch = <T extends Pick<Match, 'id' | 'sport' | 'league' | 'homeTeam' | 'awayTeam' | 'startTime'>>(match: T): T => {
+  const at = keyOffset(match);
+  return { ...canonicalizeMatch(match), id: at >= 0 ? `${match.id.slice(0, at)}${canonicalMatchKey(match)}` : match.id };
+};
@@ -0,0 +1,211 @@
+import { ModelOperation, TokenUsage } from "../types";
+import { DEFAULT_PRICE_TABLE, ModelPrice, USAGE_LEDGER_RETENTION_DAYS } from "../constants";
+import { ModelResponse } from "./contentGenerator";
+import { SpendCapError } from "./errors";
+import { appLogger } from "../utils/logger";
+
+const LEDGER_KEY = 'probable_play_usage_ledger_v1';
+const SETTINGS_KEY = 'probable_play_usage_settings_v1';
+
+export interface UsageEntry extends TokenUsage {
+  timestamp: number;
+  day: string; // local YYYY-MM-DD
+  operation: ModelOperation;
+  model: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  candidateTokens: number;
+  thinkingTokens: number;
+  groundingQueries: number;
+  costUsd: number;
+  unpricedCalls: number; // calls whose model has no price, excluded from costUsd
+}
+
+interface UsageSettings {
+  priceTable: Record<string, ModelPrice>;
+  dailyCapUsd: number | null;
+}
+
+type UsageListener = () => void;
+
+export const EMPTY_USAGE: TokenUsage = {
+  promptTokens: 0,
+  candidateTokens: 0,
+  thinkingTokens: 0,
+  groundingQueries: 0,
+  costUsd: 0
+};
+
+const dayKey = (time: number) => new Date(time).toLocaleDateString('en-CA');
+
+const estimateCost = (usage: Omit<TokenUsage, 'costUsd'>, price: ModelPrice | undefined): number | null => {
+  if (!price) return null;
+  return (
+    (usage.promptTokens / 1_000_000) * price.inputPerMillion +
+    ((usage.candidateTokens + usage.thinkingTokens) / 1_000_000) * price.outputPerMillion +
+    (usage.groundingQueries / 1000) * price.groundingPerThousand
+  );
+};
+
+/**
+ * Sums usage from several calls. Cost becomes null if any part is unpriced,
+ * so a partial total is never shown as the full cost.
+ */
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  candidateTokens: a.candidateTokens + b.candidateTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+  groundingQueries: a.groundingQueries + b.groundingQueries,
+  costUsd: a.costUsd === null || b.costUsd === null ? null : a.costUsd + b.costUsd
+});
+
+const readEntries = (): UsageEntry[] => {
+  try {
+    const stored = localStorage.getItem(LEDGER_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    appLogger.warn('Failed to read usage ledger', e);
+    return [];
+  }
+};
+
+const readSettings = (): UsageSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    const parsed: Partial<UsageSettings> = stored ? JSON.parse(stored) : {};
+    return {
+      priceTable: parsed.priceTable ?? DEFAULT_PRICE_TABLE,
+      dailyCapUsd: parsed.dailyCapUsd ?? null
+    };
+  } catch (e) {
+    appLogger.warn('Failed to read usage settings', e);
+    return { priceTable: DEFAULT_PRICE_TABLE, dailyCapUsd: null };
+  }
+};
+
+const writeSettings = (settings: UsageSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const totalsOf = (entries: UsageEntry[]): UsageTotals =>
+  entries.reduce<UsageTotals>((totals, e) => ({
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + e.promptTokens,
+    candidateTokens: totals.candidateTokens + e.candidateTokens,
+    thinkingTokens: totals.thinkingTokens + e.thinkingTokens,
+    groundingQueries: totals.groundingQueries + e.groundingQueries,
+    costUsd: totals.costUsd + (e.costUsd ?? 0),
+    unpricedCalls: totals.unpricedCalls + (e.costUsd === null ? 1 : 0)
+  }), { calls: 0, promptTokens: 0, candidateTokens: 0, thinkingTokens: 0, groundingQueries: 0, costUsd: 0, unpricedCalls: 0 });
+
+const groupBy = (entries: UsageEntry[], keyOf: (e: UsageEntry) => string) => {
+  const groups = new Map<string, UsageEntry[]>();
+  entries.forEach((e) => {
+    const key = keyOf(e);
+    groups.set(key, [...(groups.get(key) ?? []), e]);
+  });
+  return Array.from(groups.entries()).map(([key, group]) => ({ key, totals: totalsOf(group) }));
+};
+
+const listeners = new Set<UsageListener>();
+const notify = () => listeners.forEach((listener) => listener());
+
+/**
+ * Local record of every billed model call, with per-day, per-operation and
+ * per-model rollups priced against an editable price table.
+ */
+export const usageLedger = {
+  subscribe: (listener: UsageListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Reads token counts and grounding queries from a response and prices them.
+   */
+  measure: (response: ModelResponse, model: string): TokenUsage => {
+    const meta = response.usageMetadata;
+    const counts = {
+      // Search results fed back to the model are billed as input
+      promptTokens: (meta?.promptTokenCount ?? 0) + (meta?.toolUsePromptTokenCount ?? 0),
+      candidateTokens: meta?.candidatesTokenCount ?? 0,
+      thinkingTokens: meta?.thoughtsTokenCount ?? 0,
+      groundingQueries: response.candidates?.[0]?.groundingMetadata?.webSearchQueries?.length ?? 0
+    };
+    return { ...counts, costUsd: estimateCost(counts, readSettings().priceTable[model]) };
+  },
+
+  record: (operation: ModelOperation, model: string, usage: TokenUsage) => {
+    const now = Date.now();
+    const cutoff = dayKey(now - USAGE_LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const entries = readEntries().filter((e) => e.day >= cutoff);
+    entries.push({ ...usage, timestamp: now, day: dayKey(now), operation, model });
+    try {
+      localStorage.setItem(LEDGER_KEY, JSON.stringify(entries));
+    } catch (e) {
+      appLogger.warn('Failed to write usage ledger', e);
+    }
+    notify();
+  },
+
+  entries: (): UsageEntry[] => readEntries(),
+
+  totals: (): UsageTotals => totalsOf(readEntries()),
+
+  today: (): UsageTotals => {
+    const today = dayKey(Date.now());
+    return totalsOf(readEntries().filter((e) => e.day === today));
+  },
+
+  // Newest day first
+  byDay: () => groupBy(readEntries(), (e) => e.day).sort((a, b) => b.key.localeCompare(a.key)),
+
+  byOperation: () => groupBy(readEntries(), (e) => e.operation),
+
+  byModel: () => groupBy(readEntries(), (e) => e.model),
+
+  getPriceTable: (): Record<string, ModelPrice> => readSettings().priceTable,
+
+  setPriceTable: (priceTable: Record<string, ModelPrice>) => {
+    writeSettings({ ...readSettings(), priceTable });
+    notify();
+  },
+
+  getDailyCap: (): number | null => readSettings().dailyCapUsd,
+
+  setDailyCap: (dailyCapUsd: number | null) => {
+    writeSettings({ ...readSettings(), dailyCapUsd });
+    notify();
+  },
+
+  /**
+   * Throws SpendCapError when today's estimated spend has reached the cap.
+   */
+  assertWithinDailyCap: () => {
+    const cap = readSettings().dailyCapUsd;
+    if (cap === null) return;
+    const spent = usageLedger.today().costUsd;
+    if (spent >= cap) throw new SpendCapError(spent, cap);
+  },
+
+  clear: () => {
+    localStorage.removeItem(LEDGER_KEY);
+    notify();
+  }
+};
+
+/**
+ * Small costs keep four decimals so single calls do not all read "$0.00".
+ */
+export const formatUsd = (value: number | null): string => {
+  if (value === null) return 'n/a';
+  return value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+};
+
+export const formatTokens = (value: number): string =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
@@ -12,14 +12,57 @@ export interface Match {
   awayTeam: string;
   startTime: string; // ISO string
   status: 'Scheduled' | 'Live' | 'Finished';
+  score?: { home: number; away: number }; // live or final, when a result check has returned one
+  bestOf?: number; // most sets the match can go to, for sports scored in sets; absent when not reported
 }
 
+// Which side won; sports without draws (see services/sportRegistry) never produce 'Draw'
+export type Outcome = 'Home' | 'Draw' | 'Away';
+
 export interface PredictionProbabilities {
   homeWin: number;
-  draw: number;
+  draw: number; // always 0 for sports whose descriptor has no draw outcome
   awayWin: number;
 }
 
+// A sport-specific market beyond the win market, e.g. hockey's "Decided In"
+export interface MarketPrediction {
+  id: string; // matches a market id in the sport descriptor
+  label: string;
+  selections: Array<{ name: string; probability: number }>; // in descriptor order, summing to 1
+}
+
+/**
+ * Tokens and estimated cost of the model calls behind one result. Thinking
+ * tokens are billed at the output rate; cost is null when the model is not
+ * in the price table.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  candidateTokens: number;
+  thinkingTokens: number;
+  groundingQueries: number;
+  costUsd: number | null;
+}
+
+export type EnsembleAggregation = 'mean' | 'median';
+
+export interface OutcomeDispersion {
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+/**
+ * How an aggregated prediction was produced and how much its samples
+ * disagreed, per outcome (same 0-1 scale as the probabilities).
+ */
+export interface EnsembleSummary {
+  samples: number;
+  aggregation: EnsembleAggregation;
+  spread: Record<keyof PredictionProbabilities, OutcomeDispersion>;
+}
+
 export interface GroundingSource {
   title: string;
   uri: string;
@@ -32,22 +75,36 @@ export interface ScorerPrediction {
   likelihood: string; // "35%", "80%" (Numeric string)
 }
 
+export interface ConsistencyViolation {
+  ruleId: string;
+  rule: string; // the rule as stated to the model
+  message: string; // what this forecast got wrong
+}
+
+export interface ConsistencyReport {
+  violations: ConsistencyViolation[]; // remaining on the returned forecast
+  reasked: boolean;
+  initialViolations?: ConsistencyViolation[]; // before the re-ask, when one was made
+}
+
+// The optional parts below are only asked for when the sport's descriptor lists them (see services/sportRegistry)
 export interface DetailedForecastResult {
   matchId: string;
   // Core Outcome
   predictedScore: string; // e.g., "2-1"
-  totalGoals: string; // e.g., "Over 2.5"
+  totalGoals: string; // e.g., "Over 2.5", in the sport's scoring unit
+  expectedGoals?: { home: number; away: number }; // absent on forecasts made before the scoreline model
   
   // Scoring Flow
-  firstTeamToScore: string;
-  halfTimeWinner: 'Home' | 'Draw' | 'Away';
-  secondHalfWinner: 'Home' | 'Draw' | 'Away';
+  firstTeamToScore?: string;
+  halfTimeWinner?: Outcome;
+  secondHalfWinner?: Outcome;
   
   // Complex Data Points
-  likelyScorers: ScorerPrediction[];
+  likelyScorers?: ScorerPrediction[];
   
   // Event Probabilities
-  scoringMethodProbabilities: {
+  scoringMethodProbabilities?: {
     penalty: string; // e.g. "15%"
     freeKick: string; // e.g. "5%"
     cornerHeader: string; // e.g. "25%"
@@ -56,11 +113,38 @@ export interface DetailedForecastResult {
   };
 
   // Discipline
-  redCards: string; // e.g. "0 (90%)" or ">0 (15%)"
+  redCards?: string; // e.g. "0 (90%)" or ">0 (15%)"
   
   // Meta
   confidenceScore: string; 
   reasoning: string;
+  usage?: TokenUsage;
+  consistency?: ConsistencyReport; // absent on forecasts made before consistency checks
+}
+
+export interface PlayerProjection {
+  player: string;
+  team: string;
+  points: number;
+  rebounds: number;
+  assists: number;
+}
+
+/**
+ * Detailed forecast for basketball. Lines follow betting convention: a
+ * negative spread means the home side is favoured by that many points.
+ */
+export interface BasketballForecastResult {
+  matchId: string;
+  predictedScore: string; // final score including any overtime, e.g. "112-105"
+  pointSpread: number; // home handicap, e.g. -6.5
+  totalPoints: { line: number; pick: 'Over' | 'Under' };
+  quarterWinners: Outcome[]; // one per quarter; a single quarter can be level
+  topScorers: PlayerProjection[]; // highest projected points first
+  overtimeLikelihood: string; // e.g. "6%"
+  confidenceScore: string;
+  reasoning: string;
+  usage?: TokenUsage;
 }
 
 export interface PredictionResult {
@@ -71,17 +155,64 @@ export interface PredictionResult {
   keyFactors: string[];
   sources: GroundingSource[];
   lastUpdated: string;
+  markets?: MarketPrediction[]; // the sport's extra markets; empty or absent when it has none
+  ensemble?: EnsembleSummary; // present when probabilities aggregate several samples
+  usage?: TokenUsage;
 }
 
 export interface MatchResult {
   homeScore: number;
   awayScore: number;
-  winner: 'Home' | 'Draw' | 'Away';
+  winner: Outcome;
   isFinished: boolean;
 }
 
 export type PredictionType = 'STANDARD' | 'DETAILED';
 
+// Every distinct kind of model call the app makes
+export type ModelOperation = 'schedule' | 'standard' | 'detailed' | 'results' | 'backtest';
+
+export interface ModelSettings {
+  model: string;
+  temperature: number | null; // null = model default
+  thinkingBudget: number | null; // null = model default
+  grounding: boolean; // Google Search tool on/off
+  systemInstruction: string;
+  reaskOnInconsistency?: boolean; // detailed forecasts only: re-ask once when consistency rules fail
+}
+
+export type ModelConfiguration = Record<ModelOperation, ModelSettings>;
+
+export type HourCycle = 'auto' | '12h' | '24h'; // auto = the browser locale's convention
+
+export interface DisplaySettings {
+  timeZone: string | null; // IANA zone, e.g. "Europe/London"; null = browser time zone
+  hourCycle: HourCycle;
+}
+
+/**
+ * Optional pruning of prediction history. Both limits are off by default, so
+ * history is kept in full until the user opts in.
+ */
+export interface HistoryRetention {
+  maxAgeDays: number | null; // drop items older than this; null = keep forever
+  maxItems: number | null; // keep only the newest N items; null = no limit
+}
+
+/**
+ * Identifies what produced a prediction. Keys cached results so a model,
+ * prompt or settings change never serves a stale answer, and is stamped on
+ * history items so accuracy can be compared across configurations.
+ */
+export interface PredictionDescriptor {
+  providerId: string;
+  model: string;
+  promptId: string;
+  promptVersion: string; // semantic version of the prompt template
+  settings?: ModelSettings; // absent for providers without tunable settings
+  ensembleSamples?: number; // present when the result aggregates several samples
+}
+
 export interface HistoryItem {
   id: string;
   match: Match;
@@ -89,19 +220,30 @@ export interface HistoryItem {
   // We store one of the two depending on the type
   standardPrediction?: PredictionResult;
   detailedForecast?: DetailedForecastResult;
+  basketballForecast?: BasketballForecastResult; // DETAILED items for sports with the basketball forecast
   result?: MatchResult;
   timestamp: number;
+  generatedBy?: PredictionDescriptor; // absent on items saved before settings were tracked
+  usage?: TokenUsage;
 }
 
-export type SportFilter = 'All' | 'Football' | 'NBA';
+// Inclusive range of local calendar dates (YYYY-MM-DD); start === end for a single day
+export interface DateSelection {
+  start: string;
+  end: string;
+}
+
+// 'All' or the id of a registered sport (see services/sportRegistry)
+export type SportFilter = string;
 
-export type MatchStatus = 'All' | 'Live' | 'Scheduled';
+export type MatchStatus = 'All' | 'Live' | 'Scheduled' | 'Finished';
 
 export interface ExtendedFilters {
   sport: SportFilter;
   status: MatchStatus;
   confidenceThreshold: number; // 0-100
   kickoffWindow?: {
+    // Hours in the display time zone; a start after the end wraps past midnight
     startHour?: number;
     endHour?: number;
   };
@@ -113,25 +255,67 @@ export enum ViewState {
   DETAIL = 'DETAIL',
   HISTORY = 'HISTORY',
   BACKTEST = 'BACKTEST',
+  CALIBRATION = 'CALIBRATION',
+  USAGE = 'USAGE',
+  TEAMS = 'TEAMS',
+  SETTINGS = 'SETTINGS',
+}
+
+export interface BacktestCandidate {
+  date: string; // YYYY-MM-DD
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  sport?: string; // set by the Backtest Lab before predicting, so the outcome market fits the sport
 }
 
 export interface BacktestResultItem {
   id: string;
   date: string;
+  sport?: string; // set by the Backtest Lab from the run's form
+  league?: string;
   homeTeam: string;
   awayTeam: string;
   actualHomeScore: number;
   actualAwayScore: number;
-  actualWinner: 'Home' | 'Draw' | 'Away';
-  predictedWinner: 'Home' | 'Draw' | 'Away';
+  actualWinner: Outcome;
+  predictedWinner: Outcome;
   predictedProbabilities: PredictionProbabilities;
   isCorrect: boolean;
   explanation: string;
+  generatedBy?: PredictionDescriptor;
+}
+
+// A mean with its 95% confidence interval and sample size
+export interface Estimate {
+  value: number;
+  lower: number;
+  upper: number;
+  n: number;
+}
+
+/**
+ * Scores for a set of settled forecasts (see services/metrics). Each is null
+ * when no forecast in the set could be scored that way.
+ */
+export interface ForecastMetrics {
+  settled: number; // forecasts scored
+  accuracy: Estimate | null; // share of correct picks, 0-1; Wilson interval
+  brier: Estimate | null; // multi-class Brier score, 0 (perfect) to 2
+  logLoss: Estimate | null; // mean negative log likelihood of the actual outcome, nats
+  rps: Estimate | null; // ranked probability score over Home < Draw < Away, 0 to 1
+}
+
+export interface TrendPoint {
+  name: string;
+  value: number;
+  label?: string;
 }
 
 export interface AISnapshot {
   latestPrediction: PredictionResult | null;
-  accuracy: number;
   totalPredictions: number;
-  trendData: Array<{ name: string; value: number; label?: string }>;
+  metrics: ForecastMetrics;
+  trendData: TrendPoint[];
 }
@@ -0,0 +1,51 @@
+/**
+ * Calendar dates are passed around as local "YYYY-MM-DD" keys so they sort
+ * as strings and survive JSON without timezone drift.
+ */
+export type DateKey = string;
+
+export const toDateKey = (date: Date): DateKey => date.toLocaleDateString('en-CA');
+
+export const todayKey = (): DateKey => toDateKey(new Date());
+
+// Noon keeps daylight-saving shifts from moving the date
+export const fromDateKey = (key: DateKey): Date => new Date(`${key}T12:00:00`);
+
+export const addDays = (key: DateKey, days: number): DateKey => {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+/**
+ * Every date from `start` to `end` inclusive.
+ */
+export const dateRange = (start: DateKey, end: DateKey): DateKey[] => {
+  const dates: DateKey[] = [];
+  for (let key = start; key <= end; key = addDays(key, 1)) dates.push(key);
+  return dates;
+};
+
+/**
+ * The coming Saturday and Sunday, or the current weekend when today is one of them.
+ */
+export const upcomingWeekend = (from: DateKey = todayKey()): { start: DateKey; end: DateKey } => {
+  const day = fromDateKey(from).getDay(); // 0 = Sunday
+  const start = day === 0 ? addDays(from, -1) : addDays(from, 6 - day);
+  return { start, end: addDays(start, 1) };
+};
+
+// e.g. "Sunday, October 18, 2026"
+export const formatLongDate = (key: DateKey): string =>
+  fromDateKey(key).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * "Today", "Tomorrow", "Yesterday" or a short date like "Tue, Oct 20".
+ */
+export const formatRelativeDate = (key: DateKey): string => {
+  const today = todayKey();
+  if (key === today) return 'Today';
+  if (key === addDays(today, 1)) return 'Tomorrow';
+  if (key === addDays(today, -1)) return 'Yesterday';
+  return fromDateKey(key).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+};
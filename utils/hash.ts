@@ -0,0 +1,11 @@
+// FNV-1a: small, stable, synchronous string hash. Not for security use.
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const hashToHex = (value: string): string => hashString(value).toString(16).padStart(8, '0');
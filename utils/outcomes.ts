@@ -0,0 +1,42 @@
+import { PredictionProbabilities, HistoryItem, Outcome } from '../types';
+import { allowsDraw } from '../services/sportRegistry';
+
+export type { Outcome };
+
+/**
+ * Most likely outcome; ties go to the draw, then home. With a sport given,
+ * outcomes outside its market (a draw in basketball) are never picked.
+ */
+export const pickWinner = (p: PredictionProbabilities, sport?: string): Outcome => {
+  const draws = sport === undefined || allowsDraw(sport);
+  let pick: Outcome = draws ? 'Draw' : 'Home';
+  let maxProb = draws ? p.draw : p.homeWin;
+  if (p.homeWin > maxProb) { pick = 'Home'; maxProb = p.homeWin; }
+  if (p.awayWin > maxProb) { pick = 'Away'; }
+  return pick;
+};
+
+export const winnerFromScore = (homeScore: number, awayScore: number): Outcome =>
+  homeScore > awayScore ? 'Home' : awayScore > homeScore ? 'Away' : 'Draw';
+
+// Predicted score of a detailed item, whichever forecast shape it holds
+export const detailedScoreOf = (item: HistoryItem): string | undefined =>
+  item.detailedForecast?.predictedScore ?? item.basketballForecast?.predictedScore;
+
+/**
+ * The outcome a saved prediction called, within the match's sport. Detailed
+ * forecasts are judged on the winner implied by their predicted score; a
+ * level score in a sport without draws calls nothing.
+ */
+export const predictedOutcome = (item: HistoryItem): Outcome | null => {
+  if (item.type === 'STANDARD' && item.standardPrediction) {
+    return pickWinner(item.standardPrediction.probabilities, item.match.sport);
+  }
+  const score = item.type === 'DETAILED' ? detailedScoreOf(item) : undefined;
+  if (score) {
+    const [home, away] = score.split('-').map(Number);
+    const outcome = isNaN(home) || isNaN(away) ? 'Draw' : winnerFromScore(home, away);
+    return outcome === 'Draw' && !allowsDraw(item.match.sport) ? null : outcome;
+  }
+  return null;
+};
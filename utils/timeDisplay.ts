@@ -0,0 +1,80 @@
+import { DisplaySettings } from "../types";
+import { DateKey, addDays } from "./dates";
+
+type TimeValue = string | number | Date;
+
+const toDate = (value: TimeValue) => (value instanceof Date ? value : new Date(value));
+
+const zoneOptions = (settings: DisplaySettings): Intl.DateTimeFormatOptions =>
+  settings.timeZone ? { timeZone: settings.timeZone } : {};
+
+const clockOptions = (settings: DisplaySettings): Intl.DateTimeFormatOptions => ({
+  ...zoneOptions(settings),
+  hour: '2-digit',
+  minute: '2-digit',
+  ...(settings.hourCycle === 'auto' ? {} : { hourCycle: settings.hourCycle === '12h' ? 'h12' : 'h23' })
+});
+
+/**
+ * Calendar date of an instant in the display time zone.
+ */
+export const dateKeyIn = (value: TimeValue, settings: DisplaySettings): DateKey =>
+  toDate(value).toLocaleDateString('en-CA', zoneOptions(settings));
+
+/**
+ * Hour of day (0-23) of an instant in the display time zone.
+ */
+export const hourIn = (value: TimeValue, settings: DisplaySettings): number => {
+  const parts = new Intl.DateTimeFormat('en-US', { ...zoneOptions(settings), hour: 'numeric', hourCycle: 'h23' }).formatToParts(toDate(value));
+  return Number(parts.find((p) => p.type === 'hour')?.value ?? NaN);
+};
+
+// e.g. "15:00" or "03:00 PM"
+export const formatTime = (value: TimeValue, settings: DisplaySettings): string =>
+  toDate(value).toLocaleTimeString([], clockOptions(settings));
+
+// e.g. "10/18/2026 15:00", in the browser's date order
+export const formatDateTime = (value: TimeValue, settings: DisplaySettings): string =>
+  `${toDate(value).toLocaleDateString([], zoneOptions(settings))} ${formatTime(value, settings)}`;
+
+// e.g. "10/18/2026"
+export const formatDate = (value: TimeValue, settings: DisplaySettings): string =>
+  toDate(value).toLocaleDateString([], zoneOptions(settings));
+
+/**
+ * "Today, 15:00", "Tomorrow, 15:00" or "Oct 20, 15:00", where today is
+ * judged in the display time zone rather than the browser's.
+ */
+export const formatKickoff = (value: TimeValue, settings: DisplaySettings, now: Date = new Date()): string => {
+  const date = toDate(value);
+  if (Number.isNaN(date.getTime())) return 'Time TBD';
+  const key = dateKeyIn(date, settings);
+  const today = dateKeyIn(now, settings);
+  const time = formatTime(date, settings);
+  if (key === today) return `Today, ${time}`;
+  if (key === addDays(today, 1)) return `Tomorrow, ${time}`;
+  return `${date.toLocaleDateString([], { ...zoneOptions(settings), month: 'short', day: 'numeric' })}, ${time}`;
+};
+
+/**
+ * Short name of the display time zone at a given instant, e.g. "BST" or "GMT+2".
+ */
+export const timeZoneLabel = (settings: DisplaySettings, at: Date = new Date()): string => {
+  const parts = new Intl.DateTimeFormat('en-US', { ...zoneOptions(settings), timeZoneName: 'short' }).formatToParts(at);
+  return parts.find((p) => p.type === 'timeZoneName')?.value ?? settings.timeZone ?? 'local';
+};
+
+/**
+ * Whether an hour falls in [start, end). A start after the end wraps past
+ * midnight (22-2 covers 22:00 to 01:59); equal bounds select that one hour.
+ * A missing bound leaves that side open.
+ */
+export const isInHourWindow = (hour: number, start?: number, end?: number): boolean => {
+  if (start !== undefined && end !== undefined) {
+    if (start === end) return hour === start;
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+  }
+  if (start !== undefined) return hour >= start;
+  if (end !== undefined) return hour < end;
+  return true;
+};
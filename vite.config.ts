@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.PREDICTION_PROVIDER': JSON.stringify(env.PREDICTION_PROVIDER),
+        'process.env.GEMINI_MODE': JSON.stringify(env.GEMINI_MODE),
+        'process.env.GEMINI_FIXTURES_URL': JSON.stringify(env.GEMINI_FIXTURES_URL)
       },
       resolve: {
         alias: {